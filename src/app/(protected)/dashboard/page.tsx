@@ -5,6 +5,7 @@ import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert } from "@/components/ui/alert"
 import { Skeleton } from "@/components/ui/skeleton"
+import { ToolDescription } from "@/lib/chat-tools"
 import { useAuthStore } from "@/stores/auth-store"
 
 interface ToolSummary {
@@ -21,6 +22,7 @@ export default function DashboardPage() {
   const user = useAuthStore((state) => state.user)
   const stats = useAuthStore((state) => state.stats)
   const [tools, setTools] = useState<ToolSummary[]>([])
+  const [chatTools, setChatTools] = useState<ToolDescription[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -31,12 +33,13 @@ export default function DashboardPage() {
       setError(null)
       try {
         const response = await fetch("/api/tools")
-        const payload: { tools: ToolSummary[]; message?: string } = await response.json()
+        const payload: { tools: ToolSummary[]; chatTools?: ToolDescription[]; message?: string } = await response.json()
         if (!response.ok) {
           throw new Error(payload.message ?? "Failed to load tools")
         }
         if (mounted) {
           setTools(payload.tools)
+          setChatTools(payload.chatTools ?? [])
         }
       } catch (caughtError) {
         if (mounted) {
@@ -126,6 +129,45 @@ export default function DashboardPage() {
             </Card>
           ))}
       </section>
+
+      {!loading && !error && chatTools.length > 0 && (
+        <section className="space-y-4" aria-labelledby="chat-tools-heading">
+          <div>
+            <h2 id="chat-tools-heading" className="text-xl font-semibold text-slate-900 dark:text-slate-100">
+              Chat tools
+            </h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Functions the chat assistant can call, with the arguments each one accepts.
+            </p>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            {chatTools.map((tool) => (
+              <Card key={tool.name}>
+                <CardHeader>
+                  <CardTitle className="font-mono text-base">{tool.name}</CardTitle>
+                  <CardDescription>{tool.description}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <dl className="space-y-2 text-sm">
+                    {Object.entries(tool.parameters.properties).map(([name, parameter]) => (
+                      <div key={name}>
+                        <dt className="font-mono text-slate-800 dark:text-slate-100">
+                          {name}: {parameter.type}
+                          {tool.parameters.required?.includes(name) ? "" : " (optional)"}
+                        </dt>
+                        <dd className="text-slate-500 dark:text-slate-400">
+                          {parameter.description}
+                          {parameter.enum ? ` One of: ${parameter.enum.join(", ")}.` : ""}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </section>
+      )}
     </div>
   )
 }
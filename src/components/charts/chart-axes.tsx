@@ -0,0 +1,90 @@
+import { labelStride, Scale, truncateLabel } from "@/lib/chart-scale"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+
+export const CHART_WIDTH = 600
+export const CHART_HEIGHT = 240
+export const CHART_PADDING = { top: 12, right: 16, bottom: 36, left: 64 }
+
+interface ValueAxisProps {
+  ticks: number[]
+  scale: Scale
+  /** Values run up the left edge, or along the bottom for horizontal charts. */
+  orientation?: "left" | "bottom"
+  locale?: NumberLocale
+  padding?: typeof CHART_PADDING
+}
+
+/** Tick labels with light gridlines across the plot area. */
+export function ValueAxis({ ticks, scale, orientation = "left", locale, padding = CHART_PADDING }: ValueAxisProps) {
+  return (
+    <g className="text-[11px]" aria-hidden>
+      {ticks.map((tick) =>
+        orientation === "left" ? (
+          <g key={tick}>
+            <line
+              x1={padding.left}
+              x2={CHART_WIDTH - padding.right}
+              y1={scale(tick)}
+              y2={scale(tick)}
+              className="stroke-slate-200 dark:stroke-slate-700"
+              strokeDasharray={tick === 0 ? undefined : "2 4"}
+            />
+            <text x={padding.left - 8} y={scale(tick)} dy="0.32em" textAnchor="end" className="fill-slate-500">
+              {formatNumber(tick, locale)}
+            </text>
+          </g>
+        ) : (
+          <g key={tick}>
+            <line
+              x1={scale(tick)}
+              x2={scale(tick)}
+              y1={padding.top}
+              y2={CHART_HEIGHT - padding.bottom}
+              className="stroke-slate-200 dark:stroke-slate-700"
+              strokeDasharray={tick === 0 ? undefined : "2 4"}
+            />
+            <text x={scale(tick)} y={CHART_HEIGHT - padding.bottom + 16} textAnchor="middle" className="fill-slate-500">
+              {formatNumber(tick, locale)}
+            </text>
+          </g>
+        ),
+      )}
+    </g>
+  )
+}
+
+interface CategoryAxisProps {
+  labels: string[]
+  /** Center of each category along the bottom edge. */
+  position: (index: number) => number
+  padding?: typeof CHART_PADDING
+}
+
+/** Category labels along the bottom, thinned out when there are many. */
+export function CategoryAxis({ labels, position, padding = CHART_PADDING }: CategoryAxisProps) {
+  const stride = labelStride(labels.length)
+  return (
+    <g className="text-[11px]" aria-hidden>
+      <line
+        x1={padding.left}
+        x2={CHART_WIDTH - padding.right}
+        y1={CHART_HEIGHT - padding.bottom}
+        y2={CHART_HEIGHT - padding.bottom}
+        className="stroke-slate-300 dark:stroke-slate-600"
+      />
+      {labels.map((label, index) =>
+        index % stride === 0 ? (
+          <text
+            key={`${label}-${index}`}
+            x={position(index)}
+            y={CHART_HEIGHT - padding.bottom + 16}
+            textAnchor="middle"
+            className="fill-slate-500"
+          >
+            {truncateLabel(label)}
+          </text>
+        ) : null,
+      )}
+    </g>
+  )
+}
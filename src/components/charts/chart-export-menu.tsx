@@ -0,0 +1,93 @@
+"use client"
+
+import { RefObject, useState } from "react"
+import { ChartBackground, ChartExportFormat, exportChart, PNG_SCALES } from "@/lib/chart-export"
+import { getErrorMessage } from "@/lib/request-utils"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+
+interface ChartExportMenuProps {
+  /** The element wrapping the rendered chart. */
+  target: RefObject<HTMLElement | null>
+  title: string
+}
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-slate-300 bg-white px-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+
+export function ChartExportMenu({ target, title }: ChartExportMenuProps) {
+  const [format, setFormat] = useState<ChartExportFormat>("png")
+  const [scale, setScale] = useState(2)
+  const [background, setBackground] = useState<ChartBackground>("theme")
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const id = title.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+
+  const handleExport = async () => {
+    if (!target.current) return
+    setIsExporting(true)
+    setError(null)
+    try {
+      await exportChart(target.current, { title, format, scale, background })
+    } catch (caughtError) {
+      setError(getErrorMessage(caughtError))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <details className="relative">
+      <summary className="inline-flex h-9 cursor-pointer list-none items-center rounded-md px-3 text-sm font-medium text-slate-700 hover:bg-slate-100 dark:text-slate-200 dark:hover:bg-slate-800">
+        Export
+      </summary>
+      <div className="absolute right-0 z-10 mt-2 flex w-56 flex-col gap-3 rounded-md border border-slate-200 bg-white p-3 text-sm shadow-lg dark:border-slate-700 dark:bg-slate-900">
+        <div className="flex flex-col gap-1">
+          <Label htmlFor={`${id}-export-format`}>Format</Label>
+          <select
+            id={`${id}-export-format`}
+            className={SELECT_CLASS}
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ChartExportFormat)}
+          >
+            <option value="png">PNG image</option>
+            <option value="svg">SVG vector</option>
+          </select>
+        </div>
+        {format === "png" && (
+          <div className="flex flex-col gap-1">
+            <Label htmlFor={`${id}-export-scale`}>Resolution</Label>
+            <select
+              id={`${id}-export-scale`}
+              className={SELECT_CLASS}
+              value={scale}
+              onChange={(event) => setScale(Number(event.target.value))}
+            >
+              {PNG_SCALES.map((option) => (
+                <option key={option} value={option}>
+                  {`${option}×${option === 1 ? " (screen)" : ""}`}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="flex flex-col gap-1">
+          <Label htmlFor={`${id}-export-background`}>Background</Label>
+          <select
+            id={`${id}-export-background`}
+            className={SELECT_CLASS}
+            value={background}
+            onChange={(event) => setBackground(event.target.value as ChartBackground)}
+          >
+            <option value="theme">Current theme</option>
+            <option value="light">Light</option>
+          </select>
+        </div>
+        <Button type="button" size="sm" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? "Exporting…" : `Download ${format.toUpperCase()}`}
+        </Button>
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </details>
+  )
+}
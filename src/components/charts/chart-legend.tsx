@@ -0,0 +1,20 @@
+import { cn } from "@/lib/utils"
+
+interface ChartLegendProps {
+  items: { label: string; color: string; detail?: string }[]
+  className?: string
+}
+
+export function ChartLegend({ items, className }: ChartLegendProps) {
+  return (
+    <ul className={cn("flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600 dark:text-slate-300", className)}>
+      {items.map((item) => (
+        <li key={item.label} className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: item.color }} aria-hidden />
+          <span>{item.label}</span>
+          {item.detail && <span className="text-slate-500">{item.detail}</span>}
+        </li>
+      ))}
+    </ul>
+  )
+}
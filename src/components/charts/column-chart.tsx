@@ -0,0 +1,54 @@
+import { TrendPoint } from "@/lib/analysis"
+import { linearScale, niceTicks } from "@/lib/chart-scale"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { cn } from "@/lib/utils"
+import { CategoryAxis, CHART_HEIGHT, CHART_PADDING, CHART_WIDTH, ValueAxis } from "./chart-axes"
+
+interface ColumnChartProps {
+  data: TrendPoint[]
+  locale?: NumberLocale
+  className?: string
+}
+
+export function ColumnChart({ data, locale, className }: ColumnChartProps) {
+  if (!data.length) {
+    return <p className="text-sm text-slate-500">No trend data available.</p>
+  }
+
+  const values = data.map((point) => point.value)
+  const ticks = niceTicks(Math.min(0, ...values), Math.max(0, ...values))
+  const y = linearScale([ticks[0], ticks[ticks.length - 1]], [CHART_HEIGHT - CHART_PADDING.bottom, CHART_PADDING.top])
+  const slot = (CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right) / data.length
+  const x = (index: number) => CHART_PADDING.left + slot * (index + 0.5)
+  const barWidth = Math.max(2, Math.min(48, slot * 0.7))
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className={cn("h-60 w-full", className)}
+      role="img"
+      aria-label={`Column chart of ${data.length} groups`}
+    >
+      <ValueAxis ticks={ticks} scale={y} locale={locale} />
+      {data.map((point, index) => {
+        const top = Math.min(y(point.value), y(0))
+        return (
+          <rect
+            key={point.label}
+            x={x(index) - barWidth / 2}
+            y={top}
+            width={barWidth}
+            height={Math.max(1, Math.abs(y(point.value) - y(0)))}
+            rx={2}
+            className="fill-blue-500 transition-opacity hover:opacity-80 dark:fill-blue-400"
+          >
+            <title>
+              {point.label}: {formatNumber(point.value, locale)}
+            </title>
+          </rect>
+        )
+      })}
+      <CategoryAxis labels={data.map((point) => point.label)} position={x} />
+    </svg>
+  )
+}
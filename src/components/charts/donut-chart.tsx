@@ -0,0 +1,61 @@
+import { TrendPoint } from "@/lib/analysis"
+import { arcPath, seriesColor } from "@/lib/chart-scale"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { cn } from "@/lib/utils"
+import { ChartLegend } from "./chart-legend"
+
+interface DonutChartProps {
+  data: TrendPoint[]
+  locale?: NumberLocale
+  className?: string
+}
+
+const SIZE = 200
+const OUTER_RADIUS = 92
+const INNER_RADIUS = 56
+
+/** Share of total per group. Negative values cannot be a share, so they are left out. */
+export function DonutChart({ data, locale, className }: DonutChartProps) {
+  const slices = data.filter((point) => point.value > 0)
+  const total = slices.reduce((sum, point) => sum + point.value, 0)
+  if (!slices.length) {
+    return <p className="text-sm text-slate-500">No positive values to show as shares.</p>
+  }
+
+  let angle = 0
+  const arcs = slices.map((point, index) => {
+    const start = angle
+    angle += (point.value / total) * Math.PI * 2
+    return { point, color: seriesColor(index), path: arcPath(SIZE / 2, SIZE / 2, OUTER_RADIUS, INNER_RADIUS, start, angle) }
+  })
+  const share = (value: number) => `${formatNumber((value / total) * 100, locale)}%`
+
+  return (
+    <div className={cn("flex flex-col items-center gap-3 sm:flex-row sm:items-start", className)}>
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="h-48 w-48 shrink-0"
+        role="img"
+        aria-label={`Donut chart of ${slices.length} groups totalling ${formatNumber(total, locale)}`}
+      >
+        {arcs.map(({ point, color, path }) => (
+          <path key={point.label} d={path} fill={color} className="stroke-white transition-opacity hover:opacity-80 dark:stroke-slate-900" strokeWidth={1}>
+            <title>
+              {point.label}: {formatNumber(point.value, locale)} ({share(point.value)})
+            </title>
+          </path>
+        ))}
+        <text x={SIZE / 2} y={SIZE / 2 - 4} textAnchor="middle" className="fill-slate-800 text-lg font-semibold dark:fill-slate-100">
+          {formatNumber(total, locale)}
+        </text>
+        <text x={SIZE / 2} y={SIZE / 2 + 14} textAnchor="middle" className="fill-slate-500 text-[11px]">
+          total
+        </text>
+      </svg>
+      <ChartLegend
+        className="flex-col flex-nowrap"
+        items={arcs.map(({ point, color }) => ({ label: point.label, color, detail: share(point.value) }))}
+      />
+    </div>
+  )
+}
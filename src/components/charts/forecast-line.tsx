@@ -0,0 +1,85 @@
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { cn } from "@/lib/utils"
+
+interface ForecastLineProps {
+  history: { period: string; value: number }[]
+  forecast: { period: string; value: number; lower: number; upper: number }[]
+  locale?: NumberLocale
+  className?: string
+}
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = { top: 12, right: 12, bottom: 24, left: 12 }
+
+/**
+ * History as a solid line, continued by a dashed projection inside a shaded
+ * confidence band. Drawn in a fixed viewBox and scaled to the container.
+ */
+export function ForecastLine({ history, forecast, locale, className }: ForecastLineProps) {
+  if (!history.length) {
+    return <p className="text-sm text-slate-500">No values to plot.</p>
+  }
+
+  const total = history.length + forecast.length
+  const values = [
+    ...history.map((point) => point.value),
+    ...forecast.flatMap((point) => [point.lower, point.upper]),
+  ]
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const span = max - min || 1
+
+  const x = (index: number) =>
+    PADDING.left + (total > 1 ? (index / (total - 1)) * (WIDTH - PADDING.left - PADDING.right) : 0)
+  const y = (value: number) => PADDING.top + (1 - (value - min) / span) * (HEIGHT - PADDING.top - PADDING.bottom)
+
+  const last = history.length - 1
+  const historyPath = history.map((point, index) => `${index ? "L" : "M"}${x(index)},${y(point.value)}`).join(" ")
+  const forecastPath = [`M${x(last)},${y(history[last].value)}`, ...forecast.map((point, index) => `L${x(last + index + 1)},${y(point.value)}`)].join(" ")
+  const band = [
+    `${x(last)},${y(history[last].value)}`,
+    ...forecast.map((point, index) => `${x(last + index + 1)},${y(point.upper)}`),
+    ...forecast
+      .map((point, index) => `${x(last + index + 1)},${y(point.lower)}`)
+      .reverse(),
+  ].join(" ")
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={cn("h-52 w-full text-blue-500 dark:text-blue-400", className)}
+      role="img"
+      aria-label={`Line chart of ${history.length} periods with a ${forecast.length}-period forecast`}
+    >
+      {forecast.length > 0 && (
+        <>
+          <polygon points={band} className="fill-current opacity-15" />
+          <line
+            x1={x(last)}
+            x2={x(last)}
+            y1={PADDING.top}
+            y2={HEIGHT - PADDING.bottom}
+            className="stroke-slate-300 dark:stroke-slate-600"
+            strokeDasharray="2 4"
+          />
+          <path d={forecastPath} fill="none" stroke="currentColor" strokeWidth={2} strokeDasharray="6 4" />
+        </>
+      )}
+      <path d={historyPath} fill="none" stroke="currentColor" strokeWidth={2} />
+      {[...history, ...forecast].map((point, index) => (
+        <circle key={point.period} cx={x(index)} cy={y(point.value)} r={2.5} className="fill-current">
+          <title>
+            {point.period}: {formatNumber(point.value, locale)}
+          </title>
+        </circle>
+      ))}
+      <text x={PADDING.left} y={HEIGHT - 6} className="fill-slate-500 text-[11px]">
+        {history[0].period}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-slate-500 text-[11px]">
+        {(forecast[forecast.length - 1] ?? history[last]).period}
+      </text>
+    </svg>
+  )
+}
@@ -0,0 +1,59 @@
+import { cn } from "@/lib/utils"
+
+interface HeatmapProps {
+  labels: string[]
+  values: (number | null)[][]
+  className?: string
+}
+
+function cellColor(value: number | null): string | undefined {
+  if (value === null) return undefined
+  const alpha = Math.min(1, Math.abs(value)) * 0.85
+  return value >= 0 ? `rgba(59, 130, 246, ${alpha})` : `rgba(239, 68, 68, ${alpha})`
+}
+
+/**
+ * Square matrix with a diverging scale: blue for positive, red for negative,
+ * intensity proportional to magnitude in [-1, 1].
+ */
+export function Heatmap({ labels, values, className }: HeatmapProps) {
+  if (!labels.length) {
+    return <p className="text-sm text-slate-500">Not enough numeric fields to compare.</p>
+  }
+
+  return (
+    <div
+      className={cn("grid gap-px text-xs", className)}
+      style={{ gridTemplateColumns: `minmax(4rem, auto) repeat(${labels.length}, minmax(3rem, 1fr))` }}
+      role="table"
+    >
+      <div role="columnheader" />
+      {labels.map((label) => (
+        <div key={label} role="columnheader" className="truncate px-1 py-1 text-center font-medium text-slate-600 dark:text-slate-300" title={label}>
+          {label}
+        </div>
+      ))}
+      {labels.map((rowLabel, rowIndex) => (
+        <div key={rowLabel} role="row" className="contents">
+          <div role="rowheader" className="truncate px-1 py-2 font-medium text-slate-600 dark:text-slate-300" title={rowLabel}>
+            {rowLabel}
+          </div>
+          {values[rowIndex].map((value, columnIndex) => (
+            <div
+              key={labels[columnIndex]}
+              role="cell"
+              className={cn(
+                "rounded-sm py-2 text-center tabular-nums",
+                value === null ? "bg-slate-100 text-slate-400 dark:bg-slate-800" : Math.abs(value) > 0.6 ? "text-white" : "text-slate-800 dark:text-slate-100",
+              )}
+              style={{ backgroundColor: cellColor(value) }}
+              title={`${rowLabel} × ${labels[columnIndex]}: ${value === null ? "n/a" : value.toFixed(2)}`}
+            >
+              {value === null ? "–" : value.toFixed(2)}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
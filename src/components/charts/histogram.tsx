@@ -0,0 +1,36 @@
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { HistogramBin } from "@/lib/statistics"
+import { cn } from "@/lib/utils"
+
+interface HistogramProps {
+  bins: HistogramBin[]
+  locale?: NumberLocale
+  className?: string
+}
+
+export function Histogram({ bins, locale, className }: HistogramProps) {
+  if (!bins.length) {
+    return <p className="text-sm text-slate-500">No values to plot.</p>
+  }
+
+  const maxCount = Math.max(...bins.map((bin) => bin.count)) || 1
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex h-16 items-end gap-px" role="img" aria-label={`Histogram with ${bins.length} bins`}>
+        {bins.map((bin) => (
+          <div
+            key={bin.start}
+            className="flex-1 rounded-t-sm bg-blue-500 transition-all dark:bg-blue-400"
+            style={{ height: `${Math.max(bin.count ? 4 : 0, (bin.count / maxCount) * 100)}%` }}
+            title={`${formatNumber(bin.start, locale)} – ${formatNumber(bin.end, locale)}: ${bin.count}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>{formatNumber(bins[0].start, locale)}</span>
+        <span>{formatNumber(bins[bins.length - 1].end, locale)}</span>
+      </div>
+    </div>
+  )
+}
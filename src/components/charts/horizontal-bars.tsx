@@ -1,12 +1,14 @@
 import { TrendPoint } from "@/lib/analysis"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
 import { cn } from "@/lib/utils"
 
 interface HorizontalBarsProps {
   data: TrendPoint[]
+  locale?: NumberLocale
   className?: string
 }
 
-export function HorizontalBars({ data, className }: HorizontalBarsProps) {
+export function HorizontalBars({ data, locale, className }: HorizontalBarsProps) {
   if (!data.length) {
     return <p className="text-sm text-slate-500">No trend data available.</p>
   }
@@ -19,7 +21,7 @@ export function HorizontalBars({ data, className }: HorizontalBarsProps) {
         <div key={point.label} className="space-y-1">
           <div className="flex items-center justify-between text-sm">
             <span className="font-medium text-slate-700 dark:text-slate-200">{point.label}</span>
-            <span className="text-slate-500">{point.value.toLocaleString()}</span>
+            <span className="text-slate-500">{formatNumber(point.value, locale)}</span>
           </div>
           <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-800">
             <div
@@ -0,0 +1,93 @@
+import { ChartSeries, linearScale, niceTicks, seriesColor } from "@/lib/chart-scale"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { cn } from "@/lib/utils"
+import { CategoryAxis, CHART_HEIGHT, CHART_PADDING, CHART_WIDTH, ValueAxis } from "./chart-axes"
+import { ChartLegend } from "./chart-legend"
+
+interface LineChartProps {
+  labels: string[]
+  series: ChartSeries[]
+  /** Shade the area between each line and zero. */
+  area?: boolean
+  locale?: NumberLocale
+  className?: string
+}
+
+/**
+ * One line per series over shared category labels, such as time periods.
+ * Missing values break the line instead of dropping to zero.
+ */
+export function LineChart({ labels, series, area = false, locale, className }: LineChartProps) {
+  const values = series.flatMap((entry) => entry.values).filter((value): value is number => value !== null)
+  if (!labels.length || !values.length) {
+    return <p className="text-sm text-slate-500">No values to plot.</p>
+  }
+
+  const ticks = niceTicks(Math.min(area ? 0 : Infinity, ...values), Math.max(area ? 0 : -Infinity, ...values))
+  const y = linearScale([ticks[0], ticks[ticks.length - 1]], [CHART_HEIGHT - CHART_PADDING.bottom, CHART_PADDING.top])
+  const x =
+    labels.length > 1
+      ? linearScale([0, labels.length - 1], [CHART_PADDING.left + 8, CHART_WIDTH - CHART_PADDING.right - 8])
+      : () => (CHART_PADDING.left + CHART_WIDTH - CHART_PADDING.right) / 2
+  const baseline = y(Math.max(ticks[0], Math.min(0, ticks[ticks.length - 1])))
+
+  // Split each series into runs of consecutive values so gaps stay visible.
+  const runs = series.map((entry) => {
+    const segments: { index: number; value: number }[][] = []
+    let current: { index: number; value: number }[] = []
+    entry.values.forEach((value, index) => {
+      if (value === null) {
+        if (current.length) segments.push(current)
+        current = []
+      } else {
+        current.push({ index, value })
+      }
+    })
+    if (current.length) segments.push(current)
+    return segments
+  })
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="h-60 w-full"
+        role="img"
+        aria-label={`${area ? "Area" : "Line"} chart of ${series.map((entry) => entry.name).join(", ")} over ${labels.length} points`}
+      >
+        <ValueAxis ticks={ticks} scale={y} locale={locale} />
+        {runs.map((segments, seriesIndex) =>
+          segments.map((segment) => {
+            const color = seriesColor(seriesIndex)
+            const line = segment.map((point, index) => `${index ? "L" : "M"}${x(point.index)},${y(point.value)}`).join(" ")
+            const first = segment[0]
+            const last = segment[segment.length - 1]
+            return (
+              <g key={`${series[seriesIndex].name}-${first.index}`}>
+                {area && (
+                  <path
+                    d={`${line} L${x(last.index)},${baseline} L${x(first.index)},${baseline} Z`}
+                    fill={color}
+                    fillOpacity={0.15}
+                  />
+                )}
+                <path d={line} fill="none" stroke={color} strokeWidth={2} />
+                {segment.map((point) => (
+                  <circle key={point.index} cx={x(point.index)} cy={y(point.value)} r={3} fill={color}>
+                    <title>
+                      {labels[point.index]} · {series[seriesIndex].name}: {formatNumber(point.value, locale)}
+                    </title>
+                  </circle>
+                ))}
+              </g>
+            )
+          }),
+        )}
+        <CategoryAxis labels={labels} position={x} />
+      </svg>
+      {series.length > 1 && (
+        <ChartLegend items={series.map((entry, index) => ({ label: entry.name, color: seriesColor(index) }))} />
+      )}
+    </div>
+  )
+}
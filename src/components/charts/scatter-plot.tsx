@@ -0,0 +1,67 @@
+import { linearScale, niceTicks } from "@/lib/chart-scale"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { cn } from "@/lib/utils"
+import { CHART_HEIGHT, CHART_PADDING, CHART_WIDTH, ValueAxis } from "./chart-axes"
+
+interface ScatterPlotProps {
+  points: { x: number; y: number; label?: string }[]
+  xLabel: string
+  yLabel: string
+  locale?: NumberLocale
+  className?: string
+}
+
+const PADDING = { ...CHART_PADDING, bottom: 48 }
+
+/** One dot per row, placing two measures against each other. */
+export function ScatterPlot({ points, xLabel, yLabel, locale, className }: ScatterPlotProps) {
+  if (!points.length) {
+    return <p className="text-sm text-slate-500">No rows have both values.</p>
+  }
+
+  const xTicks = niceTicks(Math.min(...points.map((point) => point.x)), Math.max(...points.map((point) => point.x)))
+  const yTicks = niceTicks(Math.min(...points.map((point) => point.y)), Math.max(...points.map((point) => point.y)))
+  const x = linearScale([xTicks[0], xTicks[xTicks.length - 1]], [PADDING.left, CHART_WIDTH - PADDING.right])
+  const y = linearScale([yTicks[0], yTicks[yTicks.length - 1]], [CHART_HEIGHT - PADDING.bottom, PADDING.top])
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className={cn("h-60 w-full", className)}
+      role="img"
+      aria-label={`Scatter plot of ${yLabel} against ${xLabel} for ${points.length} rows`}
+    >
+      <ValueAxis ticks={yTicks} scale={y} locale={locale} padding={PADDING} />
+      <ValueAxis ticks={xTicks} scale={x} orientation="bottom" locale={locale} padding={PADDING} />
+      {points.map((point, index) => (
+        <circle
+          key={index}
+          cx={x(point.x)}
+          cy={y(point.y)}
+          r={3.5}
+          className="fill-blue-500 opacity-70 transition-opacity hover:opacity-100 dark:fill-blue-400"
+        >
+          <title>
+            {point.label ? `${point.label} · ` : ""}
+            {xLabel}: {formatNumber(point.x, locale)}, {yLabel}: {formatNumber(point.y, locale)}
+          </title>
+        </circle>
+      ))}
+      <text
+        x={(PADDING.left + CHART_WIDTH - PADDING.right) / 2}
+        y={CHART_HEIGHT - 6}
+        textAnchor="middle"
+        className="fill-slate-600 text-xs font-medium dark:fill-slate-300"
+      >
+        {xLabel}
+      </text>
+      <text
+        transform={`translate(12 ${(PADDING.top + CHART_HEIGHT - PADDING.bottom) / 2}) rotate(-90)`}
+        textAnchor="middle"
+        className="fill-slate-600 text-xs font-medium dark:fill-slate-300"
+      >
+        {yLabel}
+      </text>
+    </svg>
+  )
+}
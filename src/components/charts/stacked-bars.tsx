@@ -0,0 +1,89 @@
+import { ChartSeries, linearScale, niceTicks, seriesColor, truncateLabel } from "@/lib/chart-scale"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { cn } from "@/lib/utils"
+import { CHART_HEIGHT, CHART_PADDING, CHART_WIDTH, ValueAxis } from "./chart-axes"
+import { ChartLegend } from "./chart-legend"
+
+interface StackedBarsProps {
+  /** One bar per category. */
+  categories: string[]
+  /** One segment per series in every bar, e.g. the columns of a pivot table. */
+  series: ChartSeries[]
+  locale?: NumberLocale
+  className?: string
+}
+
+const PADDING = { ...CHART_PADDING, left: 104 }
+
+/**
+ * Horizontal bars split into one segment per series. Segments only stack
+ * positive values; missing and negative cells are skipped.
+ */
+export function StackedBars({ categories, series, locale, className }: StackedBarsProps) {
+  const totals = categories.map((_, row) =>
+    series.reduce((sum, entry) => sum + Math.max(0, entry.values[row] ?? 0), 0),
+  )
+  if (!categories.length || !series.length || Math.max(...totals) <= 0) {
+    return <p className="text-sm text-slate-500">No values to stack.</p>
+  }
+
+  const ticks = niceTicks(0, Math.max(...totals))
+  const x = linearScale([0, ticks[ticks.length - 1]], [PADDING.left, CHART_WIDTH - PADDING.right])
+  const slot = (CHART_HEIGHT - PADDING.top - PADDING.bottom) / categories.length
+  const barHeight = Math.max(2, Math.min(28, slot * 0.7))
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="h-60 w-full"
+        role="img"
+        aria-label={`Stacked bar chart of ${categories.length} groups split by ${series.length} series`}
+      >
+        <ValueAxis ticks={ticks} scale={x} orientation="bottom" locale={locale} padding={PADDING} />
+        {categories.map((category, row) => {
+          const top = PADDING.top + slot * row + (slot - barHeight) / 2
+          let offset = 0
+          return (
+            <g key={category}>
+              <title>
+                {category}: {formatNumber(totals[row], locale)}
+              </title>
+              <text
+                x={PADDING.left - 8}
+                y={top + barHeight / 2}
+                dy="0.32em"
+                textAnchor="end"
+                className="fill-slate-600 text-[11px] dark:fill-slate-300"
+              >
+                {truncateLabel(category)}
+              </text>
+              {series.map((entry, index) => {
+                const value = entry.values[row]
+                if (value === null || value <= 0) return null
+                const start = offset
+                offset += value
+                return (
+                  <rect
+                    key={entry.name}
+                    x={x(start)}
+                    y={top}
+                    width={Math.max(0.5, x(offset) - x(start))}
+                    height={barHeight}
+                    fill={seriesColor(index)}
+                    className="transition-opacity hover:opacity-80"
+                  >
+                    <title>
+                      {category} · {entry.name}: {formatNumber(value, locale)}
+                    </title>
+                  </rect>
+                )
+              })}
+            </g>
+          )
+        })}
+      </svg>
+      <ChartLegend items={series.map((entry, index) => ({ label: entry.name, color: seriesColor(index) }))} />
+    </div>
+  )
+}
@@ -0,0 +1,359 @@
+"use client"
+
+import { PointerEvent, useDeferredValue, useEffect, useMemo, useState } from "react"
+import {
+  formatCell,
+  GRID_PAGE_SIZES,
+  GridColumn,
+  GridPage,
+  GridRow,
+  GridSort,
+  GridSource,
+  pageCount,
+  queryRows,
+} from "@/lib/data-grid"
+import { NumberLocale } from "@/lib/numbers"
+import { isNumericType } from "@/lib/schema"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+
+interface DataGridProps {
+  /** Prefix for the ids of the grid's controls. */
+  id: string
+  columns: GridColumn[]
+  /** Rows held in memory; give `source` instead for rows fetched a page at a time. */
+  rows?: GridRow[]
+  source?: GridSource
+  locale?: NumberLocale
+  /** Label read by screen readers for the table. */
+  caption: string
+  emptyMessage?: string
+  defaultPageSize?: number
+  className?: string
+}
+
+const DEFAULT_WIDTH = 160
+const MIN_WIDTH = 64
+const HEADER_CELL =
+  "relative bg-slate-50 px-3 py-2 text-left font-semibold text-slate-600 dark:bg-slate-800 dark:text-slate-300"
+const SELECT_CLASS =
+  "h-9 rounded-md border border-slate-300 bg-white px-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+const FILTER_CLASS =
+  "h-8 w-full rounded border border-slate-300 bg-white px-2 text-xs font-normal placeholder:text-slate-400 focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+
+function filterPlaceholder(column: GridColumn): string {
+  if (isNumericType(column.type)) return ">10, 5..20"
+  if (column.type === "date" || column.type === "datetime") return ">2024-01-01"
+  return "Contains…"
+}
+
+/**
+ * Read-only table for any number of rows: click a header to sort, type in
+ * the row under it to filter, and drag a header's edge to resize. Only the
+ * current page is rendered, so 100k-row datasets stay responsive. With a
+ * `source`, sorting, filtering and paging happen wherever the rows live.
+ */
+export function DataGrid({
+  id,
+  columns,
+  rows,
+  source,
+  locale,
+  caption,
+  emptyMessage = "No rows to show.",
+  defaultPageSize = GRID_PAGE_SIZES[0],
+  className,
+}: DataGridProps) {
+  const [sort, setSort] = useState<GridSort | null>(null)
+  const [filters, setFilters] = useState<Record<string, string>>({})
+  const [page, setPage] = useState(0)
+  const [pageSize, setPageSize] = useState(defaultPageSize)
+  const [hidden, setHidden] = useState<string[]>([])
+  const [widths, setWidths] = useState<Record<string, number>>({})
+  // Typing stays responsive while large datasets are re-filtered in the background.
+  const deferredFilters = useDeferredValue(filters)
+
+  const [fetched, setFetched] = useState<GridPage | null>(null)
+  const [fetchFailed, setFetchFailed] = useState(false)
+
+  const order = useMemo(
+    () => (rows ? queryRows(rows, columns, { sort, filters: deferredFilters }) : []),
+    [rows, columns, sort, deferredFilters],
+  )
+  const total = source ? source.total : (rows?.length ?? 0)
+  const matched = source ? (fetched?.matched ?? total) : order.length
+  const pages = pageCount(matched, pageSize)
+  const currentPage = Math.min(page, pages - 1)
+  const pageRows: { index: number; row: GridRow }[] = source
+    ? (fetched?.indexes.map((index, position) => ({ index, row: fetched.rows[position] })) ?? [])
+    : order
+        .slice(currentPage * pageSize, (currentPage + 1) * pageSize)
+        .map((index) => ({ index, row: rows![index] }))
+  const visibleColumns = columns.filter((column) => !hidden.includes(column.key))
+  const tableWidth = visibleColumns.reduce((total, column) => total + (widths[column.key] ?? DEFAULT_WIDTH), 0)
+  const isFiltered = Object.values(deferredFilters).some((text) => text.trim())
+
+  useEffect(() => {
+    setPage(0)
+  }, [rows, source, deferredFilters, sort, pageSize])
+
+  useEffect(() => {
+    setFetched(null)
+    setFetchFailed(false)
+  }, [source])
+
+  useEffect(() => {
+    if (!source) return
+    let current = true
+    source.fetchPage({ sort, filters: deferredFilters }, currentPage * pageSize, pageSize).then(
+      (result) => {
+        if (!current) return
+        setFetched(result)
+        setFetchFailed(false)
+      },
+      () => {
+        if (current) setFetchFailed(true)
+      },
+    )
+    return () => {
+      current = false
+    }
+  }, [source, sort, deferredFilters, currentPage, pageSize])
+
+  const toggleSort = (key: string) => {
+    setSort((current) => {
+      if (current?.column !== key) return { column: key, direction: "asc" }
+      return current.direction === "asc" ? { column: key, direction: "desc" } : null
+    })
+  }
+
+  const toggleColumn = (key: string) => {
+    setHidden((current) => (current.includes(key) ? current.filter((entry) => entry !== key) : [...current, key]))
+  }
+
+  const startResize = (key: string, event: PointerEvent<HTMLSpanElement>) => {
+    event.preventDefault()
+    event.stopPropagation()
+    const handle = event.currentTarget
+    const startX = event.clientX
+    const startWidth = widths[key] ?? DEFAULT_WIDTH
+    handle.setPointerCapture(event.pointerId)
+    const onMove = (moveEvent: globalThis.PointerEvent) => {
+      setWidths((current) => ({ ...current, [key]: Math.max(MIN_WIDTH, startWidth + moveEvent.clientX - startX) }))
+    }
+    const onUp = () => {
+      handle.removeEventListener("pointermove", onMove)
+      handle.removeEventListener("pointerup", onUp)
+    }
+    handle.addEventListener("pointermove", onMove)
+    handle.addEventListener("pointerup", onUp)
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-slate-600 dark:text-slate-300">
+        <p aria-live="polite">
+          {isFiltered
+            ? `${matched.toLocaleString()} of ${total.toLocaleString()} rows match`
+            : `${total.toLocaleString()} row${total === 1 ? "" : "s"}`}
+        </p>
+        <div className="flex items-center gap-2">
+          {(isFiltered || sort) && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setFilters({})
+                setSort(null)
+              }}
+            >
+              Reset
+            </Button>
+          )}
+          <details className="relative">
+            <summary className="inline-flex h-9 cursor-pointer list-none items-center rounded-md px-3 text-sm font-medium text-slate-700 hover:bg-slate-100 dark:text-slate-200 dark:hover:bg-slate-800">
+              Columns{hidden.length ? ` (${hidden.length} hidden)` : ""}
+            </summary>
+            <fieldset className="absolute right-0 z-20 mt-2 flex max-h-72 w-56 flex-col gap-2 overflow-y-auto rounded-md border border-slate-200 bg-white p-3 text-sm shadow-lg dark:border-slate-700 dark:bg-slate-900">
+              <legend className="sr-only">Visible columns</legend>
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!hidden.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    disabled={!hidden.includes(column.key) && visibleColumns.length === 1}
+                  />
+                  <span className="truncate">{column.label}</span>
+                </label>
+              ))}
+            </fieldset>
+          </details>
+        </div>
+      </div>
+
+      <div className="max-h-[32rem] overflow-auto rounded-md border border-slate-200 dark:border-slate-700">
+        <table
+          className="table-fixed border-separate border-spacing-0 text-sm"
+          style={{ width: tableWidth, minWidth: "100%" }}
+          aria-label={caption}
+          aria-rowcount={matched + 2}
+        >
+          <colgroup>
+            {visibleColumns.map((column) => (
+              <col key={column.key} style={{ width: widths[column.key] ?? DEFAULT_WIDTH }} />
+            ))}
+          </colgroup>
+          <thead className="sticky top-0 z-10">
+            <tr>
+              {visibleColumns.map((column) => {
+                const direction = sort?.column === column.key ? sort.direction : null
+                return (
+                  <th
+                    key={column.key}
+                    scope="col"
+                    aria-sort={direction === "asc" ? "ascending" : direction === "desc" ? "descending" : "none"}
+                    className={HEADER_CELL}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.key)}
+                      className={cn(
+                        "flex w-full items-center gap-1 truncate",
+                        isNumericType(column.type) && "justify-end",
+                      )}
+                      title={`${column.label} (${column.type})`}
+                    >
+                      <span className="truncate">{column.label}</span>
+                      <span aria-hidden="true" className="text-xs text-slate-400">
+                        {direction === "asc" ? "▲" : direction === "desc" ? "▼" : ""}
+                      </span>
+                    </button>
+                    <span
+                      role="separator"
+                      aria-orientation="vertical"
+                      aria-label={`Resize ${column.label}`}
+                      onPointerDown={(event) => startResize(column.key, event)}
+                      className="absolute inset-y-0 right-0 w-1.5 cursor-col-resize touch-none hover:bg-blue-400/50"
+                    />
+                  </th>
+                )
+              })}
+            </tr>
+            <tr>
+              {visibleColumns.map((column) => (
+                <th key={column.key} scope="col" className="bg-slate-50 px-2 pb-2 dark:bg-slate-800">
+                  <input
+                    aria-label={`Filter ${column.label}`}
+                    className={FILTER_CLASS}
+                    placeholder={filterPlaceholder(column)}
+                    value={filters[column.key] ?? ""}
+                    onChange={(event) => setFilters((current) => ({ ...current, [column.key]: event.target.value }))}
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map(({ index, row }, position) => (
+              <tr
+                key={index}
+                aria-rowindex={currentPage * pageSize + position + 3}
+                className={position % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50 dark:bg-slate-800"}
+              >
+                {visibleColumns.map((column) => {
+                  const text = formatCell(row[column.key], column.type, locale)
+                  return (
+                    <td
+                      key={column.key}
+                      title={text}
+                      className={cn(
+                        "truncate px-3 py-2 text-slate-700 dark:text-slate-300",
+                        isNumericType(column.type) && "text-right tabular-nums",
+                        text === "–" && "text-slate-400",
+                      )}
+                    >
+                      {text}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+            {pageRows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={visibleColumns.length || 1}
+                  className="px-3 py-6 text-center text-slate-800 dark:text-slate-200"
+                >
+                  {fetchFailed
+                    ? "Could not load these rows."
+                    : source && !fetched
+                      ? "Loading rows…"
+                      : isFiltered
+                        ? "No rows match the filters."
+                        : emptyMessage}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {matched > GRID_PAGE_SIZES[0] && (
+        <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-slate-600 dark:text-slate-300">
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-page-size`}>Rows per page</label>
+            <select
+              id={`${id}-page-size`}
+              className={SELECT_CLASS}
+              value={pageSize}
+              onChange={(event) => setPageSize(Number(event.target.value))}
+            >
+              {GRID_PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => setPage(0)} disabled={currentPage === 0}>
+              First
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+            >
+              Previous
+            </Button>
+            <span>
+              Page {(currentPage + 1).toLocaleString()} of {pages.toLocaleString()}
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pages - 1}
+            >
+              Next
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setPage(pages - 1)}
+              disabled={currentPage >= pages - 1}
+            >
+              Last
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,23 +2,64 @@
 
 import { ChangeEvent, FormEvent, useEffect, useMemo, useState, useRef, useCallback } from "react"
 import { useRouter } from "next/navigation"
-import { AnalysisResult } from "@/lib/analysis"
+import {
+  AnalysisResult,
+  AnalysisSpec,
+  DataRecord,
+  FileFormat,
+  ParseWarning,
+  parseRecords,
+  prepareRecords,
+} from "@/lib/analysis"
+import { AnalysisProgress, AnalysisRequest } from "@/lib/analysis-request"
+import { AnalyzedRows, localAnalyzedRows } from "@/lib/analysis-rows"
+import { runAnalysisInWorker, supportsAnalysisWorker } from "@/lib/analysis-worker"
+import { AnalysisComparison, compareAnalyses } from "@/lib/comparison"
+import { CsvDelimiter } from "@/lib/csv-parser"
+import { DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT } from "@/lib/json-records"
+import { AnomalyInsight } from "@/lib/anomalies"
+import { gridColumns, GridRow, tableToGrid } from "@/lib/data-grid"
+import { DEFAULT_FORECAST_HORIZON, MAX_FORECAST_HORIZON } from "@/lib/forecast"
+import { applyCalculatedColumns, CalculatedColumn } from "@/lib/formula"
+import { normalizeNumbers, NUMBER_LOCALE_LABELS, NUMBER_LOCALES, NumberLocale } from "@/lib/numbers"
+import { PivotSpec } from "@/lib/pivot"
+import { QueryAnswer } from "@/lib/query"
+import { ColumnSchema, inferColumn } from "@/lib/schema"
+import { PERIOD_GRANULARITIES, PeriodGranularity } from "@/lib/time-series"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert } from "@/components/ui/alert"
+import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
-import { HorizontalBars } from "@/components/charts/horizontal-bars"
+import { DataGrid } from "@/components/data-grid"
 import { Markdown } from "@/components/markdown"
+import { AnalysisSpecForm } from "./analysis-spec-form"
+import { AnomaliesCard } from "./anomalies-card"
+import { AskDataCard } from "./ask-data-card"
+import { ColumnProfileCard } from "./column-profile-card"
+import { ComparisonCard } from "./comparison-card"
+import { ComparisonForm, ComparisonSettings, DEFAULT_COMPARISON, SavedRun } from "./comparison-form"
+import { CorrelationCard } from "./correlation-card"
+import { CalculatedColumnsForm, validateCalculatedColumns } from "./calculated-columns-form"
+import { DataQualityCard } from "./data-quality-card"
+import { FilterInput, validateFilter } from "./filter-input"
+import { ForecastCard } from "./forecast-card"
+import { completePivot, PivotForm } from "./pivot-form"
+import { PivotTableCard } from "./pivot-table-card"
+import { TimeSeriesCard } from "./time-series-card"
+import { TrendChartCard } from "./trend-chart-card"
 import { ErrorBoundary } from "@/components/error-boundary"
 import { useAuthStore } from "@/stores/auth-store"
 import { useHydrated } from "@/hooks/use-hydrated"
 import { useOfflineDetection } from "@/hooks/use-offline"
-import { fetchWithTimeout, getErrorMessage, debounce } from "@/lib/request-utils"
+import { fetchWithTimeout, getErrorMessage } from "@/lib/request-utils"
 
 interface AnalysisResponse {
   result: AnalysisResult
+  warnings: ParseWarning[]
+  delimiter?: CsvDelimiter
+  recordPath?: string
   model: string
   largeNarrative: string
 }
@@ -29,10 +70,72 @@ const MODELS = [
   { id: "ultra-slow", name: "Deep Dive", description: "High quality, may throttle" },
 ]
 
-const ACCEPTED_MIME = ["text/csv", "application/vnd.ms-excel", "application/json", "text/plain"]
+const ACCEPTED_MIME = [
+  "text/csv",
+  "application/vnd.ms-excel",
+  "application/json",
+  "application/x-ndjson",
+  "text/plain",
+  "text/tab-separated-values",
+]
+
+const SCHEMA_SAMPLE_ROWS = 500
+const PREVIEW_BYTES = 64 * 1024
+const PREVIEW_LINES = 8
+const MAX_SAVED_RUNS = 5
+
+const ACCEPTED_EXTENSIONS = [".csv", ".tsv", ".txt", ".json", ".ndjson", ".jsonl"]
+
+const DELIMITER_OPTIONS: { value: CsvDelimiter | "auto"; label: string }[] = [
+  { value: "auto", label: "Auto-detect" },
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+]
+
+function describeDelimiter(delimiter: CsvDelimiter): string {
+  return DELIMITER_OPTIONS.find((option) => option.value === delimiter)?.label ?? delimiter
+}
+
+function detectFileType(fileName: string): FileFormat {
+  const lower = fileName.toLowerCase()
+  if (lower.endsWith(".json")) return "json"
+  if (lower.endsWith(".ndjson") || lower.endsWith(".jsonl")) return "ndjson"
+  if (lower.endsWith(".tsv")) return "tsv"
+  return "csv"
+}
 
-function detectFileType(fileName: string): "csv" | "json" {
-  return fileName.toLowerCase().endsWith(".json") ? "json" : "csv"
+async function readPreview(content: Blob): Promise<string> {
+  const head = await content.slice(0, PREVIEW_BYTES).text()
+  return head.split(/\r?\n/).slice(0, PREVIEW_LINES).join("\n")
+}
+
+function describeProgress(progress: AnalysisProgress): string {
+  if (progress.phase === "analyzing") return `Analyzing ${progress.rowsParsed.toLocaleString()} rows…`
+  const percent = progress.totalBytes ? Math.round((progress.bytesRead / progress.totalBytes) * 100) : 0
+  return progress.rowsParsed
+    ? `Parsed ${progress.rowsParsed.toLocaleString()} rows (${percent}%)`
+    : `Reading file (${percent}%)`
+}
+
+function suggestQuestions(result: AnalysisResult): string[] {
+  const [dimension] = result.spec.groupBy
+  const measure = result.spec.measures[0]?.column
+  if (!measure) return dimension ? [`How many rows per ${dimension}?`] : []
+  if (!dimension) return [`What is the average ${measure}?`]
+  return [`Which ${dimension} had the highest ${measure}?`, `Average ${measure} by ${dimension}`, `Top 3 ${dimension} by ${measure}`]
+}
+
+function compactSpec(spec: AnalysisSpec): AnalysisSpec | undefined {
+  const compacted: AnalysisSpec = {
+    ...(spec.groupBy?.length ? { groupBy: spec.groupBy } : {}),
+    ...(spec.measures?.length ? { measures: spec.measures } : {}),
+    ...(spec.sort ? { sort: spec.sort } : {}),
+    ...(spec.topN ? { topN: spec.topN } : {}),
+    ...(spec.includeOther ? { includeOther: true } : {}),
+  }
+  return Object.keys(compacted).length ? compacted : undefined
 }
 
 export function AnalysisPanel() {
@@ -47,12 +150,35 @@ export function AnalysisPanel() {
   const incrementAnalysis = useAuthStore((state) => state.incrementAnalysis)
 
   const [fileName, setFileName] = useState<string | null>(null)
-  const [fileType, setFileType] = useState<"csv" | "json">("csv")
-  const [rawContent, setRawContent] = useState<string>("")
+  const [fileType, setFileType] = useState<FileFormat>("csv")
+  const [delimiter, setDelimiter] = useState<CsvDelimiter | "auto">("auto")
+  const [numberLocale, setNumberLocale] = useState<NumberLocale | "auto">("auto")
+  const [maxDepth, setMaxDepth] = useState(DEFAULT_MAX_DEPTH)
+  const [content, setContent] = useState<Blob | null>(null)
   const [preview, setPreview] = useState<string>("")
   const [model, setModel] = useState(MODELS[1].id)
+  const [granularity, setGranularity] = useState<PeriodGranularity | "auto">("auto")
+  const [forecastHorizon, setForecastHorizon] = useState(DEFAULT_FORECAST_HORIZON)
+  const [spec, setSpec] = useState<AnalysisSpec>({})
+  const [filter, setFilter] = useState("")
+  const [pivot, setPivot] = useState<Partial<PivotSpec>>({})
+  const [detectedSchema, setDetectedSchema] = useState<ColumnSchema[]>([])
+  const [sampleRecords, setSampleRecords] = useState<DataRecord[]>([])
+  const [analyzedRows, setAnalyzedRows] = useState<AnalyzedRows | null>(null)
+  const [calculatedColumns, setCalculatedColumns] = useState<CalculatedColumn[]>([])
+  const [selectedAnomaly, setSelectedAnomaly] = useState<string | null>(null)
   const [analysis, setAnalysis] = useState<AnalysisResponse | null>(null)
+  // Questions run against the exact content and options of the last analysis, even if the preview changes since.
+  const [queryContext, setQueryContext] = useState<{ id: string; content: Blob; request: AnalysisRequest } | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null)
+  const [compare, setCompare] = useState<ComparisonSettings>(DEFAULT_COMPARISON)
+  const [savedRuns, setSavedRuns] = useState<SavedRun[]>([])
+  const [comparison, setComparison] = useState<{
+    currentLabel: string
+    baselineLabel: string
+    comparison: AnalysisComparison
+  } | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [showNarrative, setShowNarrative] = useState(false)
   const [retryCount, setRetryCount] = useState(0)
@@ -65,6 +191,9 @@ export function AnalysisPanel() {
     }
   }, [hydrated, token, router])
 
+  // Rows from a worker run stay in that worker until they are replaced or the panel unmounts.
+  useEffect(() => () => analyzedRows?.dispose(), [analyzedRows])
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -74,49 +203,149 @@ export function AnalysisPanel() {
     }
   }, [])
 
-  const readyToAnalyze = rawContent.trim().length > 0 && !isLoading && isOnline
+  const sourceColumns = useMemo(() => detectedSchema.map((column) => column.name), [detectedSchema])
+  const calculatedErrors = useMemo(
+    () => validateCalculatedColumns(calculatedColumns, sourceColumns),
+    [calculatedColumns, sourceColumns],
+  )
+  // Calculated columns are typed from a sample so they can be picked as measures before the next run.
+  const workingSchema = useMemo(() => {
+    if (!calculatedColumns.length || calculatedErrors.some(Boolean)) return detectedSchema
+    const sample = applyCalculatedColumns(sampleRecords.slice(0, SCHEMA_SAMPLE_ROWS), calculatedColumns)
+    return [
+      ...detectedSchema,
+      ...calculatedColumns.map((column) => {
+        const name = column.name.trim()
+        return inferColumn(name, sample.map((record) => record[name]))
+      }),
+    ]
+  }, [calculatedColumns, calculatedErrors, detectedSchema, sampleRecords])
+  const filterColumns = useMemo(() => workingSchema.map((column) => column.name), [workingSchema])
+  const filterError = useMemo(() => validateFilter(filter, filterColumns), [filter, filterColumns])
+  const readyToAnalyze =
+    Boolean(content?.size) &&
+    !isLoading &&
+    isOnline &&
+    !filterError &&
+    !calculatedErrors.some(Boolean) &&
+    (!compare.enabled || compare.source !== "file" || Boolean(compare.file))
+  const isJson = fileType === "json" || fileType === "ndjson"
 
   const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
-    if (!ACCEPTED_MIME.includes(file.type) && !file.name.endsWith(".csv") && !file.name.endsWith(".json")) {
-      setError("Unsupported file format. Upload CSV or JSON.")
+    const lowerName = file.name.toLowerCase()
+    if (!ACCEPTED_MIME.includes(file.type) && !ACCEPTED_EXTENSIONS.some((extension) => lowerName.endsWith(extension))) {
+      setError("Unsupported file format. Upload CSV, TSV, TXT, JSON, or NDJSON.")
       return
     }
 
-    const reader = new FileReader()
-    reader.onload = () => {
-      const text = typeof reader.result === "string" ? reader.result : ""
-      setRawContent(text)
-      setPreview(text.split(/\r?\n/).slice(0, 8).join("\n"))
-      setFileName(file.name)
-      setFileType(detectFileType(file.name))
-      setAnalysis(null)
-      setShowNarrative(false)
-      setError(null)
-    }
-    reader.onerror = () => {
-      setError("Failed to read file")
-    }
-    reader.readAsText(file)
+    loadContent(file, file.name, detectFileType(file.name)).catch(() => setError("Failed to read file"))
+  }
+
+  const loadContent = async (source: Blob, name: string, type: FileFormat) => {
+    setPreview(await readPreview(source))
+    setContent(source)
+    setFileName(name)
+    setFileType(type)
+    setDelimiter("auto")
+    setNumberLocale("auto")
+    setAnalysis(null)
+    setAnalyzedRows(null)
+    setQueryContext(null)
+    setComparison(null)
+    setSpec({})
+    setFilter("")
+    setCalculatedColumns([])
+    setPivot({})
+    setDetectedSchema([])
+    setShowNarrative(false)
+    setError(null)
   }
 
   const loadSample = async () => {
     try {
       const response = await fetch("/sample-data/sample_sales.csv")
-      const text = await response.text()
-      setRawContent(text)
-      setPreview(text.split(/\r?\n/).slice(0, 8).join("\n"))
-      setFileName("sample_sales.csv")
-      setFileType("csv")
-      setAnalysis(null)
-      setShowNarrative(false)
-      setError(null)
+      await loadContent(await response.blob(), "sample_sales.csv", "csv")
     } catch {
       setError("Unable to load sample data")
     }
   }
 
+  const analyzeContent = async (source: Blob, request: AnalysisRequest, signal: AbortSignal) => {
+    if (supportsAnalysisWorker()) {
+      // Large files are streamed and analyzed off the main thread so the tab stays responsive.
+      const run = await runAnalysisInWorker(
+        { content: source, request, sampleSize: SCHEMA_SAMPLE_ROWS },
+        { signal, onProgress: setProgress },
+      )
+      // This path does not go through the mock /api/analysis handler, so its request counter and the
+      // simulated overloads of the slower model tiers are bypassed on purpose; the model is only a label here.
+      return { result: { ...run.output, model } as AnalysisResponse, sample: run.sample, rows: run.rows }
+    }
+
+    const text = await source.text()
+    const response = await fetchWithTimeout(
+      "/api/analysis",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...request, content: text, model }),
+      },
+      {
+        timeout: 60000, // 60 seconds for analysis
+        signal,
+        retries: 2,
+      }
+    )
+
+    const payload: AnalysisResponse | { message: string } = await response.json()
+
+    if (!response.ok) {
+      throw new Error((payload as { message?: string }).message ?? "Analysis failed")
+    }
+
+    const result = payload as AnalysisResponse
+    const parsedRecords = parseRecords(text, request.fileType, { delimiter: result.delimiter, maxDepth: request.maxDepth }).records
+    const { locale } = result.result
+    return {
+      result,
+      sample: normalizeNumbers(parsedRecords.slice(0, SCHEMA_SAMPLE_ROWS), locale),
+      rows: localAnalyzedRows(prepareRecords(parsedRecords, locale, request).records, result.result),
+    }
+  }
+
+  // A saved run is analyzed again from its inputs with the current spec, filter and calculated columns,
+  // so it lines up with the other side of the comparison instead of keeping the spec it was saved with.
+  const analyzeSavedRun = async (id: string, request: AnalysisRequest, signal: AbortSignal) => {
+    const saved = savedRuns.find((run) => run.id === id)
+    if (!saved) throw new Error("That saved run is no longer available. Choose another to compare.")
+    const { fileType, delimiter, maxDepth, locale } = saved.request
+    try {
+      const { result, rows } = await analyzeContent(saved.content, { ...request, fileType, delimiter, maxDepth, locale }, signal)
+      rows.dispose()
+      return { label: saved.label, result: result.result }
+    } catch (caughtError) {
+      if (signal.aborted) throw caughtError
+      throw new Error(`Could not analyze ${saved.label} with the current spec: ${getErrorMessage(caughtError)}`)
+    }
+  }
+
+  const resolveBaseline = async (request: AnalysisRequest, signal: AbortSignal) => {
+    if (compare.source !== "file") return analyzeSavedRun(compare.source, request, signal)
+    if (!compare.file) throw new Error("Choose a baseline file or saved run to compare against.")
+    const fileType = detectFileType(compare.file.name)
+    const baselineRequest: AnalysisRequest = {
+      ...request,
+      fileType,
+      delimiter: fileType === "json" || fileType === "ndjson" ? undefined : "auto",
+      maxDepth: fileType === "json" || fileType === "ndjson" ? maxDepth : undefined,
+    }
+    const { result, rows } = await analyzeContent(compare.file, baselineRequest, signal)
+    rows.dispose()
+    return { label: compare.file.name, result: result.result }
+  }
+
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault()
     if (!readyToAnalyze) return
@@ -131,33 +360,65 @@ export function AnalysisPanel() {
     
     setIsLoading(true)
     setError(null)
+    setProgress(null)
 
+    const request: AnalysisRequest = {
+      fileType,
+      delimiter: isJson ? undefined : delimiter,
+      maxDepth: isJson ? maxDepth : undefined,
+      granularity: granularity === "auto" ? undefined : granularity,
+      forecastHorizon,
+      locale: numberLocale,
+      spec: compactSpec(spec),
+      filter: filter.trim() || undefined,
+      calculatedColumns: calculatedColumns.length ? calculatedColumns : undefined,
+      pivot: completePivot(pivot),
+    }
+
+    // Released if a later step fails, so a failed comparison does not leave a worker running.
+    let pendingRows: AnalyzedRows | null = null
     try {
-      const response = await fetchWithTimeout(
-        "/api/analysis",
+      const signal = abortControllerRef.current.signal
+      const { result, sample, rows } = await analyzeContent(content!, request, signal)
+      pendingRows = rows
+      if (compare.enabled) {
+        const current =
+          compare.current === "data"
+            ? { label: "Current data", result: result.result }
+            : await analyzeSavedRun(compare.current, request, signal)
+        const baseline = await resolveBaseline(request, signal)
+        setComparison({
+          currentLabel: current.label,
+          baselineLabel: baseline.label,
+          comparison: compareAnalyses(baseline.result, current.result),
+        })
+      } else {
+        setComparison(null)
+      }
+      const runId = `run-${Date.now()}`
+      const runRequest = { ...request, delimiter: result.delimiter ?? request.delimiter, locale: result.result.locale }
+      setSavedRuns((runs) => [
         {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ content: rawContent, fileType, model }),
+          id: runId,
+          label: `${fileName ?? "Pasted data"} at ${new Date().toLocaleTimeString()}`,
+          result: result.result,
+          content: content!,
+          request: runRequest,
         },
-        {
-          timeout: 60000, // 60 seconds for analysis
-          signal: abortControllerRef.current.signal,
-          retries: 2,
-        }
-      )
+        ...runs.slice(0, MAX_SAVED_RUNS - 1),
+      ])
+      setQueryContext({ id: runId, content: content!, request: runRequest })
 
-      const payload: AnalysisResponse | { message: string } = await response.json()
-
-      if (!response.ok) {
-        throw new Error((payload as { message?: string }).message ?? "Analysis failed")
-      }
-
-      const result = payload as AnalysisResponse
       setAnalysis(result)
+      setDetectedSchema(result.result.schema.filter((column) => !result.result.calculatedColumns.includes(column.name)))
+      setSampleRecords(sample)
+      setAnalyzedRows(rows)
+      pendingRows = null
+      setSelectedAnomaly(null)
       incrementAnalysis()
       setRetryCount(0) // Reset retry count on success
     } catch (caughtError) {
+      pendingRows?.dispose()
       const errorMessage = getErrorMessage(caughtError)
       setError(errorMessage)
       
@@ -167,22 +428,65 @@ export function AnalysisPanel() {
       }
     } finally {
       setIsLoading(false)
+      setProgress(null)
       abortControllerRef.current = null
     }
   }
 
+  const handleAsk = async (question: string): Promise<QueryAnswer> => {
+    if (!queryContext) throw new Error("Run an analysis before asking questions.")
+    const response = await fetchWithTimeout("/api/analysis/query", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...queryContext.request, content: await queryContext.content.text(), question }),
+    })
+    const payload: QueryAnswer | { message: string } = await response.json()
+    if (!response.ok) {
+      throw new Error((payload as { message?: string }).message ?? "Could not answer the question")
+    }
+    return payload as QueryAnswer
+  }
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleSelectAnomaly = (anomaly: AnomalyInsight | null) => {
+    setSelectedAnomaly(anomaly?.id ?? null)
+    if (anomaly) {
+      requestAnimationFrame(() => {
+        document.getElementById("flagged-rows")?.scrollIntoView({ behavior: "smooth", block: "nearest" })
+      })
+    }
+  }
+
   const handleRetry = useCallback(() => {
     if (retryCount < 3) {
       handleSubmit({ preventDefault: () => {} } as FormEvent)
     }
   }, [retryCount])
 
-  // Debounced preview update for better performance
-  const debouncedPreviewUpdate = useCallback(
-    debounce((text: string) => {
-      setRawContent(text)
-    }, 300),
-    []
+  // The preview is only the first lines of the file, so a JSON document cut off mid-way falls back to raw text.
+  const previewRows = useMemo((): GridRow[] | null => {
+    if (!preview.trim()) return null
+    try {
+      const { records } = parseRecords(preview, fileType, {
+        delimiter: delimiter === "auto" ? undefined : delimiter,
+        maxDepth,
+      })
+      return records.length ? records : null
+    } catch {
+      return null
+    }
+  }, [preview, fileType, delimiter, maxDepth])
+  const previewColumns = useMemo(() => (previewRows ? gridColumns(previewRows) : []), [previewRows])
+  const recordColumns = useMemo(
+    () => gridColumns(analyzedRows?.preview ?? [], analysis?.result.schema),
+    [analyzedRows, analysis],
+  )
+  const resultGrid = useMemo(
+    () => (analysis ? tableToGrid(analysis.result.table.headers, analysis.result.table.rows) : null),
+    [analysis],
   )
 
   const summaryForScreenReader = useMemo(() => analysis?.result.summary ?? preview.slice(0, 200), [analysis, preview])
@@ -192,7 +496,7 @@ export function AnalysisPanel() {
       <Card>
         <CardHeader>
           <CardTitle>Upload data</CardTitle>
-          <CardDescription>Send CSV or JSON and the analyst model will compute KPIs, trends, and observations.</CardDescription>
+          <CardDescription>Send CSV, TSV, JSON, or NDJSON and the analyst model will compute KPIs, trends, and observations.</CardDescription>
         </CardHeader>
         <CardContent>
           <form className="flex flex-col gap-4" onSubmit={handleSubmit} aria-live="polite">
@@ -201,7 +505,7 @@ export function AnalysisPanel() {
               <input
                 id="data-file"
                 type="file"
-                accept=".csv,.json,text/csv,application/json"
+                accept=".csv,.tsv,.txt,.json,.ndjson,.jsonl,text/csv,text/tab-separated-values,text/plain,application/json,application/x-ndjson"
                 onChange={handleFileChange}
                 className="block w-full rounded-md border border-dashed border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
               />
@@ -229,25 +533,138 @@ export function AnalysisPanel() {
               </select>
             </div>
 
+            {isJson ? (
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="max-depth">Nesting depth</Label>
+                <Input
+                  id="max-depth"
+                  type="number"
+                  min={1}
+                  max={MAX_DEPTH_LIMIT}
+                  value={maxDepth}
+                  onChange={(event) =>
+                    setMaxDepth(Math.min(MAX_DEPTH_LIMIT, Math.max(1, Math.floor(Number(event.target.value) || 1))))
+                  }
+                />
+                <p className="text-xs text-slate-500">
+                  Nested fields become columns like <code>customer.region</code> up to this depth.
+                </p>
+              </div>
+            ) : (
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="delimiter-select">Delimiter</Label>
+                <select
+                  id="delimiter-select"
+                  className="h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+                  value={delimiter}
+                  onChange={(event) => setDelimiter(event.target.value as CsvDelimiter | "auto")}
+                >
+                  {DELIMITER_OPTIONS.map((option) => (
+                    <option key={option.label} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="locale-select">Number format</Label>
+              <select
+                id="locale-select"
+                className="h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+                value={numberLocale}
+                onChange={(event) => setNumberLocale(event.target.value as NumberLocale | "auto")}
+              >
+                <option value="auto">
+                  Auto-detect{analysis && numberLocale === "auto" ? ` (${NUMBER_LOCALE_LABELS[analysis.result.locale]})` : ""}
+                </option>
+                {NUMBER_LOCALES.map((locale) => (
+                  <option key={locale} value={locale}>
+                    {NUMBER_LOCALE_LABELS[locale]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="granularity-select">Time bucket</Label>
+              <select
+                id="granularity-select"
+                className="h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+                value={granularity}
+                onChange={(event) => setGranularity(event.target.value as PeriodGranularity | "auto")}
+              >
+                <option value="auto">Auto (based on date range)</option>
+                {PERIOD_GRANULARITIES.map((option) => (
+                  <option key={option} value={option}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex flex-col gap-2">
-              <Label htmlFor="data-preview">Preview</Label>
-              <Textarea
-                id="data-preview"
-                value={preview}
-                onChange={(event) => {
-                  const text = event.target.value
-                  setPreview(text)
-                  debouncedPreviewUpdate(text)
-                }}
-                placeholder="First few rows will appear here"
-                aria-describedby="preview-help"
-                className="min-h-[120px] resize-y"
+              <Label htmlFor="forecast-horizon">Forecast periods</Label>
+              <Input
+                id="forecast-horizon"
+                type="number"
+                min={1}
+                max={MAX_FORECAST_HORIZON}
+                value={forecastHorizon}
+                onChange={(event) =>
+                  setForecastHorizon(
+                    Math.min(MAX_FORECAST_HORIZON, Math.max(1, Math.floor(Number(event.target.value) || 1))),
+                  )
+                }
               />
-              <p id="preview-help" className="text-xs text-slate-500">
-                You can edit the preview before running the analysis. Edits replace the uploaded content.
+              <p className="text-xs text-slate-500">Projected when the data has a date column.</p>
+            </div>
+
+            <FilterInput value={filter} onChange={setFilter} columns={filterColumns} />
+
+            {detectedSchema.length > 0 && (
+              <CalculatedColumnsForm columns={sourceColumns} value={calculatedColumns} onChange={setCalculatedColumns} />
+            )}
+
+            {detectedSchema.length > 0 && <AnalysisSpecForm schema={workingSchema} value={spec} onChange={setSpec} />}
+
+            {detectedSchema.length > 0 && <PivotForm schema={workingSchema} value={pivot} onChange={setPivot} />}
+
+            <ComparisonForm value={compare} savedRuns={savedRuns} onChange={setCompare} />
+
+            <div className="flex flex-col gap-2">
+              <p className="text-sm font-medium">Preview</p>
+              {previewRows ? (
+                <DataGrid id="data-preview" caption="Preview of the first rows" columns={previewColumns} rows={previewRows} />
+              ) : (
+                <pre className="max-h-48 overflow-auto rounded-md border border-slate-300 bg-white px-3 py-2 text-xs text-slate-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
+                  {preview || "First few rows will appear here"}
+                </pre>
+              )}
+              <p className="text-xs text-slate-500">
+                The first lines of the file. After analysis, every parsed row is listed under Records.
               </p>
             </div>
 
+            {isLoading && progress && (
+              <div className="flex flex-col gap-1" role="status" aria-live="polite">
+                <div
+                  className="h-2 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-800"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={progress.totalBytes}
+                  aria-valuenow={progress.bytesRead}
+                >
+                  <div
+                    className="h-full rounded-full bg-blue-500 transition-all dark:bg-blue-400"
+                    style={{ width: `${progress.totalBytes ? (progress.bytesRead / progress.totalBytes) * 100 : 0}%` }}
+                  />
+                </div>
+                <p className="text-xs text-slate-500">{describeProgress(progress)}</p>
+              </div>
+            )}
+
             <div className="flex flex-col-reverse sm:flex-row items-center justify-between gap-3">
               <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4 w-full sm:w-auto">
                 <p className="text-xs text-slate-500 sm:max-w-[85%]">
@@ -274,6 +691,11 @@ export function AnalysisPanel() {
                 >
                   {isLoading ? "Analyzing..." : "Analyze data"}
                 </Button>
+                {isLoading && (
+                  <Button type="button" variant="outline" onClick={handleCancel} className="w-full sm:w-auto">
+                    Cancel
+                  </Button>
+                )}
                 {error && retryCount < 3 && (
                   <Button
                     type="button"
@@ -315,6 +737,41 @@ export function AnalysisPanel() {
       {analysis && (
         <ErrorBoundary>
           <section className="grid gap-6 xl:grid-cols-5" aria-label="Analysis results">
+            {analysis.warnings.length > 0 && (
+              <Alert variant="warning" className="xl:col-span-5">
+                <details className="w-full">
+                  <summary className="cursor-pointer font-medium">
+                    {analysis.warnings.length} parse warning{analysis.warnings.length === 1 ? "" : "s"}: the file was read, but some rows needed repair.
+                  </summary>
+                  <ul className="mt-2 list-disc space-y-1 pl-5">
+                    {analysis.warnings.map((warning, index) => (
+                      <li key={`${warning.code}-${warning.line}-${index}`}>
+                        {warning.line > 0 && `Line ${warning.line}: `}
+                        {warning.message}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              </Alert>
+            )}
+            {comparison && (
+              <ComparisonCard
+                comparison={comparison.comparison}
+                currentLabel={comparison.currentLabel}
+                baselineLabel={comparison.baselineLabel}
+                locale={analysis.result.locale}
+                className="xl:col-span-5"
+              />
+            )}
+
+            {analysis.result.quality && (
+              <DataQualityCard
+                quality={analysis.result.quality}
+                records={analyzedRows?.flagged ?? {}}
+                headers={analyzedRows?.headers ?? []}
+                className="xl:col-span-5"
+              />
+            )}
             <Card className="xl:col-span-3">
               <CardHeader>
                 <CardTitle>Insights</CardTitle>
@@ -362,75 +819,115 @@ export function AnalysisPanel() {
                 </CardContent>
               </Card>
 
-              <Card>
-                <CardHeader>
-                  <CardTitle>Trend chart</CardTitle>
-                  <CardDescription>Highest contributing segments.</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="overflow-x-auto">
-                    <HorizontalBars data={analysis.result.trends} />
-                  </div>
-                </CardContent>
-              </Card>
+              <TrendChartCard result={analysis.result} records={analyzedRows?.preview ?? []} />
+
+              {analysis.result.correlations && <CorrelationCard correlations={analysis.result.correlations} />}
             </div>
 
+            {queryContext && (
+              <AskDataCard
+                key={queryContext.id}
+                onAsk={handleAsk}
+                suggestions={suggestQuestions(analysis.result)}
+                locale={analysis.result.locale}
+                className="xl:col-span-5"
+              />
+            )}
+
+            <AnomaliesCard
+              anomalies={analysis.result.anomalies}
+              records={analyzedRows?.flagged ?? {}}
+              headers={analyzedRows?.headers ?? []}
+              selectedId={selectedAnomaly}
+              onSelect={handleSelectAnomaly}
+              className="xl:col-span-5"
+            />
+
+            {analysis.result.pivot && (
+              <PivotTableCard pivot={analysis.result.pivot} locale={analysis.result.locale} className="xl:col-span-5" />
+            )}
+
+            {analysis.result.timeSeries && (
+              <TimeSeriesCard series={analysis.result.timeSeries} locale={analysis.result.locale} className="xl:col-span-5" />
+            )}
+
+            {analysis.result.forecast && (
+              <ForecastCard forecast={analysis.result.forecast} locale={analysis.result.locale} className="xl:col-span-5" />
+            )}
+
             <Card className="xl:col-span-5">
               <CardHeader>
-                <CardTitle>Preview table</CardTitle>
-                <CardDescription>First few rows of the aggregated output.</CardDescription>
+                <CardTitle>Result table</CardTitle>
+                <CardDescription>
+                  {analysis.result.spec.groupBy.length && analysis.result.spec.measures.length
+                    ? "The aggregated output."
+                    : "The first rows of the analyzed data."}
+                </CardDescription>
               </CardHeader>
-              <CardContent className="overflow-x-auto">
-                <div className="min-w-full">
-                  <table className="min-w-full divide-y divide-slate-200 text-sm">
-                    <thead>
-                      <tr>
-                        {analysis.result.table.headers.map((header) => (
-                          <th 
-                            key={header} 
-                            scope="col" 
-                            className="bg-slate-50 px-3 py-2 text-left font-semibold text-slate-600 capitalize dark:bg-slate-800 dark:text-slate-300"
-                          >
-                            {header}
-                          </th>
-                        ))}
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {analysis.result.table.rows.map((row, rowIndex) => (
-                        <tr 
-                          key={rowIndex} 
-                          className={rowIndex % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50 dark:bg-slate-800"}
-                        >
-                          {row.map((value, cellIndex) => (
-                            <td 
-                              key={`${rowIndex}-${cellIndex}`} 
-                              className="px-3 py-2 text-slate-700 dark:text-slate-300"
-                            >
-                              {typeof value === "number" ? value.toLocaleString() : String(value)}
-                            </td>
-                          ))}
-                        </tr>
-                      ))}
-                      {analysis.result.table.rows.length === 0 && (
-                        <tr>
-                          <td 
-                            colSpan={analysis.result.table.headers.length || 1} 
-                            className="px-3 py-6 text-center text-slate-800 dark:text-slate-200"
-                          >
-                            No tabular preview available.
-                          </td>
-                        </tr>
-                      )}
-                    </tbody>
-                  </table>
-                </div>
+              <CardContent>
+                {resultGrid && (
+                  <DataGrid
+                    id="result-table"
+                    caption="Result table"
+                    columns={resultGrid.columns}
+                    rows={resultGrid.rows}
+                    locale={analysis.result.locale}
+                    emptyMessage="No tabular preview available."
+                  />
+                )}
               </CardContent>
               <CardFooter className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
                 <Badge variant="outline">Model: {analysis.model}</Badge>
-                <span>{analysis.result.table.rows.length} rows shown</span>
+                {analysis.delimiter && <Badge variant="outline">Delimiter: {describeDelimiter(analysis.delimiter)}</Badge>}
+                {analysis.recordPath && <Badge variant="outline">Records: {analysis.recordPath}</Badge>}
+                {analysis.result.filter && (
+                  <Badge variant="outline">
+                    Filtered: {analysis.result.filter.matched} of {analysis.result.filter.total} rows
+                  </Badge>
+                )}
               </CardFooter>
             </Card>
+
+            <Card className="xl:col-span-5">
+              <CardHeader>
+                <CardTitle>Records</CardTitle>
+                <CardDescription>
+                  Every analyzed row{analysis.result.calculatedColumns.length ? ", including calculated columns" : ""}
+                  {analysis.result.filter ? ", after the filter" : ""}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DataGrid
+                  id="records"
+                  caption="Analyzed records"
+                  columns={recordColumns}
+                  source={analyzedRows ?? undefined}
+                  locale={analysis.result.locale}
+                />
+              </CardContent>
+            </Card>
+
+            {analysis.result.profile.length > 0 && (
+              <section className="grid gap-6 md:grid-cols-2 xl:col-span-5 xl:grid-cols-3" aria-label="Column profiles">
+                {analysis.result.profile.map((profile) => (
+                  <ColumnProfileCard key={profile.column} profile={profile} locale={analysis.result.locale} />
+                ))}
+              </section>
+            )}
+
+            <Card className="xl:col-span-5">
+              <CardHeader>
+                <CardTitle>Detected schema</CardTitle>
+                <CardDescription>Inferred column types that drive measures, groupings, and time handling.</CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {analysis.result.schema.map((column) => (
+                  <Badge key={column.name} variant={column.confidence < 0.9 ? "warning" : "outline"}>
+                    {column.name}: {column.type} · {Math.round(column.confidence * 100)}%
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
           </section>
         </ErrorBoundary>
       )}
@@ -0,0 +1,167 @@
+"use client"
+
+import { AnalysisSpec } from "@/lib/analysis"
+import { Aggregation, AGGREGATIONS, MeasureSpec, NUMERIC_AGGREGATIONS, SortOrder } from "@/lib/aggregate"
+import { ColumnSchema } from "@/lib/schema"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface AnalysisSpecFormProps {
+  schema: ColumnSchema[]
+  value: AnalysisSpec
+  onChange: (spec: AnalysisSpec) => void
+}
+
+const SELECT_CLASS =
+  "h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+
+const SORT_LABELS: Record<SortOrder, string> = {
+  desc: "Highest first",
+  asc: "Lowest first",
+  label: "Alphabetical",
+}
+
+export function AnalysisSpecForm({ schema, value, onChange }: AnalysisSpecFormProps) {
+  const groupable = schema.filter((column) => column.role === "dimension" || column.role === "time")
+  const measures = value.measures ?? []
+  const isNumeric = (name: string) => schema.find((column) => column.name === name)?.role === "measure"
+
+  const toggleGroupBy = (name: string, checked: boolean) => {
+    const current = value.groupBy ?? []
+    onChange({ ...value, groupBy: checked ? [...current, name] : current.filter((column) => column !== name) })
+  }
+
+  const updateMeasure = (index: number, next: MeasureSpec) => {
+    onChange({ ...value, measures: measures.map((measure, position) => (position === index ? next : measure)) })
+  }
+
+  const addMeasure = () => {
+    const column = schema.find((entry) => entry.role === "measure") ?? schema[0]
+    if (!column) return
+    const aggregation: Aggregation = column.role === "measure" ? "sum" : "count"
+    onChange({ ...value, measures: [...measures, { column: column.name, aggregation }] })
+  }
+
+  return (
+    <fieldset className="flex flex-col gap-4 rounded-md border border-slate-200 p-4 dark:border-slate-700">
+      <legend className="px-1 text-sm font-medium">Customize analysis</legend>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium">Group by</span>
+        {groupable.length === 0 && <p className="text-xs text-slate-500">No categorical or date columns detected.</p>}
+        <div className="flex flex-wrap gap-3">
+          {groupable.map((column) => (
+            <label key={column.name} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={value.groupBy?.includes(column.name) ?? false}
+                onChange={(event) => toggleGroupBy(column.name, event.target.checked)}
+              />
+              {column.name}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium">Measures</span>
+        {measures.map((measure, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              aria-label={`Measure ${index + 1} column`}
+              className={SELECT_CLASS}
+              value={measure.column}
+              onChange={(event) => {
+                const column = event.target.value
+                const aggregation =
+                  !isNumeric(column) && NUMERIC_AGGREGATIONS.includes(measure.aggregation) ? "count" : measure.aggregation
+                updateMeasure(index, { column, aggregation })
+              }}
+            >
+              {schema.map((column) => (
+                <option key={column.name} value={column.name}>
+                  {column.name}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label={`Measure ${index + 1} aggregation`}
+              className={SELECT_CLASS}
+              value={measure.aggregation}
+              onChange={(event) => updateMeasure(index, { ...measure, aggregation: event.target.value as Aggregation })}
+            >
+              {AGGREGATIONS.map((aggregation) => (
+                <option
+                  key={aggregation}
+                  value={aggregation}
+                  disabled={!isNumeric(measure.column) && NUMERIC_AGGREGATIONS.includes(aggregation)}
+                >
+                  {aggregation}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange({ ...value, measures: measures.filter((_, position) => position !== index) })}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <div>
+          <Button type="button" size="sm" variant="outline" onClick={addMeasure} disabled={!schema.length}>
+            Add measure
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="spec-sort">Sort</Label>
+          <select
+            id="spec-sort"
+            className={SELECT_CLASS}
+            value={value.sort ?? "desc"}
+            onChange={(event) => onChange({ ...value, sort: event.target.value as SortOrder })}
+          >
+            {(Object.keys(SORT_LABELS) as SortOrder[]).map((sort) => (
+              <option key={sort} value={sort}>
+                {SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="spec-top-n">Top N</Label>
+          <Input
+            id="spec-top-n"
+            type="number"
+            min={1}
+            placeholder="8"
+            value={value.topN ?? ""}
+            onChange={(event) =>
+              onChange({ ...value, topN: event.target.value ? Math.max(1, Math.floor(Number(event.target.value))) : undefined })
+            }
+          />
+        </div>
+        <label className="flex items-center gap-2 self-end pb-2 text-sm">
+          <input
+            type="checkbox"
+            checked={value.includeOther ?? false}
+            onChange={(event) => onChange({ ...value, includeOther: event.target.checked })}
+          />
+          Group the rest as &ldquo;Other&rdquo;
+        </label>
+      </div>
+
+      <div>
+        <Button type="button" size="sm" variant="ghost" onClick={() => onChange({})}>
+          Reset to defaults
+        </Button>
+      </div>
+    </fieldset>
+  )
+}
@@ -0,0 +1,108 @@
+import { AnomalyInsight, AnomalySeverity } from "@/lib/anomalies"
+import { DataRecord } from "@/lib/analysis"
+import { MAX_FLAGGED_ROWS } from "@/lib/analysis-rows"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface AnomaliesCardProps {
+  anomalies: AnomalyInsight[]
+  /** Flagged rows by row index; only those the card lists need to be present. */
+  records: Record<number, DataRecord>
+  headers: string[]
+  selectedId: string | null
+  onSelect: (anomaly: AnomalyInsight | null) => void
+  className?: string
+}
+
+const SEVERITY_VARIANT: Record<AnomalySeverity, "outline" | "warning" | "default"> = {
+  low: "outline",
+  medium: "default",
+  high: "warning",
+}
+
+
+export function AnomaliesCard({ anomalies, records, headers, selectedId, onSelect, className }: AnomaliesCardProps) {
+  const selected = anomalies.find((anomaly) => anomaly.id === selectedId) ?? null
+  const flaggedRows = selected ? selected.rowIndices.slice(0, MAX_FLAGGED_ROWS) : []
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Anomalies</CardTitle>
+        <CardDescription>Rows, groups, and periods flagged by z-score, IQR fences, and spike/drop checks.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <ul className="space-y-2 text-sm">
+          {anomalies.length === 0 && <li className="text-slate-500">No anomalies detected.</li>}
+          {anomalies.map((anomaly) => (
+            <li key={anomaly.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(anomaly.id === selectedId ? null : anomaly)}
+                aria-pressed={anomaly.id === selectedId}
+                className={cn(
+                  "flex w-full flex-col gap-1 rounded-md border p-3 text-left transition-colors hover:bg-slate-50 dark:hover:bg-slate-800",
+                  anomaly.id === selectedId ? "border-blue-500" : "border-slate-200 dark:border-slate-700",
+                )}
+              >
+                <span className="flex flex-wrap items-center gap-2">
+                  <Badge variant={SEVERITY_VARIANT[anomaly.severity]}>{anomaly.severity}</Badge>
+                  <Badge variant="outline">{anomaly.scope}</Badge>
+                  <span className="text-xs text-slate-500">
+                    {anomaly.methods.join(", ")} · {anomaly.rowIndices.length} row{anomaly.rowIndices.length === 1 ? "" : "s"}
+                  </span>
+                </span>
+                <span className="text-slate-700 dark:text-slate-200">{anomaly.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div id="flagged-rows" className="overflow-x-auto">
+          {!selected && <p className="text-sm text-slate-500">Select an anomaly to jump to its rows.</p>}
+          {selected && (
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead>
+                <tr>
+                  <th scope="col" className="bg-slate-50 px-3 py-2 text-left font-semibold text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+                    #
+                  </th>
+                  {headers.map((header) => (
+                    <th
+                      key={header}
+                      scope="col"
+                      className={cn(
+                        "bg-slate-50 px-3 py-2 text-left font-semibold text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+                        header === selected.metric && "text-blue-600 dark:text-blue-400",
+                      )}
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {flaggedRows.map((rowIndex) => (
+                  <tr key={rowIndex} className="bg-amber-50 dark:bg-amber-900/20">
+                    <td className="px-3 py-2 text-slate-500">{rowIndex + 1}</td>
+                    {headers.map((header) => (
+                      <td key={header} className="px-3 py-2 text-slate-700 dark:text-slate-300">
+                        {String(records[rowIndex]?.[header] ?? "")}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {selected && selected.rowIndices.length > MAX_FLAGGED_ROWS && (
+            <p className="mt-2 text-xs text-slate-500">
+              Showing {MAX_FLAGGED_ROWS} of {selected.rowIndices.length} rows.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { FormEvent, useState } from "react"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { QueryAnswer } from "@/lib/query"
+import { getErrorMessage } from "@/lib/request-utils"
+import { Alert } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface AskDataCardProps {
+  onAsk: (question: string) => Promise<QueryAnswer>
+  /** Example questions built from the analyzed columns. */
+  suggestions?: string[]
+  locale?: NumberLocale
+  className?: string
+}
+
+export function AskDataCard({ onAsk, suggestions = [], locale, className }: AskDataCardProps) {
+  const [question, setQuestion] = useState("")
+  const [answer, setAnswer] = useState<QueryAnswer | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isAsking, setIsAsking] = useState(false)
+
+  const ask = async (text: string) => {
+    if (!text.trim() || isAsking) return
+    setIsAsking(true)
+    setError(null)
+    try {
+      setAnswer(await onAsk(text.trim()))
+    } catch (caughtError) {
+      setAnswer(null)
+      setError(getErrorMessage(caughtError))
+    } finally {
+      setIsAsking(false)
+    }
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    ask(question)
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Ask your data</CardTitle>
+        <CardDescription>Questions are answered from the analyzed rows with the same filter and calculated columns.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="flex flex-col gap-2" onSubmit={handleSubmit}>
+          <Label htmlFor="data-question">Question</Label>
+          <div className="flex gap-2">
+            <Input
+              id="data-question"
+              value={question}
+              placeholder={suggestions[0] ?? "Which region had the highest average units?"}
+              onChange={(event) => setQuestion(event.target.value)}
+            />
+            <Button type="submit" disabled={!question.trim() || isAsking}>
+              {isAsking ? "Asking…" : "Ask"}
+            </Button>
+          </div>
+        </form>
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map((suggestion) => (
+              <Button
+                key={suggestion}
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={isAsking}
+                onClick={() => {
+                  setQuestion(suggestion)
+                  ask(suggestion)
+                }}
+              >
+                {suggestion}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {error && <Alert variant="error">{error}</Alert>}
+
+        {answer && (
+          <div className="space-y-3 text-sm" aria-live="polite">
+            <p className="text-base font-medium">{answer.answer}</p>
+            <p className="text-xs text-slate-500">
+              Interpreted as <code>{answer.interpretation}</code> over {formatNumber(answer.matchedRows, locale)} row
+              {answer.matchedRows === 1 ? "" : "s"}.
+            </p>
+            {answer.table.rows.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-left">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-slate-500 dark:border-slate-700">
+                      {answer.table.columns.map((column, index) => (
+                        <th
+                          key={column}
+                          className={index === answer.table.columns.length - 1 ? "py-2 text-right font-medium" : "py-2 pr-3 font-medium"}
+                        >
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {answer.table.rows.map((row) => (
+                      <tr key={row.join("\u0000")} className="border-b border-slate-100 last:border-0 dark:border-slate-800">
+                        {row.map((cell, index) =>
+                          typeof cell === "number" ? (
+                            <td key={index} className="py-2 text-right tabular-nums">
+                              {formatNumber(cell, locale)}
+                            </td>
+                          ) : (
+                            <td key={index} className="py-2 pr-3">
+                              {cell}
+                            </td>
+                          ),
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useMemo } from "react"
+import { CalculatedColumn, compileCalculatedColumns, FORMULA_FUNCTIONS, FormulaError } from "@/lib/formula"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+interface CalculatedColumnsFormProps {
+  columns: string[]
+  value: CalculatedColumn[]
+  onChange: (columns: CalculatedColumn[]) => void
+}
+
+/**
+ * Validate each calculated column against the source columns and the
+ * calculated columns before it. Returns one entry per definition.
+ */
+export function validateCalculatedColumns(definitions: CalculatedColumn[], columns: string[]): (FormulaError | null)[] {
+  const known = [...columns]
+  return definitions.map((definition) => {
+    try {
+      compileCalculatedColumns([definition], known)
+      known.push(definition.name.trim())
+      return null
+    } catch (error) {
+      if (error instanceof FormulaError) return error
+      throw error
+    }
+  })
+}
+
+export function CalculatedColumnsForm({ columns, value, onChange }: CalculatedColumnsFormProps) {
+  const errors = useMemo(() => validateCalculatedColumns(value, columns), [value, columns])
+
+  const update = (index: number, next: CalculatedColumn) => {
+    onChange(value.map((column, position) => (position === index ? next : column)))
+  }
+
+  return (
+    <fieldset className="flex flex-col gap-3 rounded-md border border-slate-200 p-4 dark:border-slate-700">
+      <legend className="px-1 text-sm font-medium">Calculated columns</legend>
+      <p className="text-xs text-slate-500">
+        Use + - * / %, comparisons, and/or/not, and {FORMULA_FUNCTIONS.join(", ")}. Example: <code>round(total / units, 2)</code>.
+      </p>
+
+      {value.map((column, index) => {
+        const error = errors[index]
+        const formulaError = error?.target === "formula"
+        return (
+          <div key={index} className="flex flex-col gap-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                aria-label={`Calculated column ${index + 1} name`}
+                placeholder="avg_price"
+                className={cn("w-40", error && !formulaError && "border-red-500")}
+                value={column.name}
+                onChange={(event) => update(index, { ...column, name: event.target.value })}
+              />
+              <span className="text-sm text-slate-500">=</span>
+              <Input
+                aria-label={`Calculated column ${index + 1} formula`}
+                aria-invalid={formulaError ? true : undefined}
+                placeholder="total / units"
+                spellCheck={false}
+                className={cn("min-w-[16rem] flex-1 font-mono", formulaError && "border-red-500")}
+                value={column.formula}
+                onChange={(event) => update(index, { ...column, formula: event.target.value })}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => onChange(value.filter((_, position) => position !== index))}
+              >
+                Remove
+              </Button>
+            </div>
+            {error && (
+              <p role="alert" className="text-xs text-red-600 dark:text-red-400">
+                {formulaError && column.formula ? `At character ${error.position + 1}: ` : ""}
+                {error.message}
+              </p>
+            )}
+          </div>
+        )
+      })}
+
+      <div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...value, { name: "", formula: "" }])}
+        >
+          Add calculated column
+        </Button>
+      </div>
+    </fieldset>
+  )
+}
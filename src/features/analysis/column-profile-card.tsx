@@ -0,0 +1,79 @@
+"use client"
+
+import { useRef } from "react"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { ColumnProfile } from "@/lib/statistics"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartExportMenu } from "@/components/charts/chart-export-menu"
+import { Histogram } from "@/components/charts/histogram"
+import { HorizontalBars } from "@/components/charts/horizontal-bars"
+
+interface ColumnProfileCardProps {
+  profile: ColumnProfile
+  locale?: NumberLocale
+}
+
+function Stat({ label, value, locale }: { label: string; value: number; locale?: NumberLocale }) {
+  return (
+    <div>
+      <dt className="text-xs uppercase text-slate-500">{label}</dt>
+      <dd className="font-medium text-slate-800 dark:text-slate-100">{formatNumber(value, locale)}</dd>
+    </div>
+  )
+}
+
+export function ColumnProfileCard({ profile, locale }: ColumnProfileCardProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-base">
+              {profile.column}
+              <Badge variant="outline">{profile.type}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {formatNumber(profile.count, locale)} values · {formatNumber(profile.missing, locale)} missing
+            </CardDescription>
+          </div>
+          <ChartExportMenu target={chartRef} title={`${profile.column} distribution`} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {profile.kind === "numeric" ? (
+          <>
+            <dl className="grid grid-cols-3 gap-3">
+              <Stat label="Min" value={profile.min} locale={locale} />
+              <Stat label="Median" value={profile.median} locale={locale} />
+              <Stat label="Max" value={profile.max} locale={locale} />
+              <Stat label="Mean" value={profile.mean} locale={locale} />
+              <Stat label="Std dev" value={profile.stdDev} locale={locale} />
+              <Stat label="P5" value={profile.percentiles.p5} locale={locale} />
+              <Stat label="P25" value={profile.percentiles.p25} locale={locale} />
+              <Stat label="P75" value={profile.percentiles.p75} locale={locale} />
+              <Stat label="P95" value={profile.percentiles.p95} locale={locale} />
+            </dl>
+            <div ref={chartRef}>
+              <Histogram bins={profile.histogram} locale={locale} />
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-slate-600 dark:text-slate-300">
+              {formatNumber(profile.cardinality, locale)} distinct value{profile.cardinality === 1 ? "" : "s"}
+            </p>
+            <div ref={chartRef}>
+              <HorizontalBars
+                data={profile.topValues.map((entry) => ({ label: entry.value, value: entry.count }))}
+                locale={locale}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,107 @@
+import { AnalysisComparison, GroupChangeStatus } from "@/lib/comparison"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { Alert } from "@/components/ui/alert"
+import { Badge, BadgeProps } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface ComparisonCardProps {
+  comparison: AnalysisComparison
+  currentLabel: string
+  baselineLabel: string
+  locale?: NumberLocale
+  className?: string
+}
+
+const STATUS_VARIANTS: Record<GroupChangeStatus, BadgeProps["variant"]> = {
+  added: "success",
+  removed: "warning",
+  changed: "default",
+  unchanged: "outline",
+}
+
+function formatPercent(percent: number | null, locale?: NumberLocale): string {
+  if (percent === null) return "–"
+  return `${percent > 0 ? "+" : ""}${formatNumber(percent, locale)}%`
+}
+
+function formatDelta(delta: number | null, locale?: NumberLocale): string {
+  if (delta === null) return "–"
+  return `${delta > 0 ? "+" : ""}${formatNumber(delta, locale)}`
+}
+
+function describeRank(rankChange: number | null): string {
+  if (rankChange === null || rankChange === 0) return "–"
+  return rankChange > 0 ? `▲ ${rankChange}` : `▼ ${-rankChange}`
+}
+
+export function ComparisonCard({ comparison, currentLabel, baselineLabel, locale, className }: ComparisonCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Comparison</CardTitle>
+        <CardDescription>{currentLabel} against {baselineLabel}.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!comparison.sameSpec && (
+          <Alert variant="warning">The baseline was analyzed with a different grouping or measures, so some rows may not line up.</Alert>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {comparison.kpis.map((kpi) => (
+            <div key={kpi.label} className="rounded-md border border-slate-200 p-3 dark:border-slate-700">
+              <p className="text-xs text-slate-500">{kpi.label}</p>
+              <p className="text-lg font-semibold">{kpi.current ?? "–"}</p>
+              <p className="text-xs text-slate-500">
+                was {kpi.baseline ?? "–"} · {formatDelta(kpi.delta, locale)} ({formatPercent(kpi.percent, locale)})
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {(comparison.added.length > 0 || comparison.removed.length > 0) && (
+          <div className="flex flex-wrap gap-2 text-sm">
+            {comparison.added.map((label) => (
+              <Badge key={`added-${label}`} variant="success">
+                New: {label}
+              </Badge>
+            ))}
+            {comparison.removed.map((label) => (
+              <Badge key={`removed-${label}`} variant="warning">
+                Gone: {label}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-slate-500 dark:border-slate-700">
+                <th className="py-2 pr-3 font-medium">Group</th>
+                <th className="py-2 pr-3 text-right font-medium">Baseline</th>
+                <th className="py-2 pr-3 text-right font-medium">Current</th>
+                <th className="py-2 pr-3 text-right font-medium">Change</th>
+                <th className="py-2 pr-3 text-right font-medium">Rank</th>
+                <th className="py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.groups.map((group) => (
+                <tr key={group.label} className="border-b border-slate-100 last:border-0 dark:border-slate-800">
+                  <td className="py-2 pr-3">{group.label}</td>
+                  <td className="py-2 pr-3 text-right tabular-nums">{group.baseline === null ? "–" : formatNumber(group.baseline, locale)}</td>
+                  <td className="py-2 pr-3 text-right tabular-nums">{group.current === null ? "–" : formatNumber(group.current, locale)}</td>
+                  <td className="py-2 pr-3 text-right tabular-nums">{formatPercent(group.percent, locale)}</td>
+                  <td className="py-2 pr-3 text-right tabular-nums">{describeRank(group.rankChange)}</td>
+                  <td className="py-2">
+                    <Badge variant={STATUS_VARIANTS[group.status]}>{group.status}</Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { AnalysisResult } from "@/lib/analysis"
+import { AnalysisRequest } from "@/lib/analysis-request"
+import { Label } from "@/components/ui/label"
+
+export interface SavedRun {
+  id: string
+  label: string
+  result: AnalysisResult
+  /** The run's inputs, so it can be analyzed again with another spec. */
+  content: Blob
+  request: AnalysisRequest
+}
+
+export interface ComparisonSettings {
+  enabled: boolean
+  /** "data" for the data being analyzed, otherwise the id of a saved run. */
+  current: string
+  /** "file" to analyze `file` as the baseline, otherwise the id of a saved run. */
+  source: string
+  file: File | null
+}
+
+export const DEFAULT_COMPARISON: ComparisonSettings = { enabled: false, current: "data", source: "file", file: null }
+
+interface ComparisonFormProps {
+  value: ComparisonSettings
+  savedRuns: SavedRun[]
+  onChange: (value: ComparisonSettings) => void
+}
+
+const SELECT_CLASS =
+  "h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+
+export function ComparisonForm({ value, savedRuns, onChange }: ComparisonFormProps) {
+  return (
+    <fieldset className="flex flex-col gap-4 rounded-md border border-slate-200 p-4 dark:border-slate-700">
+      <legend className="px-1 text-sm font-medium">Comparison</legend>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(event) => onChange({ ...value, enabled: event.target.checked })}
+        />
+        Compare against a baseline
+      </label>
+
+      {value.enabled && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="comparison-current">Compare</Label>
+            <select
+              id="comparison-current"
+              className={SELECT_CLASS}
+              value={value.current}
+              onChange={(event) => onChange({ ...value, current: event.target.value })}
+            >
+              <option value="data">The data being analyzed</option>
+              {savedRuns.map((run) => (
+                <option key={run.id} value={run.id} disabled={run.id === value.source}>
+                  Saved run: {run.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="comparison-source">Against</Label>
+            <select
+              id="comparison-source"
+              className={SELECT_CLASS}
+              value={value.source}
+              onChange={(event) => onChange({ ...value, source: event.target.value })}
+            >
+              <option value="file">Another file</option>
+              {savedRuns.map((run) => (
+                <option key={run.id} value={run.id} disabled={run.id === value.current}>
+                  Saved run: {run.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {value.source === "file" && (
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="comparison-file">Baseline file</Label>
+              <input
+                id="comparison-file"
+                type="file"
+                accept=".csv,.tsv,.txt,.json,.ndjson,.jsonl,text/csv,text/tab-separated-values,text/plain,application/json,application/x-ndjson"
+                onChange={(event) => onChange({ ...value, file: event.target.files?.[0] ?? null })}
+                className="block w-full rounded-md border border-dashed border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {value.enabled && (
+        <p className="text-xs text-slate-500">
+          A baseline file and any saved run are analyzed again with the same spec, filter and calculated columns as
+          the current data, so both sides are grouped and measured alike.
+        </p>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { CorrelationMatrix, CorrelationMethod } from "@/lib/correlation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartExportMenu } from "@/components/charts/chart-export-menu"
+import { Heatmap } from "@/components/charts/heatmap"
+
+interface CorrelationCardProps {
+  correlations: CorrelationMatrix
+}
+
+export function CorrelationCard({ correlations }: CorrelationCardProps) {
+  const [method, setMethod] = useState<CorrelationMethod>("pearson")
+  const chartRef = useRef<HTMLDivElement>(null)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle>Correlations</CardTitle>
+            <CardDescription>Pairwise relationships between numeric measures.</CardDescription>
+          </div>
+          <ChartExportMenu target={chartRef} title={`${method === "pearson" ? "Pearson" : "Spearman"} correlations`} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2" role="group" aria-label="Correlation method">
+          {(["pearson", "spearman"] as CorrelationMethod[]).map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={method === option ? "default" : "outline"}
+              aria-pressed={method === option}
+              onClick={() => setMethod(option)}
+            >
+              {option === "pearson" ? "Pearson" : "Spearman"}
+            </Button>
+          ))}
+        </div>
+        <div className="overflow-x-auto">
+          <div ref={chartRef}>
+            <Heatmap labels={correlations.measures} values={correlations[method]} />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
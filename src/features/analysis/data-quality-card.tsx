@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import { DataRecord } from "@/lib/analysis"
+import { MAX_FLAGGED_ROWS } from "@/lib/analysis-rows"
+import { DataQualityReport, QualityIssueKind, QualitySeverity } from "@/lib/quality"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface DataQualityCardProps {
+  quality: DataQualityReport
+  /** Flagged rows by row index; only those the card lists need to be present. */
+  records: Record<number, DataRecord>
+  headers: string[]
+  className?: string
+}
+
+const SEVERITY_VARIANT: Record<QualitySeverity, "outline" | "warning" | "default"> = {
+  low: "outline",
+  medium: "default",
+  high: "warning",
+}
+
+const KIND_LABELS: Record<QualityIssueKind, string> = {
+  "missing-values": "Missing values",
+  "duplicate-rows": "Duplicate rows",
+  "mixed-types": "Mixed types",
+  "coerced-numbers": "Coerced numbers",
+  "inconsistent-categories": "Inconsistent categories",
+  "ragged-rows": "Wrong field count",
+}
+
+
+function scoreTone(score: number): string {
+  if (score >= 90) return "text-emerald-600 dark:text-emerald-400"
+  if (score >= 70) return "text-amber-600 dark:text-amber-400"
+  return "text-red-600 dark:text-red-400"
+}
+
+export function DataQualityCard({ quality, records, headers, className }: DataQualityCardProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const selected = quality.issues.find((issue) => issue.id === selectedId) ?? null
+  const shownHeaders = selected?.column ? [selected.column] : headers
+  const rows = selected ? selected.rowIndices.slice(0, MAX_FLAGGED_ROWS) : []
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Data quality</CardTitle>
+        <CardDescription>Problems in the file that can skew KPIs, scored out of 100.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-[12rem_1fr_1fr]">
+        <div className="flex flex-col gap-1">
+          <span className={cn("text-4xl font-semibold", scoreTone(quality.score))}>{quality.score}</span>
+          <span className="text-xs text-slate-500">
+            {quality.rowCount} rows · {quality.columnCount} columns · {quality.issues.length} issue
+            {quality.issues.length === 1 ? "" : "s"}
+          </span>
+        </div>
+
+        <ul className="space-y-2 text-sm">
+          {quality.issues.length === 0 && <li className="text-slate-500">No quality issues found.</li>}
+          {quality.issues.map((issue) => (
+            <li key={issue.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(issue.id === selectedId ? null : issue.id)}
+                aria-pressed={issue.id === selectedId}
+                className={cn(
+                  "flex w-full flex-col gap-1 rounded-md border p-3 text-left transition-colors hover:bg-slate-50 dark:hover:bg-slate-800",
+                  issue.id === selectedId ? "border-blue-500" : "border-slate-200 dark:border-slate-700",
+                )}
+              >
+                <span className="flex flex-wrap items-center gap-2">
+                  <Badge variant={SEVERITY_VARIANT[issue.severity]}>{issue.severity}</Badge>
+                  <Badge variant="outline">{KIND_LABELS[issue.kind]}</Badge>
+                  <span className="text-xs text-slate-500">{Math.round(issue.share * 100)}% of rows</span>
+                </span>
+                <span className="text-slate-700 dark:text-slate-200">{issue.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="overflow-x-auto text-sm">
+          {!selected && <p className="text-slate-500">Select an issue to see examples and affected rows.</p>}
+          {selected && selected.examples.length > 0 && (
+            <div className="mb-3">
+              <p className="mb-1 font-medium">Examples</p>
+              <ul className="flex flex-wrap gap-2">
+                {selected.examples.map((example) => (
+                  <li key={example}>
+                    <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs dark:bg-slate-800">{example}</code>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {selected && rows.length > 0 && (
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead>
+                <tr>
+                  <th scope="col" className="bg-slate-50 px-3 py-2 text-left font-semibold text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+                    #
+                  </th>
+                  {shownHeaders.map((header) => (
+                    <th
+                      key={header}
+                      scope="col"
+                      className="bg-slate-50 px-3 py-2 text-left font-semibold text-slate-600 dark:bg-slate-800 dark:text-slate-300"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((rowIndex) => (
+                  <tr key={rowIndex} className="bg-amber-50 dark:bg-amber-900/20">
+                    <td className="px-3 py-2 text-slate-500">{rowIndex + 1}</td>
+                    {shownHeaders.map((header) => (
+                      <td key={header} className="whitespace-pre px-3 py-2 text-slate-700 dark:text-slate-300">
+                        {JSON.stringify(records[rowIndex]?.[header] ?? "")}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {selected && selected.count > rows.length && rows.length > 0 && (
+            <p className="mt-2 text-xs text-slate-500">
+              Showing {rows.length} of {selected.count} rows.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
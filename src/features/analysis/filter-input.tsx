@@ -0,0 +1,60 @@
+"use client"
+
+import { useMemo } from "react"
+import { FilterSyntaxError, parseFilter } from "@/lib/filter"
+import { cn } from "@/lib/utils"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface FilterInputProps {
+  value: string
+  onChange: (value: string) => void
+  columns: string[]
+}
+
+/** Returns the syntax error for `expression`, or null when it parses. */
+export function validateFilter(expression: string, columns: string[]): FilterSyntaxError | null {
+  if (!expression.trim()) return null
+  try {
+    parseFilter(expression, columns.length ? columns : undefined)
+    return null
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) return error
+    throw error
+  }
+}
+
+export function FilterInput({ value, onChange, columns }: FilterInputProps) {
+  const error = useMemo(() => validateFilter(value, columns), [value, columns])
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Label htmlFor="row-filter">Row filter</Label>
+      <Input
+        id="row-filter"
+        value={value}
+        placeholder='region = North and units > 5 and date = 2024-Q3'
+        spellCheck={false}
+        aria-invalid={error ? true : undefined}
+        aria-describedby="row-filter-help"
+        className={cn("font-mono", error && "border-red-500 focus-visible:outline-red-500")}
+        onChange={(event) => onChange(event.target.value)}
+      />
+      {error ? (
+        <div id="row-filter-help" role="alert" className="text-xs text-red-600 dark:text-red-400">
+          <pre className="overflow-x-auto font-mono">
+            {value}
+            {"\n"}
+            {" ".repeat(error.position)}^
+          </pre>
+          <p>{error.message}</p>
+        </div>
+      ) : (
+        <p id="row-filter-help" className="text-xs text-slate-500">
+          Compare with = != &gt; &gt;= &lt; &lt;=, combine with and/or/not, or use in (…), contains, and between … and ….
+          Dates accept days, months (2024-07), quarters (2024-Q3), and years.
+        </p>
+      )}
+    </div>
+  )
+}
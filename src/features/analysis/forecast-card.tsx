@@ -0,0 +1,113 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { FORECAST_METHOD_LABELS, ForecastMethod, ForecastResult } from "@/lib/forecast"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartExportMenu } from "@/components/charts/chart-export-menu"
+import { ForecastLine } from "@/components/charts/forecast-line"
+
+interface ForecastCardProps {
+  forecast: ForecastResult
+  locale?: NumberLocale
+  className?: string
+}
+
+const VISIBLE_PERIODS = 24
+
+export function ForecastCard({ forecast, locale, className }: ForecastCardProps) {
+  const [selected, setSelected] = useState<ForecastMethod>(forecast.best)
+  const method = forecast.methods.find((entry) => entry.method === selected) ?? forecast.methods[0]
+  const chartRef = useRef<HTMLDivElement>(null)
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle>Forecast</CardTitle>
+            <CardDescription>
+              Next {forecast.horizon} {forecast.granularity} period{forecast.horizon === 1 ? "" : "s"} of {forecast.measure} with a{" "}
+              {Math.round(forecast.confidence * 100)}% confidence band. Dashed segments are projected.
+            </CardDescription>
+          </div>
+          <ChartExportMenu target={chartRef} title={`${forecast.measure} forecast (${FORECAST_METHOD_LABELS[method.method]})`} />
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Forecast method">
+            {forecast.methods.map((entry) => (
+              <Button
+                key={entry.method}
+                type="button"
+                size="sm"
+                variant={entry.method === selected ? "default" : "ghost"}
+                aria-pressed={entry.method === selected}
+                onClick={() => setSelected(entry.method)}
+              >
+                {FORECAST_METHOD_LABELS[entry.method]}
+              </Button>
+            ))}
+          </div>
+          <div ref={chartRef}>
+            <ForecastLine history={forecast.history.slice(-VISIBLE_PERIODS)} forecast={method.points} locale={locale} />
+          </div>
+        </div>
+
+        <div className="space-y-4 text-sm">
+          <table className="min-w-full text-left">
+            <thead>
+              <tr className="border-b border-slate-200 text-slate-500 dark:border-slate-700">
+                <th className="py-2 pr-3 font-medium">Period</th>
+                <th className="py-2 pr-3 text-right font-medium">Forecast</th>
+                <th className="py-2 text-right font-medium">Range</th>
+              </tr>
+            </thead>
+            <tbody>
+              {method.points.map((point) => (
+                <tr key={point.period} className="border-b border-slate-100 last:border-0 dark:border-slate-800">
+                  <td className="py-2 pr-3">{point.period}</td>
+                  <td className="py-2 pr-3 text-right tabular-nums">{formatNumber(point.value, locale)}</td>
+                  <td className="py-2 text-right tabular-nums text-slate-500">
+                    {formatNumber(point.lower, locale)} – {formatNumber(point.upper, locale)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <h4 className="mb-2 font-medium">Backtest on held-out periods</h4>
+            <ul className="space-y-2">
+              {forecast.methods.map((entry) => (
+                <li
+                  key={entry.method}
+                  className="flex items-center justify-between gap-3 rounded-md border border-slate-200 p-3 dark:border-slate-700"
+                >
+                  <span>
+                    {FORECAST_METHOD_LABELS[entry.method]}
+                    {entry.method === forecast.best && (
+                      <Badge variant="success" className="ml-2">
+                        Best fit
+                      </Badge>
+                    )}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {entry.backtest
+                      ? `MAE ${formatNumber(entry.backtest.mae, locale)} · RMSE ${formatNumber(entry.backtest.rmse, locale)}${
+                          entry.backtest.mape === null ? "" : ` · MAPE ${formatNumber(entry.backtest.mape, locale)}%`
+                        }`
+                      : "Not enough history to backtest"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { Aggregation, AGGREGATIONS, NUMERIC_AGGREGATIONS } from "@/lib/aggregate"
+import { PivotSpec } from "@/lib/pivot"
+import { ColumnSchema } from "@/lib/schema"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+
+interface PivotFormProps {
+  schema: ColumnSchema[]
+  value: Partial<PivotSpec>
+  onChange: (pivot: Partial<PivotSpec>) => void
+}
+
+const SELECT_CLASS =
+  "h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+
+/** The pivot to send with the request, or undefined until both dimensions are picked. */
+export function completePivot(pivot: Partial<PivotSpec>): PivotSpec | undefined {
+  return pivot.rows && pivot.columns ? { rows: pivot.rows, columns: pivot.columns, measure: pivot.measure } : undefined
+}
+
+export function PivotForm({ schema, value, onChange }: PivotFormProps) {
+  const dimensions = schema.filter((column) => column.role === "dimension" || column.role === "time")
+  const isNumeric = (name: string) => schema.find((column) => column.name === name)?.role === "measure"
+  const measure = value.measure
+
+  return (
+    <fieldset className="flex flex-col gap-4 rounded-md border border-slate-200 p-4 dark:border-slate-700">
+      <legend className="px-1 text-sm font-medium">Pivot table</legend>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pivot-rows">Rows</Label>
+          <select
+            id="pivot-rows"
+            className={SELECT_CLASS}
+            value={value.rows ?? ""}
+            onChange={(event) => onChange({ ...value, rows: event.target.value || undefined })}
+          >
+            <option value="">None</option>
+            {dimensions.map((column) => (
+              <option key={column.name} value={column.name} disabled={column.name === value.columns}>
+                {column.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pivot-columns">Columns</Label>
+          <select
+            id="pivot-columns"
+            className={SELECT_CLASS}
+            value={value.columns ?? ""}
+            onChange={(event) => onChange({ ...value, columns: event.target.value || undefined })}
+          >
+            <option value="">None</option>
+            {dimensions.map((column) => (
+              <option key={column.name} value={column.name} disabled={column.name === value.rows}>
+                {column.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pivot-measure">Value</Label>
+          <select
+            id="pivot-measure"
+            className={SELECT_CLASS}
+            value={measure?.column ?? ""}
+            onChange={(event) => {
+              const column = event.target.value
+              if (!column) {
+                onChange({ ...value, measure: undefined })
+                return
+              }
+              const current = measure?.aggregation ?? (isNumeric(column) ? "sum" : "count")
+              const aggregation = !isNumeric(column) && NUMERIC_AGGREGATIONS.includes(current) ? "count" : current
+              onChange({ ...value, measure: { column, aggregation } })
+            }}
+          >
+            <option value="">Primary measure</option>
+            {schema.map((column) => (
+              <option key={column.name} value={column.name}>
+                {column.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pivot-aggregation">Aggregation</Label>
+          <select
+            id="pivot-aggregation"
+            className={SELECT_CLASS}
+            value={measure?.aggregation ?? "sum"}
+            disabled={!measure}
+            onChange={(event) =>
+              measure && onChange({ ...value, measure: { ...measure, aggregation: event.target.value as Aggregation } })
+            }
+          >
+            {AGGREGATIONS.map((aggregation) => (
+              <option
+                key={aggregation}
+                value={aggregation}
+                disabled={Boolean(measure) && !isNumeric(measure!.column) && NUMERIC_AGGREGATIONS.includes(aggregation)}
+              >
+                {aggregation}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {(value.rows || value.columns) && (
+        <div>
+          <Button type="button" size="sm" variant="ghost" onClick={() => onChange({})}>
+            Clear pivot
+          </Button>
+        </div>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { PivotTable } from "@/lib/pivot"
+import { cn } from "@/lib/utils"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface PivotTableCardProps {
+  pivot: PivotTable
+  locale?: NumberLocale
+  className?: string
+}
+
+const HEADER_CELL = "bg-slate-50 px-3 py-2 text-left font-semibold text-slate-600 dark:bg-slate-800 dark:text-slate-300"
+const TOTAL_CELL = "bg-slate-100 px-3 py-2 text-right font-semibold text-slate-700 dark:bg-slate-800 dark:text-slate-200"
+
+function heat(value: number | null, min: number, max: number): string | undefined {
+  if (value === null || max === min) return undefined
+  const intensity = (value - min) / (max - min)
+  return `rgba(59, 130, 246, ${(0.08 + intensity * 0.5).toFixed(2)})`
+}
+
+export function PivotTableCard({ pivot, locale, className }: PivotTableCardProps) {
+  const [shaded, setShaded] = useState(true)
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+        <div>
+          <CardTitle>Pivot table</CardTitle>
+          <CardDescription>
+            {pivot.label} by {pivot.rowDimension} and {pivot.columnDimension}, with subtotals and a grand total.
+          </CardDescription>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={shaded} onChange={(event) => setShaded(event.target.checked)} />
+          Heat shading
+        </label>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-[32rem] overflow-auto rounded-md border border-slate-200 dark:border-slate-700">
+          <table className="min-w-full border-separate border-spacing-0 text-sm">
+            <thead>
+              <tr>
+                <th scope="col" className={cn(HEADER_CELL, "sticky left-0 top-0 z-20")}>
+                  {pivot.rowDimension} \ {pivot.columnDimension}
+                </th>
+                {pivot.columnKeys.map((key) => (
+                  <th key={key} scope="col" className={cn(HEADER_CELL, "sticky top-0 z-10 text-right")}>
+                    {key}
+                  </th>
+                ))}
+                <th scope="col" className={cn(HEADER_CELL, "sticky top-0 z-10 text-right")}>
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {pivot.rowKeys.map((rowKey, rowIndex) => (
+                <tr key={rowKey}>
+                  <th scope="row" className={cn(HEADER_CELL, "sticky left-0 z-10")}>
+                    {rowKey}
+                  </th>
+                  {pivot.cells[rowIndex].map((value, columnIndex) => (
+                    <td
+                      key={pivot.columnKeys[columnIndex]}
+                      className="px-3 py-2 text-right tabular-nums text-slate-700 dark:text-slate-300"
+                      style={shaded ? { backgroundColor: heat(value, pivot.min, pivot.max) } : undefined}
+                    >
+                      {value === null ? "–" : formatNumber(value, locale)}
+                    </td>
+                  ))}
+                  <td className={TOTAL_CELL}>{formatNumber(pivot.rowTotals[rowIndex], locale)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <th scope="row" className={cn(TOTAL_CELL, "sticky bottom-0 left-0 z-20 text-left")}>
+                  Total
+                </th>
+                {pivot.columnTotals.map((total, columnIndex) => (
+                  <td key={pivot.columnKeys[columnIndex]} className={cn(TOTAL_CELL, "sticky bottom-0 z-10")}>
+                    {formatNumber(total, locale)}
+                  </td>
+                ))}
+                <td className={cn(TOTAL_CELL, "sticky bottom-0 z-10")}>{formatNumber(pivot.grandTotal, locale)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
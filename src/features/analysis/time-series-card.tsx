@@ -0,0 +1,67 @@
+"use client"
+
+import { useRef } from "react"
+import { formatNumber, NumberLocale } from "@/lib/numbers"
+import { TimeSeriesResult } from "@/lib/time-series"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartExportMenu } from "@/components/charts/chart-export-menu"
+import { HorizontalBars } from "@/components/charts/horizontal-bars"
+
+interface TimeSeriesCardProps {
+  series: TimeSeriesResult
+  locale?: NumberLocale
+  className?: string
+}
+
+const VISIBLE_PERIODS = 12
+
+export function TimeSeriesCard({ series, locale, className }: TimeSeriesCardProps) {
+  const primaryMeasure = series.measures[0]
+  const changes = [...series.periodOverPeriod, ...series.yearOverYear]
+  const chartRef = useRef<HTMLDivElement>(null)
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle>Trend over time</CardTitle>
+            <CardDescription>
+              {primaryMeasure} per {series.granularity} using {series.timeColumn}.
+              {series.skippedRows > 0 && ` ${series.skippedRows} rows without a valid date were skipped.`}
+            </CardDescription>
+          </div>
+          <ChartExportMenu target={chartRef} title={`${primaryMeasure} per ${series.granularity}`} />
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <div ref={chartRef} className="overflow-x-auto">
+          <HorizontalBars
+            data={series.points.slice(-VISIBLE_PERIODS).map((point) => ({
+              label: point.period,
+              value: point.values[primaryMeasure],
+            }))}
+            locale={locale}
+          />
+        </div>
+        <ul className="space-y-2 text-sm text-slate-700 dark:text-slate-200">
+          {changes.length === 0 && <li className="text-slate-500">Only one period detected, nothing to compare yet.</li>}
+          {changes.map((change, index) => (
+            <li
+              key={`${change.measure}-${change.comparedTo}-${index}`}
+              className="flex items-center justify-between gap-3 rounded-md border border-slate-200 p-3 dark:border-slate-700"
+            >
+              <span>
+                {change.measure}: {change.period} vs. {change.comparedTo}
+              </span>
+              <Badge variant={change.delta >= 0 ? "success" : "warning"}>
+                {change.percent === null ? formatNumber(change.delta, locale) : `${change.percent > 0 ? "+" : ""}${change.percent}%`}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
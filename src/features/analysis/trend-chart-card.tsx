@@ -0,0 +1,143 @@
+"use client"
+
+import { useMemo, useRef } from "react"
+import { measureLabel } from "@/lib/aggregate"
+import { AnalysisResult, DataRecord } from "@/lib/analysis"
+import { ChartSeries } from "@/lib/chart-scale"
+import { toNumber } from "@/lib/numbers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { ChartExportMenu } from "@/components/charts/chart-export-menu"
+import { ColumnChart } from "@/components/charts/column-chart"
+import { DonutChart } from "@/components/charts/donut-chart"
+import { HorizontalBars } from "@/components/charts/horizontal-bars"
+import { LineChart } from "@/components/charts/line-chart"
+import { ScatterPlot } from "@/components/charts/scatter-plot"
+import { StackedBars } from "@/components/charts/stacked-bars"
+import {
+  TREND_CHART_LABELS,
+  TREND_CHART_TYPES,
+  TrendChartType,
+  useChartPreferencesStore,
+} from "@/stores/chart-preferences-store"
+
+interface TrendChartCardProps {
+  result: AnalysisResult
+  /** The analyzed rows, plotted one dot each by the scatter chart. */
+  records: DataRecord[]
+  className?: string
+}
+
+const MAX_SCATTER_POINTS = 1000
+
+const DESCRIPTIONS: Record<TrendChartType, string> = {
+  bars: "Highest contributing segments.",
+  column: "Highest contributing segments.",
+  line: "Measures over time, or across segments when there is no date column.",
+  area: "Measures over time, or across segments when there is no date column.",
+  donut: "Each segment's share of the total.",
+  scatter: "The most strongly correlated pair of measures, one dot per row.",
+  stacked: "The pivot table's rows split by its columns.",
+}
+
+export function TrendChartCard({ result, records, className }: TrendChartCardProps) {
+  const preferred = useChartPreferencesStore((state) => state.trendChart)
+  const setTrendChart = useChartPreferencesStore((state) => state.setTrendChart)
+  const chartRef = useRef<HTMLDivElement>(null)
+
+  const pair = result.correlations?.pairs[0] ?? null
+  const unavailable: Partial<Record<TrendChartType, string>> = {
+    ...(pair ? {} : { scatter: "needs two numeric measures" }),
+    ...(result.pivot ? {} : { stacked: "needs a pivot table" }),
+  }
+  // A remembered type this dataset cannot draw falls back to bars without forgetting the preference.
+  const chartType = unavailable[preferred] ? "bars" : preferred
+
+  const line = useMemo((): { labels: string[]; series: ChartSeries[] } => {
+    const { timeSeries } = result
+    if (timeSeries?.points.length) {
+      return {
+        labels: timeSeries.points.map((point) => point.period),
+        series: timeSeries.measures.map((measure) => ({
+          name: measure,
+          values: timeSeries.points.map((point) => point.values[measure] ?? null),
+        })),
+      }
+    }
+    const measure = result.spec.measures[0]
+    return {
+      labels: result.trends.map((point) => point.label),
+      series: [{ name: measure ? measureLabel(measure) : "Rows", values: result.trends.map((point) => point.value) }],
+    }
+  }, [result])
+
+  const scatter = useMemo(() => {
+    if (!pair) return []
+    const [labelColumn] = result.spec.groupBy
+    const points: { x: number; y: number; label?: string }[] = []
+    for (const record of records) {
+      const x = toNumber(record[pair.a])
+      const y = toNumber(record[pair.b])
+      if (x === null || y === null) continue
+      points.push({ x, y, label: labelColumn ? String(record[labelColumn] ?? "") : undefined })
+      if (points.length >= MAX_SCATTER_POINTS) break
+    }
+    return points
+  }, [pair, records, result.spec.groupBy])
+
+  const stacked = useMemo((): { categories: string[]; series: ChartSeries[] } | null => {
+    const { pivot } = result
+    if (!pivot) return null
+    return {
+      categories: pivot.rowKeys,
+      series: pivot.columnKeys.map((key, column) => ({ name: key, values: pivot.cells.map((row) => row[column]) })),
+    }
+  }, [result])
+
+  const locale = result.locale
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle>Trend chart</CardTitle>
+            <CardDescription>{DESCRIPTIONS[chartType]}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="trend-chart-type" className="sr-only">
+              Chart type
+            </Label>
+            <select
+              id="trend-chart-type"
+              className="h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:border-slate-700 dark:bg-slate-900"
+              value={chartType}
+              onChange={(event) => setTrendChart(event.target.value as TrendChartType)}
+            >
+              {TREND_CHART_TYPES.map((type) => (
+                <option key={type} value={type} disabled={Boolean(unavailable[type])}>
+                  {unavailable[type] ? `${TREND_CHART_LABELS[type]} (${unavailable[type]})` : TREND_CHART_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <ChartExportMenu target={chartRef} title={`Trend chart (${TREND_CHART_LABELS[chartType]})`} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div ref={chartRef} className="overflow-x-auto">
+          {chartType === "bars" && <HorizontalBars data={result.trends} locale={locale} />}
+          {chartType === "column" && <ColumnChart data={result.trends} locale={locale} />}
+          {(chartType === "line" || chartType === "area") && (
+            <LineChart labels={line.labels} series={line.series} area={chartType === "area"} locale={locale} />
+          )}
+          {chartType === "donut" && <DonutChart data={result.trends} locale={locale} />}
+          {chartType === "scatter" && pair && <ScatterPlot points={scatter} xLabel={pair.a} yLabel={pair.b} locale={locale} />}
+          {chartType === "stacked" && stacked && (
+            <StackedBars categories={stacked.categories} series={stacked.series} locale={locale} />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -30,9 +30,23 @@ export function ChatMessageItem({ message }: ChatMessageItemProps) {
       <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
         <Badge variant={isUser ? "default" : message.role === "tool" ? "warning" : "outline"}>{message.label ?? message.role}</Badge>
         <span>{new Date(message.createdAt).toLocaleTimeString()}</span>
+        {message.stopped && <span>· Stopped</span>}
       </div>
       <div className={bubbleStyles}>
-        <Markdown content={previewContent} className="prose prose-sm max-w-none dark:prose-invert" />
+        {message.toolCalls?.length ? (
+          <ul className="space-y-2">
+            {message.toolCalls.map((call, index) => (
+              <li key={`${call.tool}-${index}`} className="space-y-1">
+                <code className="block text-xs text-slate-600 dark:text-slate-300">
+                  {call.tool}({JSON.stringify(call.arguments)})
+                </code>
+                <p className={cn(call.failed && "text-red-600 dark:text-red-400")}>{call.output}</p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <Markdown content={previewContent} className="prose prose-sm max-w-none dark:prose-invert" />
+        )}
         {shouldTruncate && (
           <div className="mt-2 text-right">
             <Button variant="ghost" size="sm" onClick={() => setExpanded((current) => !current)}>
@@ -2,8 +2,9 @@
 
 import { FormEvent, useEffect, useMemo, useState, useRef, useCallback } from "react"
 import { useRouter } from "next/navigation"
-import { ChatMessage, ChatResponse } from "./types"
+import { ChatMessage, ChatStreamEvent, ChatUsage } from "./types"
 import { ChatMessageItem } from "./chat-message-item"
+import { ConversationSidebar } from "./conversation-sidebar"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
@@ -12,9 +13,10 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { ErrorBoundary } from "@/components/error-boundary"
 import { useAuthStore } from "@/stores/auth-store"
+import { loadConversations, useChatStore } from "@/stores/chat-store"
 import { useHydrated } from "@/hooks/use-hydrated"
 import { useOfflineDetection } from "@/hooks/use-offline"
-import { fetchWithTimeout, getErrorMessage, debounce } from "@/lib/request-utils"
+import { fetchWithTimeout, getErrorMessage, debounce, readJsonLines } from "@/lib/request-utils"
 
 const MODELS = [
   { id: "creative-pro", name: "Creative Pro" },
@@ -22,10 +24,11 @@ const MODELS = [
   { id: "analytics", name: "Analyst" },
 ]
 
-interface UsageMetrics {
-  totalTokens: number
-  model: string
-  latencyMs: number
+/** How often tokens buffered in the panel are written to the store while a step streams. */
+const TOKEN_COMMIT_MS = 1000
+
+function formatToolCall(tool: string, output: string) {
+  return `Tool(${tool}) => ${output}`
 }
 
 export function ChatPanel() {
@@ -41,22 +44,46 @@ export function ChatPanel() {
   const token = useAuthStore((state) => state.token)
   const incrementChat = useAuthStore((state) => state.incrementChat)
 
-  const [messages, setMessages] = useState<ChatMessage[]>(() => [
-    {
-      id: "welcome",
-      role: "assistant",
-      label: "Guide",
-      content: "Hello! I combine a creative model with an analytical reviewer. Ask for planning help, summaries, or try a calculator/weather question to trigger tool usage.",
-      createdAt: Date.now(),
-    },
-  ])
+  const storeReady = useChatStore((state) => state.hydrated)
+  const conversations = useChatStore((state) => state.conversations)
+  const activeId = useChatStore((state) => state.activeId)
+  const createConversation = useChatStore((state) => state.createConversation)
+  const selectConversation = useChatStore((state) => state.selectConversation)
+  const setConversationModel = useChatStore((state) => state.setModel)
+  const addMessage = useChatStore((state) => state.addMessage)
+  const updateMessage = useChatStore((state) => state.updateMessage)
+  const clearMessages = useChatStore((state) => state.clearMessages)
+  const recordUsage = useChatStore((state) => state.recordUsage)
+  const conversation = conversations.find((entry) => entry.id === activeId) ?? null
+
+  // The greeting is shown at the top of every conversation but never saved with it.
+  const [welcome] = useState<ChatMessage>(() => ({
+    id: "welcome",
+    role: "assistant",
+    label: "Guide",
+    content: "Hello! I combine a creative model with an analytical reviewer. Ask for planning help, summaries, or try a calculator/weather question to trigger tool usage.",
+    createdAt: Date.now(),
+  }))
+  // Tokens of the streaming step not yet committed to the store, so each token does not rewrite the saved conversations.
+  const [buffered, setBuffered] = useState<{ id: string; text: string } | null>(null)
+  const messages = useMemo(
+    () =>
+      [welcome, ...(conversation?.messages ?? [])].map((message) =>
+        message.id === buffered?.id ? { ...message, content: message.content + buffered.text } : message,
+      ),
+    [welcome, conversation, buffered],
+  )
+  const model = conversation?.model ?? MODELS[1].id
   const [draft, setDraft] = useState("")
-  const [model, setModel] = useState(MODELS[1].id)
   const [isSending, setIsSending] = useState(false)
+  // The conversation a reply is streaming into, which may not be the one on screen.
+  const [sendingTo, setSendingTo] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const [usage, setUsage] = useState<UsageMetrics | null>(null)
+  const [usage, setUsage] = useState<ChatUsage | null>(null)
   const [pendingMessage, setPendingMessage] = useState<string | null>(null)
   const [retryCount, setRetryCount] = useState(0)
+  // The step receiving tokens; the "Thinking…" indicator shows until the first one starts.
+  const [streamingId, setStreamingId] = useState<string | null>(null)
   
   const abortControllerRef = useRef<AbortController | null>(null)
 
@@ -66,6 +93,27 @@ export function ChatPanel() {
     }
   }, [hydrated, token, router])
 
+  useEffect(() => {
+    loadConversations()
+  }, [])
+
+  // Open the most recent conversation, or start one, once saved conversations have loaded.
+  useEffect(() => {
+    if (!storeReady || conversation) return
+    if (conversations.length) {
+      selectConversation(conversations.reduce((latest, entry) => (entry.updatedAt > latest.updatedAt ? entry : latest)).id)
+    } else {
+      createConversation(MODELS[1].id)
+    }
+  }, [storeReady, conversation, conversations, selectConversation, createConversation])
+
+  useEffect(() => {
+    setError(null)
+    setUsage(null)
+    setPendingMessage(null)
+    setRetryCount(0)
+  }, [activeId])
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -75,11 +123,12 @@ export function ChatPanel() {
     }
   }, [])
 
-  const canSubmit = draft.trim().length > 1 && !isSending && isOnline
+  const canSubmit = draft.trim().length > 1 && !isSending && isOnline && Boolean(conversation)
 
-  const sendToModel = async (content: string, history: ChatMessage[]) => {
+  const sendToModel = async (conversationId: string, content: string, history: ChatMessage[]) => {
     setPendingMessage(content)
     setIsSending(true)
+    setSendingTo(conversationId)
     setError(null)
 
     // Cancel any existing request
@@ -88,54 +137,82 @@ export function ChatPanel() {
     }
     
     // Create new abort controller
-    abortControllerRef.current = new AbortController()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
 
+    const updateStep = (id: string, update: (message: ChatMessage) => Partial<ChatMessage>) => {
+      updateMessage(conversationId, id, update)
+    }
+
+    let pending = null as { id: string; text: string } | null
+    let commitTimer: ReturnType<typeof setTimeout> | null = null
+    // Committed when the step ends, before a tool call edits it, and every TOKEN_COMMIT_MS while it streams.
+    const commitTokens = () => {
+      if (commitTimer) clearTimeout(commitTimer)
+      commitTimer = null
+      if (!pending) return
+      const { id, text } = pending
+      pending = null
+      updateStep(id, (message) => ({ content: message.content + text }))
+      setBuffered(null)
+    }
+
+    let currentStep: string | null = null
     try {
       const response = await fetchWithTimeout(
         "/api/chat",
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ message: content, history, model }),
+          body: JSON.stringify({ message: content, history, model, stream: true }),
         },
         {
           timeout: 45000, // 45 seconds for chat
-          signal: abortControllerRef.current.signal,
+          signal: controller.signal,
           retries: 2,
         }
       )
 
-      const payload: ChatResponse | { message: string } = await response.json()
-
       if (!response.ok) {
-        throw new Error((payload as { message?: string }).message ?? "Unable to respond")
+        const payload: { message?: string } = await response.json()
+        throw new Error(payload.message ?? "Unable to respond")
       }
 
-      const chatResponse = payload as ChatResponse
-
-      for (const step of chatResponse.steps) {
-        await new Promise<void>((resolve) => {
-          setTimeout(() => {
-            setMessages((current) => [
-              ...current,
-              {
-                id: step.id,
-                role: step.role,
-                label: step.label,
-                content: step.content,
-                createdAt: Date.now(),
-              },
-            ])
-            resolve()
-          }, 280)
-        })
+      for await (const event of readJsonLines<ChatStreamEvent>(response)) {
+        if (event.type === "step-start") {
+          commitTokens()
+          currentStep = event.id
+          setStreamingId(event.id)
+          addMessage(conversationId, { id: event.id, role: event.role, label: event.label, content: "", createdAt: Date.now() })
+        } else if (event.type === "token") {
+          if (pending && pending.id !== event.id) commitTokens()
+          pending = { id: event.id, text: (pending?.text ?? "") + event.delta }
+          setBuffered(pending)
+          commitTimer ??= setTimeout(commitTokens, TOKEN_COMMIT_MS)
+        } else if (event.type === "tool-call") {
+          commitTokens()
+          const { type, id, ...call } = event
+          const line = formatToolCall(call.tool, call.output)
+          updateStep(id, (message) => ({
+            content: message.content ? `${message.content}\n${line}` : line,
+            toolCalls: [...(message.toolCalls ?? []), call],
+          }))
+        } else if (event.type === "usage") {
+          setUsage(event.usage)
+          recordUsage(conversationId, event.usage)
+        }
       }
 
-      setUsage(chatResponse.usage)
       incrementChat()
       setPendingMessage(null)
       setRetryCount(0) // Reset retry count on success
     } catch (caughtError) {
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep whatever streamed in and mark the step it was cut off in.
+        if (currentStep) updateStep(currentStep, () => ({ stopped: true }))
+        setPendingMessage(null)
+        return
+      }
       const errorMessage = getErrorMessage(caughtError)
       setError(errorMessage)
       setDraft(content)
@@ -145,15 +222,22 @@ export function ChatPanel() {
         setRetryCount(prev => prev + 1)
       }
     } finally {
+      commitTokens()
       setIsSending(false)
-      abortControllerRef.current = null
+      setSendingTo(null)
+      setStreamingId(null)
+      if (abortControllerRef.current === controller) abortControllerRef.current = null
     }
   }
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault()
     const trimmed = draft.trim()
-    if (!trimmed) return
+    if (!trimmed || !conversation) return
 
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
@@ -163,16 +247,15 @@ export function ChatPanel() {
       createdAt: Date.now(),
     }
 
-    const nextHistory = [...messages, userMessage]
-    setMessages(nextHistory)
+    addMessage(conversation.id, userMessage)
     setDraft("")
-    await sendToModel(trimmed, nextHistory)
+    await sendToModel(conversation.id, trimmed, [...messages, userMessage])
   }
 
   const retry = useCallback(() => {
-    if (!pendingMessage || retryCount >= 3) return
-    sendToModel(pendingMessage, messages)
-  }, [pendingMessage, retryCount, messages])
+    if (!pendingMessage || !conversation || retryCount >= 3) return
+    sendToModel(conversation.id, pendingMessage, messages)
+  }, [pendingMessage, conversation, retryCount, messages])
 
   // Debounced draft update for better performance
   const debouncedDraftUpdate = useCallback(
@@ -184,161 +267,184 @@ export function ChatPanel() {
 
   const historyCount = useMemo(() => messages.filter((message) => message.role !== "system").length, [messages])
 
+  if (!storeReady) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-slate-500" role="status">
+        <span className="h-3 w-3 animate-spin rounded-full border-2 border-current border-t-transparent" aria-hidden />
+        Loading conversations…
+      </p>
+    )
+  }
+
   return (
     <ErrorBoundary>
-      <div className="flex h-full flex-col gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle>Conversation</CardTitle>
-            <CardDescription>
-              Model chaining demonstrates creative ideation followed by analytical refinement. Each assistant reply appears in stages.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 rounded-md bg-slate-50 p-4 text-sm dark:bg-slate-900/50">
-              <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4">
-                <div>
-                  <p className="font-medium text-slate-700 dark:text-slate-200">Active model</p>
-                  <p className="text-slate-500">{MODELS.find((item) => item.id === model)?.name}</p>
+      <div className="grid gap-6 lg:grid-cols-[18rem_minmax(0,1fr)]">
+        <ConversationSidebar model={model} className="self-start" />
+        <div className="flex h-full flex-col gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>{conversation?.title ?? "Conversation"}</CardTitle>
+              <CardDescription>
+                Model chaining demonstrates creative ideation followed by analytical refinement. Each assistant reply streams in as it is written.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 rounded-md bg-slate-50 p-4 text-sm dark:bg-slate-900/50">
+                <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4">
+                  <div>
+                    <p className="font-medium text-slate-700 dark:text-slate-200">Active model</p>
+                    <p className="text-slate-500">{MODELS.find((item) => item.id === model)?.name}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!isOnline && (
+                      <Badge variant="warning" className="text-xs">
+                        Offline
+                      </Badge>
+                    )}
+                    {wasOffline && (
+                      <Badge variant="outline" className="text-xs">
+                        Back online
+                      </Badge>
+                    )}
+                  </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  {!isOnline && (
-                    <Badge variant="warning" className="text-xs">
-                      Offline
-                    </Badge>
-                  )}
-                  {wasOffline && (
-                    <Badge variant="outline" className="text-xs">
-                      Back online
-                    </Badge>
-                  )}
+                <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full sm:w-auto">
+                  <label className="text-sm font-medium" htmlFor="model-select">
+                    Switch model
+                  </label>
+                  <select
+                    id="model-select"
+                    className="h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:bg-slate-900 dark:border-slate-700 w-full sm:w-auto"
+                    value={model}
+                    onChange={(event) => conversation && setConversationModel(conversation.id, event.target.value)}
+                  >
+                    {MODELS.map((entry) => (
+                      <option key={entry.id} value={entry.id}>
+                        {entry.name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
-              <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full sm:w-auto">
-                <label className="text-sm font-medium" htmlFor="model-select">
-                  Switch model
-                </label>
-                <select
-                  id="model-select"
-                  className="h-10 rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-blue-500 dark:bg-slate-900 dark:border-slate-700 w-full sm:w-auto"
-                  value={model}
-                  onChange={(event) => setModel(event.target.value)}
-                >
-                  {MODELS.map((entry) => (
-                    <option key={entry.id} value={entry.id}>
-                      {entry.name}
-                    </option>
-                  ))}
-                </select>
+            </CardContent>
+          <CardFooter className="flex flex-col gap-4">
+            {usage && (
+              <div className="flex flex-wrap items-center gap-3 text-sm text-slate-500">
+                <Badge variant="outline">{usage.model}</Badge>
+                <span>{usage.totalTokens} tokens</span>
+                <span>{usage.latencyMs} ms</span>
+                <span>{historyCount} turns</span>
               </div>
-            </div>
-          </CardContent>
-        <CardFooter className="flex flex-col gap-4">
-          {usage && (
-            <div className="flex flex-wrap items-center gap-3 text-sm text-slate-500">
-              <Badge variant="outline">{usage.model}</Badge>
-              <span>{usage.totalTokens} tokens</span>
-              <span>{usage.latencyMs} ms</span>
-              <span>{historyCount} turns</span>
-            </div>
-          )}
-          <form className="flex w-full flex-col gap-3" onSubmit={handleSubmit} aria-label="Send a chat message">
-            <Label htmlFor="chat-input">Message</Label>
-            <Textarea
-              id="chat-input"
-              required
-              aria-required
-              placeholder="Ask about sales trends or request a quick calculation."
-              value={draft}
-              onChange={(event) => setDraft(event.target.value)}
-              onKeyDown={(event) => {
-                if (event.key === "Enter" && !event.shiftKey) {
-                  if (canSubmit) {
-                    event.preventDefault()
-                    handleSubmit(event)
+            )}
+            {conversation && conversation.usage.replies > 0 && (
+              <p className="w-full text-xs text-slate-500">
+                This conversation: {conversation.usage.totalTokens.toLocaleString()} tokens over {conversation.usage.replies}{" "}
+                {conversation.usage.replies === 1 ? "reply" : "replies"}
+              </p>
+            )}
+            <form className="flex w-full flex-col gap-3" onSubmit={handleSubmit} aria-label="Send a chat message">
+              <Label htmlFor="chat-input">Message</Label>
+              <Textarea
+                id="chat-input"
+                required
+                aria-required
+                placeholder="Ask about sales trends or request a quick calculation."
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter" && !event.shiftKey) {
+                    if (canSubmit) {
+                      event.preventDefault()
+                      handleSubmit(event)
+                    }
                   }
-                }
-              }}
-              className="min-h-[80px] resize-y"
-            />
-            <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-3">
-              <p className="text-xs text-slate-500">Enter to send · Shift+Enter for new line</p>
-              <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
-                <Button 
-                  type="submit" 
-                  isLoading={isSending} 
-                  disabled={!canSubmit}
-                  className="w-full sm:w-auto"
-                >
-                  {isSending ? "Sending..." : "Send"}
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setMessages((current) => current.slice(0, 1))}
-                  disabled={messages.length <= 1 || isSending}
-                  className="w-full sm:w-auto"
-                >
-                  Clear conversation
-                </Button>
-              </div>
-            </div>
-          </form>
-          {error && (
-            <Alert variant="error">
-              <div className="space-y-2">
-                <p className="font-medium">{error}</p>
-                {error.toLowerCase().includes("timeout") && (
-                  <p className="text-sm">The request took too long. Try a shorter message or different model.</p>
-                )}
-                {error.toLowerCase().includes("network") && (
-                  <p className="text-sm">Check your internet connection and try again.</p>
-                )}
-                {!isOnline && (
-                  <p className="text-sm">You're currently offline. Messages will be queued until you're back online.</p>
-                )}
+                }}
+                className="min-h-[80px] resize-y"
+              />
+              <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-3">
+                <p className="text-xs text-slate-500">Enter to send · Shift+Enter for new line</p>
                 <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
-                  {pendingMessage && retryCount < 3 && (
-                    <Button 
-                      size="sm" 
-                      variant="outline" 
-                      onClick={retry}
-                      disabled={!pendingMessage || isSending}
-                      className="w-full sm:w-auto"
-                    >
-                      Retry ({3 - retryCount} left)
+                  <Button 
+                    type="submit" 
+                    isLoading={isSending} 
+                    disabled={!canSubmit}
+                    className="w-full sm:w-auto"
+                  >
+                    {isSending ? "Sending..." : "Send"}
+                  </Button>
+                  {isSending && (
+                    <Button type="button" variant="outline" onClick={handleStop} className="w-full sm:w-auto">
+                      Stop
                     </Button>
                   )}
                   <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => setError(null)}
+                    type="button"
+                    variant="outline"
+                    onClick={() => conversation && clearMessages(conversation.id)}
+                    disabled={!conversation?.messages.length || isSending}
                     className="w-full sm:w-auto"
                   >
-                    Dismiss
+                    Clear conversation
                   </Button>
                 </div>
               </div>
-            </Alert>
-          )}
-        </CardFooter>
-      </Card>
+            </form>
+            {error && (
+              <Alert variant="error">
+                <div className="space-y-2">
+                  <p className="font-medium">{error}</p>
+                  {error.toLowerCase().includes("timeout") && (
+                    <p className="text-sm">The request took too long. Try a shorter message or different model.</p>
+                  )}
+                  {error.toLowerCase().includes("network") && (
+                    <p className="text-sm">Check your internet connection and try again.</p>
+                  )}
+                  {!isOnline && (
+                    <p className="text-sm">You're currently offline. Messages will be queued until you're back online.</p>
+                  )}
+                  <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
+                    {pendingMessage && retryCount < 3 && (
+                      <Button 
+                        size="sm" 
+                        variant="outline" 
+                        onClick={retry}
+                        disabled={!pendingMessage || isSending}
+                        className="w-full sm:w-auto"
+                      >
+                        Retry ({3 - retryCount} left)
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setError(null)}
+                      className="w-full sm:w-auto"
+                    >
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+              </Alert>
+            )}
+          </CardFooter>
+        </Card>
 
-        <section aria-label="Conversation history" className="flex-1 overflow-hidden rounded-lg border border-slate-200 bg-white dark:border-slate-800 dark:bg-slate-900">
-          <div className="flex h-full max-h-[60vh] flex-col gap-4 overflow-y-auto p-6" role="log">
-            <ol className="flex flex-col gap-4">
-              {messages.map((message) => (
-                <ChatMessageItem key={message.id} message={message} />
-              ))}
-              {isSending && (
-                <li className="flex items-center gap-2 text-sm text-slate-500" aria-live="assertive">
-                  <span className="h-3 w-3 animate-spin rounded-full border-2 border-current border-t-transparent" aria-hidden />
-                  Thinking…
-                </li>
-              )}
-            </ol>
-          </div>
-        </section>
+          <section aria-label="Conversation history" className="flex-1 overflow-hidden rounded-lg border border-slate-200 bg-white dark:border-slate-800 dark:bg-slate-900">
+            <div className="flex h-full max-h-[60vh] flex-col gap-4 overflow-y-auto p-6" role="log">
+              <ol className="flex flex-col gap-4">
+                {messages.map((message) => (
+                  <ChatMessageItem key={message.id} message={message} />
+                ))}
+                {isSending && sendingTo === activeId && !streamingId && (
+                  <li className="flex items-center gap-2 text-sm text-slate-500" aria-live="assertive">
+                    <span className="h-3 w-3 animate-spin rounded-full border-2 border-current border-t-transparent" aria-hidden />
+                    Thinking…
+                  </li>
+                )}
+              </ol>
+            </div>
+          </section>
+        </div>
       </div>
     </ErrorBoundary>
   )
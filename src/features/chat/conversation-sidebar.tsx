@@ -0,0 +1,177 @@
+"use client"
+
+import { FormEvent, useMemo, useState } from "react"
+import { searchConversations } from "@/lib/conversations"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useChatStore } from "@/stores/chat-store"
+
+interface ConversationSidebarProps {
+  /** Model for conversations started from the sidebar. */
+  model: string
+  className?: string
+}
+
+function describeUpdated(timestamp: number): string {
+  const date = new Date(timestamp)
+  if (date.toDateString() !== new Date().toDateString()) return date.toLocaleDateString()
+  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+}
+
+export function ConversationSidebar({ model, className }: ConversationSidebarProps) {
+  const conversations = useChatStore((state) => state.conversations)
+  const activeId = useChatStore((state) => state.activeId)
+  const createConversation = useChatStore((state) => state.createConversation)
+  const selectConversation = useChatStore((state) => state.selectConversation)
+  const renameConversation = useChatStore((state) => state.renameConversation)
+  const togglePinned = useChatStore((state) => state.togglePinned)
+  const deleteConversation = useChatStore((state) => state.deleteConversation)
+
+  const [query, setQuery] = useState("")
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null)
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null)
+
+  const visible = useMemo(() => searchConversations(conversations, query), [conversations, query])
+
+  const handleRename = (event: FormEvent) => {
+    event.preventDefault()
+    if (!editing) return
+    renameConversation(editing.id, editing.title)
+    setEditing(null)
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle>Conversations</CardTitle>
+          <Button type="button" size="sm" onClick={() => createConversation(model)}>
+            New
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="conversation-search" className="sr-only">
+            Search conversations
+          </Label>
+          <Input
+            id="conversation-search"
+            type="search"
+            placeholder="Search conversations"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+          />
+        </div>
+        {visible.length === 0 && (
+          <p className="text-sm text-slate-500">{query.trim() ? "No conversations match." : "No conversations yet."}</p>
+        )}
+        <ul className="flex max-h-[60vh] flex-col gap-1 overflow-y-auto" aria-label="Saved conversations">
+          {visible.map((conversation) => {
+            const isActive = conversation.id === activeId
+            if (editing?.id === conversation.id) {
+              return (
+                <li key={conversation.id}>
+                  <form
+                    className="flex flex-col gap-2 rounded-md border border-slate-200 p-2 dark:border-slate-700"
+                    onSubmit={handleRename}
+                  >
+                    <Label htmlFor={`rename-${conversation.id}`} className="sr-only">
+                      Conversation title
+                    </Label>
+                    <Input
+                      id={`rename-${conversation.id}`}
+                      value={editing.title}
+                      autoFocus
+                      onChange={(event) => setEditing({ id: conversation.id, title: event.target.value })}
+                      onKeyDown={(event) => {
+                        if (event.key === "Escape") setEditing(null)
+                      }}
+                    />
+                    <div className="flex gap-2">
+                      <Button type="submit" size="sm" disabled={!editing.title.trim()}>
+                        Save
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </li>
+              )
+            }
+            return (
+              <li
+                key={conversation.id}
+                className={cn(
+                  "rounded-md border border-transparent p-2 text-sm",
+                  isActive
+                    ? "border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950/40"
+                    : "hover:bg-slate-100 dark:hover:bg-slate-800",
+                )}
+              >
+                <button
+                  type="button"
+                  className="flex w-full flex-col items-start gap-0.5 text-left"
+                  aria-current={isActive ? "true" : undefined}
+                  onClick={() => selectConversation(conversation.id)}
+                >
+                  <span className="flex w-full items-center gap-1 font-medium text-slate-800 dark:text-slate-100">
+                    {conversation.pinned && (
+                      <span aria-label="Pinned" className="text-xs text-amber-600">
+                        ★
+                      </span>
+                    )}
+                    <span className="truncate">{conversation.title}</span>
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {`${describeUpdated(conversation.updatedAt)} · ${conversation.messages.length} message${conversation.messages.length === 1 ? "" : "s"}`}
+                  </span>
+                </button>
+                {confirmingDelete === conversation.id ? (
+                  <div className="mt-2 flex items-center gap-2 text-xs">
+                    <span className="text-slate-600 dark:text-slate-300">Delete this conversation?</span>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => {
+                        deleteConversation(conversation.id)
+                        setConfirmingDelete(null)
+                      }}
+                    >
+                      Delete
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setConfirmingDelete(null)}>
+                      Keep
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="mt-1 flex gap-1 text-xs">
+                    <Button type="button" size="sm" variant="ghost" onClick={() => togglePinned(conversation.id)}>
+                      {conversation.pinned ? "Unpin" : "Pin"}
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setEditing({ id: conversation.id, title: conversation.title })}
+                    >
+                      Rename
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setConfirmingDelete(conversation.id)}>
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
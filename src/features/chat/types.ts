@@ -1,3 +1,5 @@
+import type { ToolCall } from "@/lib/chat-tools"
+
 export type ChatRole = "user" | "assistant" | "system" | "tool"
 
 export interface ChatMessage {
@@ -6,6 +8,16 @@ export interface ChatMessage {
   content: string
   label?: string
   createdAt: number
+  /** Set when the reply was stopped before it finished streaming. */
+  stopped?: boolean
+  /** The structured calls behind a tool step's text. */
+  toolCalls?: ToolCall[]
+}
+
+export interface ChatUsage {
+  totalTokens: number
+  model: string
+  latencyMs: number
 }
 
 export interface ChatResponse {
@@ -14,10 +26,14 @@ export interface ChatResponse {
     role: ChatRole
     label?: string
     content: string
+    toolCalls?: ToolCall[]
   }[]
-  usage: {
-    totalTokens: number
-    model: string
-    latencyMs: number
-  }
+  usage: ChatUsage
 }
+
+/** One line of a streamed `/api/chat` reply; tokens and tool calls add to the step started with the same id. */
+export type ChatStreamEvent =
+  | { type: "step-start"; id: string; role: ChatRole; label?: string }
+  | { type: "token"; id: string; delta: string }
+  | ({ type: "tool-call"; id: string } & ToolCall)
+  | { type: "usage"; usage: ChatUsage }
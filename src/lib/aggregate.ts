@@ -0,0 +1,142 @@
+import { toNumber } from "./numbers"
+import { CellValue } from "./schema"
+
+export type Aggregation = "sum" | "avg" | "count" | "distinct" | "min" | "max" | "median"
+
+export const AGGREGATIONS: Aggregation[] = ["sum", "avg", "count", "distinct", "min", "max", "median"]
+
+export const NUMERIC_AGGREGATIONS: Aggregation[] = ["sum", "avg", "min", "max", "median"]
+
+export const AGGREGATION_LABELS: Record<Aggregation, string> = {
+  sum: "Total",
+  avg: "Average",
+  count: "Count",
+  distinct: "Distinct",
+  min: "Minimum",
+  max: "Maximum",
+  median: "Median",
+}
+
+export interface MeasureSpec {
+  column: string
+  aggregation: Aggregation
+}
+
+export type SortOrder = "desc" | "asc" | "label"
+
+export const SORT_ORDERS: SortOrder[] = ["desc", "asc", "label"]
+
+export interface GroupedRow {
+  key: string[]
+  label: string
+  values: number[]
+  rowCount: number
+}
+
+export const OTHER_LABEL = "Other"
+
+function isPresent(value: CellValue): boolean {
+  return value !== null && value !== undefined && String(value).trim() !== ""
+}
+
+export function median(values: number[]): number {
+  if (!values.length) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Reduce the raw cells of one column with the requested aggregation. Numeric
+ * aggregations ignore cells that cannot be read as numbers.
+ */
+export function aggregate(values: CellValue[], aggregation: Aggregation): number {
+  if (aggregation === "count") return values.filter(isPresent).length
+  if (aggregation === "distinct") return new Set(values.filter(isPresent).map((value) => String(value).trim())).size
+
+  const numbers = values.map((value) => toNumber(value)).filter((value): value is number => value !== null)
+  if (!numbers.length) return 0
+
+  switch (aggregation) {
+    case "sum":
+      return numbers.reduce((sum, value) => sum + value, 0)
+    case "avg":
+      return numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+    case "min":
+      return numbers.reduce((min, value) => (value < min ? value : min), numbers[0])
+    case "max":
+      return numbers.reduce((max, value) => (value > max ? value : max), numbers[0])
+    case "median":
+      return median(numbers)
+  }
+}
+
+export function measureLabel(measure: MeasureSpec): string {
+  return measure.aggregation === "sum" ? measure.column : `${measure.aggregation}(${measure.column})`
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2))
+}
+
+/**
+ * Group records by one or more columns and aggregate each measure per group.
+ * Groups beyond `topN` are either dropped or folded into a single "Other"
+ * group that is aggregated from the underlying cells, not from group results.
+ */
+export function groupRecords(
+  records: Record<string, CellValue>[],
+  groupBy: string[],
+  measures: MeasureSpec[],
+  options: { sort?: SortOrder; topN?: number; includeOther?: boolean } = {},
+): GroupedRow[] {
+  const { sort = "desc", topN, includeOther = false } = options
+  const groups = new Map<string, { key: string[]; cells: CellValue[][]; rowCount: number }>()
+
+  records.forEach((record) => {
+    const key = groupBy.map((column) => (isPresent(record[column]) ? String(record[column]).trim() : "Unknown"))
+    const id = key.join("\u0000")
+    let group = groups.get(id)
+    if (!group) {
+      group = { key, cells: measures.map(() => []), rowCount: 0 }
+      groups.set(id, group)
+    }
+    group.rowCount += 1
+    measures.forEach((measure, index) => {
+      group!.cells[index].push(record[measure.column])
+    })
+  })
+
+  const entries = Array.from(groups.values()).map((group) => ({
+    ...group,
+    values: measures.map((measure, index) => aggregate(group.cells[index], measure.aggregation)),
+  }))
+
+  entries.sort((a, b) => {
+    if (sort === "label" || !measures.length) return a.key.join(" / ").localeCompare(b.key.join(" / "))
+    return sort === "asc" ? a.values[0] - b.values[0] : b.values[0] - a.values[0]
+  })
+
+  const kept = topN !== undefined && topN > 0 ? entries.slice(0, topN) : entries
+  const rest = entries.slice(kept.length)
+
+  const rows: GroupedRow[] = kept.map((entry) => ({
+    key: entry.key,
+    label: entry.key.join(" / "),
+    values: entry.values.map(round),
+    rowCount: entry.rowCount,
+  }))
+
+  if (includeOther && rest.length) {
+    rows.push({
+      key: groupBy.map(() => OTHER_LABEL),
+      label: OTHER_LABEL,
+      values: measures.map((measure, index) =>
+        round(aggregate(rest.flatMap((entry) => entry.cells[index]), measure.aggregation)),
+      ),
+      rowCount: rest.reduce((sum, entry) => sum + entry.rowCount, 0),
+    })
+  }
+
+  return rows
+}
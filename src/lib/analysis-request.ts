@@ -0,0 +1,263 @@
+import {
+  AnalysisResult,
+  AnalysisSpec,
+  AnalysisSpecError,
+  analyzeRecordsWithRows,
+  DataRecord,
+  FILE_FORMATS,
+  FileFormat,
+  ParsedContent,
+  ParseWarning,
+  parseRecords,
+  prepareRecords,
+} from "./analysis"
+import { CSV_DELIMITERS, CsvDelimiter, parseCsvStream } from "./csv-parser"
+import { FilterSyntaxError } from "./filter"
+import { MAX_FORECAST_HORIZON } from "./forecast"
+import { CalculatedColumn, FormulaError } from "./formula"
+import { MAX_DEPTH_LIMIT } from "./json-records"
+import { detectNumberLocale, NUMBER_LOCALES, NumberLocale } from "./numbers"
+import { PivotSpec } from "./pivot"
+import { answerQuestion, QueryAnswer, QueryInterpretationError } from "./query"
+import { PERIOD_GRANULARITIES, PeriodGranularity } from "./time-series"
+
+/** Everything about an analysis run except the content itself. */
+export interface AnalysisRequest {
+  fileType: FileFormat
+  delimiter?: CsvDelimiter | "auto"
+  maxDepth?: number
+  granularity?: PeriodGranularity
+  spec?: AnalysisSpec
+  filter?: string
+  calculatedColumns?: CalculatedColumn[]
+  pivot?: PivotSpec
+  forecastHorizon?: number
+  locale?: NumberLocale | "auto"
+}
+
+export interface AnalysisOutput {
+  result: AnalysisResult
+  warnings: ParseWarning[]
+  delimiter?: CsvDelimiter
+  recordPath?: string
+  largeNarrative: string
+}
+
+export interface AnalysisProgress {
+  phase: "reading" | "analyzing"
+  bytesRead: number
+  totalBytes: number
+  rowsParsed: number
+}
+
+export interface ParseContentOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: AnalysisProgress) => void
+}
+
+/**
+ * A request the analysis cannot run with, carrying the same details the
+ * `/api/analysis` handler returns in its 400 body.
+ */
+export class AnalysisRequestError extends Error {
+  column?: string
+  position?: number
+
+  constructor(message: string, details: { column?: string; position?: number } = {}) {
+    super(message)
+    this.name = "AnalysisRequestError"
+    this.column = details.column
+    this.position = details.position
+  }
+}
+
+export function buildLongResponse(core: string): string {
+  return [
+    core,
+    "\n\n",
+    "To keep the conversation productive, I chained a creative ideation pass with a pragmatic review stage.",
+    " The creative model outlined possibilities, while the analyst model trimmed them to the essentials.",
+    "\n\n",
+    "If you need to go deeper, ask for a follow-up report and I can expand with additional structured tables or timeline breakdowns.",
+  ].join("")
+}
+
+/** The first problem with the request's options, or null when they are usable. */
+export function validateAnalysisRequest(request: Partial<AnalysisRequest>): string | null {
+  if (request.granularity && !PERIOD_GRANULARITIES.includes(request.granularity)) {
+    return `Unsupported granularity. Use one of: ${PERIOD_GRANULARITIES.join(", ")}.`
+  }
+  if (request.fileType && !FILE_FORMATS.includes(request.fileType)) {
+    return `Unsupported file type. Use one of: ${FILE_FORMATS.join(", ")}.`
+  }
+  if (request.delimiter && request.delimiter !== "auto" && !CSV_DELIMITERS.includes(request.delimiter)) {
+    return "Unsupported delimiter. Use comma, semicolon, tab, or pipe."
+  }
+  if (
+    request.maxDepth !== undefined &&
+    (!Number.isInteger(request.maxDepth) || request.maxDepth < 1 || request.maxDepth > MAX_DEPTH_LIMIT)
+  ) {
+    return `maxDepth must be a whole number between 1 and ${MAX_DEPTH_LIMIT}.`
+  }
+  if (
+    request.forecastHorizon !== undefined &&
+    (!Number.isInteger(request.forecastHorizon) ||
+      request.forecastHorizon < 1 ||
+      request.forecastHorizon > MAX_FORECAST_HORIZON)
+  ) {
+    return `forecastHorizon must be a whole number between 1 and ${MAX_FORECAST_HORIZON}.`
+  }
+  if (request.locale && request.locale !== "auto" && !NUMBER_LOCALES.includes(request.locale)) {
+    return `Unsupported locale. Use one of: ${NUMBER_LOCALES.join(", ")}.`
+  }
+  if (
+    request.calculatedColumns !== undefined &&
+    (!Array.isArray(request.calculatedColumns) ||
+      !request.calculatedColumns.every(
+        (column) =>
+          typeof column === "object" &&
+          column !== null &&
+          typeof column.name === "string" &&
+          typeof column.formula === "string",
+      ))
+  ) {
+    return "calculatedColumns must be an array of { name, formula }."
+  }
+  return null
+}
+
+function parseOptions(request: AnalysisRequest) {
+  return { delimiter: request.delimiter === "auto" ? undefined : request.delimiter, maxDepth: request.maxDepth }
+}
+
+export function parseContent(content: string, request: AnalysisRequest): ParsedContent {
+  try {
+    return parseRecords(content, request.fileType ?? "csv", parseOptions(request))
+  } catch {
+    throw new AnalysisRequestError("Invalid JSON.")
+  }
+}
+
+/**
+ * Parse a file without first reading it into one string when it is
+ * delimited text; JSON documents still need the whole text to parse. Yields
+ * the same records as `parseContent` on the file's text.
+ */
+export async function parseBlob(
+  content: Blob,
+  request: AnalysisRequest,
+  options: ParseContentOptions = {},
+): Promise<ParsedContent> {
+  const { signal, onProgress } = options
+  const fileType = request.fileType ?? "csv"
+  const totalBytes = content.size
+
+  if (fileType === "csv" || fileType === "tsv") {
+    const delimiter = parseOptions(request).delimiter ?? (fileType === "tsv" ? "\t" : undefined)
+    const { records, warnings, delimiter: detected } = await parseCsvStream(content.stream(), {
+      delimiter,
+      totalBytes,
+      signal,
+      onProgress: ({ bytesRead, rowsParsed }) => onProgress?.({ phase: "reading", bytesRead, totalBytes, rowsParsed }),
+    })
+    return { records, warnings, delimiter: detected }
+  }
+
+  const decoder = new TextDecoder("utf-8")
+  const reader = content.stream().getReader()
+  const chunks: string[] = []
+  let bytesRead = 0
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        await reader.cancel()
+        throw new DOMException("Parsing was cancelled", "AbortError")
+      }
+      const { done, value } = await reader.read()
+      if (done) break
+      bytesRead += value.byteLength
+      chunks.push(decoder.decode(value, { stream: true }))
+      onProgress?.({ phase: "reading", bytesRead, totalBytes, rowsParsed: 0 })
+    }
+  } finally {
+    reader.releaseLock()
+  }
+  chunks.push(decoder.decode())
+  return parseContent(chunks.join(""), request)
+}
+
+function toRequestError(error: unknown): unknown {
+  if (error instanceof AnalysisSpecError || error instanceof QueryInterpretationError) {
+    return new AnalysisRequestError(error.message)
+  }
+  if (error instanceof FormulaError) {
+    return new AnalysisRequestError(
+      error.column ? `Invalid formula for "${error.column}": ${error.message}` : error.message,
+      { column: error.column, position: error.position },
+    )
+  }
+  if (error instanceof FilterSyntaxError) {
+    return new AnalysisRequestError(`Invalid filter: ${error.message}`, { position: error.position })
+  }
+  return error
+}
+
+/**
+ * Analyze parsed records, turning spec, formula and filter mistakes into an
+ * `AnalysisRequestError` with the column or position to point at.
+ */
+export function runAnalysis(parsed: ParsedContent, request: AnalysisRequest): AnalysisOutput {
+  return runAnalysisWithRows(parsed, request).output
+}
+
+/** `runAnalysis`, also returning the prepared rows the result's row indices refer to. */
+export function runAnalysisWithRows(
+  parsed: ParsedContent,
+  request: AnalysisRequest,
+): { output: AnalysisOutput; records: DataRecord[] } {
+  let analyzed: { result: AnalysisResult; records: DataRecord[] }
+  try {
+    analyzed = analyzeRecordsWithRows(parsed.records, {
+      granularity: request.granularity,
+      spec: request.spec,
+      parseWarnings: parsed.warnings,
+      filter: request.filter,
+      calculatedColumns: request.calculatedColumns,
+      pivot: request.pivot,
+      forecastHorizon: request.forecastHorizon,
+      locale: request.locale === "auto" ? undefined : request.locale,
+    })
+  } catch (error) {
+    throw toRequestError(error)
+  }
+
+  const { result, records } = analyzed
+  return {
+    output: {
+      result,
+      warnings: parsed.warnings,
+      delimiter: parsed.delimiter,
+      recordPath: parsed.recordPath,
+      largeNarrative: buildLongResponse(result.summary),
+    },
+    records,
+  }
+}
+
+/**
+ * Answer a natural-language question over the same rows `runAnalysis` would
+ * analyze for this request, after calculated columns and the filter.
+ */
+export function runQuery(
+  parsed: ParsedContent,
+  request: AnalysisRequest,
+  question: string,
+): QueryAnswer & { locale: NumberLocale } {
+  const locale = !request.locale || request.locale === "auto" ? detectNumberLocale(parsed.records) : request.locale
+  try {
+    const { records } = prepareRecords(parsed.records, locale, request)
+    return { ...answerQuestion(records, question, { locale }), locale }
+  } catch (error) {
+    throw toRequestError(error)
+  }
+}
@@ -0,0 +1,54 @@
+import { AnalysisResult, DataRecord } from "./analysis"
+import { GridSource, gridColumns, queryPage } from "./data-grid"
+
+/** How many rows the anomaly and quality cards list for one finding. */
+export const MAX_FLAGGED_ROWS = 25
+/** Rows kept on the main thread for charts that plot a bounded sample. */
+export const PREVIEW_ROWS = 1000
+
+/** What the main thread holds of the rows an analysis ran on. */
+export interface AnalyzedRowsSummary {
+  total: number
+  /** Column names in the rows' key order. */
+  headers: string[]
+  /** The rows anomalies and quality issues point at, by row index. */
+  flagged: Record<number, DataRecord>
+  /** The first rows, for charts that plot a sample. */
+  preview: DataRecord[]
+}
+
+/**
+ * The analyzed rows as the records grid reads them, a page at a time, plus
+ * the few rows the other cards need directly. The full rows may stay in a
+ * worker; `dispose` releases them.
+ */
+export interface AnalyzedRows extends AnalyzedRowsSummary, GridSource {
+  dispose(): void
+}
+
+/** The part of the analyzed rows that is worth copying to the main thread. */
+export function summarizeRows(records: DataRecord[], result: AnalysisResult): AnalyzedRowsSummary {
+  const flagged: Record<number, DataRecord> = {}
+  const findings = [...result.anomalies, ...(result.quality?.issues ?? [])]
+  findings.forEach((finding) => {
+    finding.rowIndices.slice(0, MAX_FLAGGED_ROWS).forEach((index) => {
+      if (records[index]) flagged[index] = records[index]
+    })
+  })
+  return {
+    total: records.length,
+    headers: records.length ? Object.keys(records[0]) : [],
+    flagged,
+    preview: records.slice(0, PREVIEW_ROWS),
+  }
+}
+
+/** `AnalyzedRows` over records that are already on the main thread. */
+export function localAnalyzedRows(records: DataRecord[], result: AnalysisResult): AnalyzedRows {
+  const columns = gridColumns(records, result.schema)
+  return {
+    ...summarizeRows(records, result),
+    fetchPage: async (query, offset, limit) => queryPage(records, columns, query, offset, limit),
+    dispose: () => {},
+  }
+}
@@ -0,0 +1,125 @@
+import { DataRecord } from "./analysis"
+import { AnalysisOutput, AnalysisProgress, AnalysisRequest, AnalysisRequestError } from "./analysis-request"
+import { AnalyzedRows, AnalyzedRowsSummary } from "./analysis-rows"
+import { GridPage, GridQuery } from "./data-grid"
+import { RequestAbortedError } from "./request-utils"
+
+export interface AnalysisWorkerRequest {
+  content: Blob
+  request: AnalysisRequest
+  /** How many parsed rows to send back for typing calculated columns on the main thread. */
+  sampleSize: number
+}
+
+export type AnalysisWorkerCommand =
+  | ({ type: "analyze" } & AnalysisWorkerRequest)
+  | { type: "page"; id: number; query: GridQuery; offset: number; limit: number }
+
+export type AnalysisWorkerMessage =
+  | { type: "progress"; progress: AnalysisProgress }
+  | {
+      type: "result"
+      output: AnalysisOutput
+      /** The first `sampleSize` parsed rows with numbers normalized, before calculated columns and the filter. */
+      sample: DataRecord[]
+      /** What the main thread needs of the analyzed rows; the rows themselves stay in the worker. */
+      rows: AnalyzedRowsSummary
+    }
+  | { type: "page"; id: number; page: GridPage }
+  | { type: "error"; message: string; column?: string; position?: number }
+
+export interface AnalysisWorkerResult {
+  output: AnalysisOutput
+  sample: DataRecord[]
+  /** Pages are read from the worker, which lives until `rows.dispose()` is called. */
+  rows: AnalyzedRows
+}
+
+export interface AnalysisWorkerOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: AnalysisProgress) => void
+}
+
+export function supportsAnalysisWorker(): boolean {
+  return typeof Worker !== "undefined"
+}
+
+/**
+ * Parse and analyze `content` off the main thread. Each run gets its own
+ * worker, terminated when the run fails or `signal` aborts, so a cancelled
+ * run stops even in the middle of a synchronous analysis step. After a
+ * successful run the worker keeps the analyzed rows and serves them a page
+ * at a time until `rows.dispose()`.
+ */
+export function runAnalysisInWorker(
+  job: AnalysisWorkerRequest,
+  options: AnalysisWorkerOptions = {},
+): Promise<AnalysisWorkerResult> {
+  const { signal, onProgress } = options
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError("Analysis was cancelled."))
+      return
+    }
+
+    const worker = new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), { type: "module" })
+    const pages = new Map<number, { resolve: (page: GridPage) => void; reject: (error: Error) => void }>()
+    let nextPage = 0
+    let disposed = false
+
+    const dispose = () => {
+      if (disposed) return
+      disposed = true
+      worker.terminate()
+      pages.forEach((pending) => pending.reject(new Error("The analyzed rows are no longer available.")))
+      pages.clear()
+    }
+    const cancel = () => {
+      dispose()
+      reject(new RequestAbortedError("Analysis was cancelled."))
+    }
+    signal?.addEventListener("abort", cancel)
+
+    const rows = (summary: AnalyzedRowsSummary): AnalyzedRows => ({
+      ...summary,
+      fetchPage(query, offset, limit) {
+        if (disposed) return Promise.reject(new Error("The analyzed rows are no longer available."))
+        const id = nextPage++
+        return new Promise<GridPage>((resolvePage, rejectPage) => {
+          pages.set(id, { resolve: resolvePage, reject: rejectPage })
+          worker.postMessage({ type: "page", id, query, offset, limit } satisfies AnalysisWorkerCommand)
+        })
+      },
+      dispose,
+    })
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = event.data
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress)
+          return
+        case "page":
+          pages.get(message.id)?.resolve(message.page)
+          pages.delete(message.id)
+          return
+        case "result":
+          signal?.removeEventListener("abort", cancel)
+          resolve({ output: message.output, sample: message.sample, rows: rows(message.rows) })
+          return
+        default:
+          signal?.removeEventListener("abort", cancel)
+          dispose()
+          reject(new AnalysisRequestError(message.message, { column: message.column, position: message.position }))
+      }
+    }
+    worker.onerror = (event) => {
+      signal?.removeEventListener("abort", cancel)
+      dispose()
+      reject(new Error(event.message || "Analysis worker failed."))
+    }
+
+    worker.postMessage({ type: "analyze", ...job } satisfies AnalysisWorkerCommand)
+  })
+}
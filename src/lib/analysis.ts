@@ -1,69 +1,80 @@
-export type DataRecord = Record<string, string | number>
-
-function toNumber(value: string | number): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) return value
-  const parsed = Number(String(value).replace(/[^0-9.-]/g, ""))
-  return Number.isFinite(parsed) ? parsed : null
-}
+import {
+  aggregate,
+  AGGREGATION_LABELS,
+  AGGREGATIONS,
+  groupRecords,
+  measureLabel,
+  MeasureSpec,
+  NUMERIC_AGGREGATIONS,
+  OTHER_LABEL,
+  SORT_ORDERS,
+  SortOrder,
+} from "./aggregate"
+import { AnomalyInsight, detectAnomalies } from "./anomalies"
+import { CsvDelimiter, CsvParseWarning, parseCsvText } from "./csv-parser"
+import { CorrelationMatrix, correlationMatrix, describeStrength } from "./correlation"
+import { filterRecords } from "./filter"
+import { applyCalculatedColumns, CalculatedColumn } from "./formula"
+import { buildForecast, DEFAULT_FORECAST_HORIZON, FORECAST_METHOD_LABELS, ForecastResult } from "./forecast"
+import { JsonParseWarning, looksLikeNdjson, parseJsonDocument, parseNdjson } from "./json-records"
+import { detectNumberLocale, formatNumber, normalizeNumbers, NumberLocale, toNumber } from "./numbers"
+import { buildPivot, PivotOptions, PivotSpec, PivotTable } from "./pivot"
+import { assessQuality, DataQualityReport } from "./quality"
+import { ColumnSchema, inferSchema } from "./schema"
+import { ColumnProfile, profileColumns } from "./statistics"
+import { buildTimeSeries, PeriodChange, PeriodGranularity, TimeSeriesResult } from "./time-series"
 
-export function parseCsv(content: string): DataRecord[] {
-  const lines = content
-    .trim()
-    .split(/\r?\n/)
-    .filter((line) => line.trim().length > 0)
+export type DataRecord = Record<string, string | number>
 
-  if (!lines.length) {
-    return []
-  }
+export type ParseWarning = CsvParseWarning | JsonParseWarning
 
-  const headers = parseCsvLine(lines[0])
-  const rows: DataRecord[] = []
+export type FileFormat = "csv" | "tsv" | "json" | "ndjson"
 
-  for (let index = 1; index < lines.length; index += 1) {
-    const values = parseCsvLine(lines[index])
-    if (!values.length) continue
-    const row: DataRecord = {}
-    headers.forEach((header, headerIndex) => {
-      row[header] = values[headerIndex] ?? ""
-    })
-    rows.push(row)
-  }
+export const FILE_FORMATS: FileFormat[] = ["csv", "tsv", "json", "ndjson"]
 
-  return rows
+export interface ParseOptions {
+  delimiter?: CsvDelimiter
+  /** Nesting levels flattened into columns for JSON input. */
+  maxDepth?: number
 }
 
-function parseCsvLine(line: string): string[] {
-  const values: string[] = []
-  let current = ""
-  let insideQuotes = false
-
-  for (let index = 0; index < line.length; index += 1) {
-    const char = line[index]
-
-    if (char === '"') {
-      if (insideQuotes && line[index + 1] === '"') {
-        current += '"'
-        index += 1
-      } else {
-        insideQuotes = !insideQuotes
-      }
-      continue
-    }
+export interface ParsedContent {
+  records: DataRecord[]
+  warnings: ParseWarning[]
+  delimiter?: CsvDelimiter
+  /** Where the records were found inside a JSON wrapper object, e.g. `data.items`. */
+  recordPath?: string
+}
 
-    if (char === "," && !insideQuotes) {
-      values.push(current.trim())
-      current = ""
-      continue
-    }
+export function parseCsv(content: string, options: ParseOptions = {}): DataRecord[] {
+  return parseCsvText(content, options).records
+}
 
-    current += char
+/**
+ * Parse uploaded content into records along with any recoverable problems the
+ * parser worked around. Delimited text sniffs its delimiter unless one is
+ * given; TSV defaults to tabs. JSON is flattened into dot-path columns and
+ * falls back to NDJSON when the document is really one value per line.
+ * Throws a SyntaxError for malformed JSON.
+ */
+export function parseRecords(content: string, fileType: FileFormat, options: ParseOptions = {}): ParsedContent {
+  if (fileType === "ndjson") {
+    const { records, warnings } = parseNdjson(content, options)
+    return { records, warnings }
   }
-
-  if (current.length || line.endsWith(",")) {
-    values.push(current.trim())
+  if (fileType === "json") {
+    try {
+      const { records, warnings, recordPath } = parseJsonDocument(content, options)
+      return { records, warnings, recordPath }
+    } catch (error) {
+      if (!(error instanceof SyntaxError) || !looksLikeNdjson(content)) throw error
+      const { records, warnings } = parseNdjson(content, options)
+      return { records, warnings }
+    }
   }
-
-  return values
+  const delimiter = options.delimiter ?? (fileType === "tsv" ? "\t" : undefined)
+  const { records, warnings, delimiter: detected } = parseCsvText(content, { delimiter })
+  return { records, warnings, delimiter: detected }
 }
 
 export interface TrendPoint {
@@ -80,12 +91,58 @@ export interface AnalysisResult {
     headers: string[]
     rows: (string | number)[][]
   }
+  schema: ColumnSchema[]
+  spec: ResolvedAnalysisSpec
+  timeSeries: TimeSeriesResult | null
+  profile: ColumnProfile[]
+  anomalies: AnomalyInsight[]
+  correlations: CorrelationMatrix | null
+  quality: DataQualityReport | null
+  filter: { expression: string; matched: number; total: number } | null
+  calculatedColumns: string[]
+  pivot: PivotTable | null
+  forecast: ForecastResult | null
+  /** How numbers in the data were read and how the formatted values above are written. */
+  locale: NumberLocale
+}
+
+export interface AnalysisSpec {
+  groupBy?: string[]
+  measures?: MeasureSpec[]
+  sort?: SortOrder
+  topN?: number
+  includeOther?: boolean
+}
+
+export type ResolvedAnalysisSpec = Required<AnalysisSpec>
+
+export interface AnalysisOptions {
+  granularity?: PeriodGranularity
+  spec?: AnalysisSpec
+  /** Warnings from parsing, so the quality report can count malformed rows. */
+  parseWarnings?: ParseWarning[]
+  /** Filter expression applied before anything is computed; see `parseFilter`. */
+  filter?: string
+  /** Derived columns materialized onto every record before filtering and analysis. */
+  calculatedColumns?: CalculatedColumn[]
+  /** Cross-tab of one measure by a row and a column dimension. */
+  pivot?: PivotSpec
+  /** Number of future periods to project for the primary measure when there is a time column. */
+  forecastHorizon?: number
+  /** How numbers are written in the data; detected from the records when omitted. */
+  locale?: NumberLocale
 }
 
-function formatNumber(value: number): string {
-  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(value)
+export class AnalysisSpecError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AnalysisSpecError"
+  }
 }
 
+const DEFAULT_TOP_N = 8
+const DEFAULT_TABLE_ROWS = 6
+
 function describeChange(metric: string, value: number, avg: number): string {
   if (avg === 0) return `${metric} stayed flat.`
   const delta = value - avg
@@ -100,34 +157,219 @@ function describeChange(metric: string, value: number, avg: number): string {
   return `${metric} is right on the average.`
 }
 
-export function analyzeRecords(records: DataRecord[]): AnalysisResult {
+function describePeriodChange(change: PeriodChange, comparison: string, locale: NumberLocale): string {
+  if (change.percent === null) {
+    return `${change.measure} moved from ${formatNumber(change.previous, locale)} to ${formatNumber(change.current, locale)} in ${change.period} ${comparison}.`
+  }
+  if (change.delta === 0) {
+    return `${change.measure} held steady at ${formatNumber(change.current, locale)} in ${change.period} ${comparison}.`
+  }
+  const direction = change.delta > 0 ? "rose" : "fell"
+  return `${change.measure} ${direction} ${formatNumber(Math.abs(change.percent), locale)}% in ${change.period} ${comparison} (${formatNumber(change.previous, locale)} → ${formatNumber(change.current, locale)}).`
+}
+
+/**
+ * Fill in the spec from the inferred schema and reject references to columns
+ * that do not exist or aggregations that cannot apply to them. An empty spec
+ * resolves to the historical defaults: first dimension, sum of the first
+ * measure, top 8 descending.
+ */
+export function resolveSpec(spec: AnalysisSpec, schema: ColumnSchema[]): ResolvedAnalysisSpec {
+  if (typeof spec !== "object" || spec === null || Array.isArray(spec)) {
+    throw new AnalysisSpecError("The analysis spec must be an object.")
+  }
+  if (
+    spec.groupBy !== undefined &&
+    (!Array.isArray(spec.groupBy) || !spec.groupBy.every((column) => typeof column === "string"))
+  ) {
+    throw new AnalysisSpecError("groupBy must be an array of column names.")
+  }
+  if (
+    spec.measures !== undefined &&
+    (!Array.isArray(spec.measures) ||
+      !spec.measures.every(
+        (measure) => typeof measure === "object" && measure !== null && typeof measure.column === "string",
+      ))
+  ) {
+    throw new AnalysisSpecError("measures must be an array of { column, aggregation }.")
+  }
+
+  const columns = new Map(schema.map((column) => [column.name, column]))
+  const firstMeasure = schema.find((column) => column.role === "measure")?.name
+  const dimension = pickDimension(schema)
+
+  const groupBy = spec.groupBy?.length ? spec.groupBy : dimension ? [dimension] : []
+  const measures: MeasureSpec[] = spec.measures?.length
+    ? spec.measures
+    : firstMeasure
+      ? [{ column: firstMeasure, aggregation: "sum" }]
+      : []
+
+  if (schema.length) {
+    const unknown = [...groupBy, ...measures.map((measure) => measure.column)].filter((column) => !columns.has(column))
+    if (unknown.length) {
+      throw new AnalysisSpecError(`Unknown column${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}.`)
+    }
+  }
+
+  measures.forEach((measure) => {
+    if (!AGGREGATIONS.includes(measure.aggregation)) {
+      throw new AnalysisSpecError(`Unsupported aggregation "${measure.aggregation}". Use one of: ${AGGREGATIONS.join(", ")}.`)
+    }
+    const column = columns.get(measure.column)
+    if (column && NUMERIC_AGGREGATIONS.includes(measure.aggregation) && column.role !== "measure") {
+      throw new AnalysisSpecError(`Cannot ${measure.aggregation} non-numeric column "${measure.column}". Use count or distinct.`)
+    }
+  })
+
+  if (spec.sort && !SORT_ORDERS.includes(spec.sort)) {
+    throw new AnalysisSpecError(`Unsupported sort order "${spec.sort}". Use one of: ${SORT_ORDERS.join(", ")}.`)
+  }
+
+  const topN = spec.topN ?? DEFAULT_TOP_N
+  if (!Number.isInteger(topN) || topN < 1) {
+    throw new AnalysisSpecError("Top N must be a positive whole number.")
+  }
+
+  return {
+    groupBy,
+    measures,
+    sort: spec.sort ?? "desc",
+    topN,
+    includeOther: spec.includeOther ?? false,
+  }
+}
+
+/**
+ * Check that both pivot dimensions and the measure exist, defaulting the
+ * measure to the spec's primary measure or a row count.
+ */
+export function resolvePivot(pivot: PivotSpec, schema: ColumnSchema[], spec: ResolvedAnalysisSpec): Required<PivotSpec> {
+  const columns = new Map(schema.map((column) => [column.name, column]))
+  if (!pivot.rows || !pivot.columns) {
+    throw new AnalysisSpecError("Pivot needs both a row and a column dimension.")
+  }
+  if (pivot.rows === pivot.columns) {
+    throw new AnalysisSpecError("Pivot row and column dimensions must differ.")
+  }
+
+  const measure: MeasureSpec = pivot.measure ?? spec.measures[0] ?? { column: pivot.rows, aggregation: "count" }
+  const unknown = [pivot.rows, pivot.columns, measure.column].filter((column) => !columns.has(column))
+  if (unknown.length) {
+    throw new AnalysisSpecError(`Unknown pivot column${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}.`)
+  }
+  if (!AGGREGATIONS.includes(measure.aggregation)) {
+    throw new AnalysisSpecError(`Unsupported aggregation "${measure.aggregation}". Use one of: ${AGGREGATIONS.join(", ")}.`)
+  }
+  if (NUMERIC_AGGREGATIONS.includes(measure.aggregation) && columns.get(measure.column)?.role !== "measure") {
+    throw new AnalysisSpecError(`Cannot ${measure.aggregation} non-numeric column "${measure.column}". Use count or distinct.`)
+  }
+
+  return { rows: pivot.rows, columns: pivot.columns, measure }
+}
+
+function pivotOptions(pivot: PivotSpec, schema: ColumnSchema[], timeSeries: TimeSeriesResult | null): PivotOptions {
+  const granularityFor = (name: string) =>
+    schema.find((column) => column.name === name)?.role === "time" ? timeSeries?.granularity ?? "month" : undefined
+  return { rowGranularity: granularityFor(pivot.rows), columnGranularity: granularityFor(pivot.columns) }
+}
+
+function pickDimension(schema: ColumnSchema[]): string | undefined {
+  const dimensions = schema.filter((column) => column.role === "dimension")
+  const category = dimensions.find((column) => column.type === "category")
+  return (category ?? dimensions[0])?.name
+}
+
+function describeSchema(schema: ColumnSchema[]): string {
+  const time = schema.filter((column) => column.role === "time").map((column) => column.name)
+  const identifiers = schema.filter((column) => column.role === "identifier").map((column) => column.name)
+  const parts: string[] = []
+  if (time.length) parts.push(`Time columns: ${time.join(", ")}.`)
+  if (identifiers.length) parts.push(`Identifiers excluded from measures: ${identifiers.join(", ")}.`)
+  return parts.join(" ")
+}
+
+/**
+ * The rows an analysis runs on: numbers rewritten from `locale`, calculated
+ * columns materialized, then the filter applied. Row indices in the result
+ * (anomalies, quality issues) refer to `records`.
+ */
+export function prepareRecords(
+  sourceRecords: DataRecord[],
+  locale: NumberLocale,
+  options: Pick<AnalysisOptions, "calculatedColumns" | "filter"> = {},
+): { allRecords: DataRecord[]; records: DataRecord[] } {
+  const allRecords = applyCalculatedColumns(normalizeNumbers(sourceRecords, locale), options.calculatedColumns ?? [])
+  const expression = options.filter?.trim() ?? ""
+  return { allRecords, records: expression ? filterRecords(allRecords, expression) : allRecords }
+}
+
+export function analyzeRecords(sourceRecords: DataRecord[], options: AnalysisOptions = {}): AnalysisResult {
+  return analyzeRecordsWithRows(sourceRecords, options).result
+}
+
+/**
+ * `analyzeRecords`, also returning the prepared rows the analysis ran on,
+ * which the row indices in the result refer to.
+ */
+export function analyzeRecordsWithRows(
+  sourceRecords: DataRecord[],
+  options: AnalysisOptions = {},
+): { result: AnalysisResult; records: DataRecord[] } {
+  const locale = options.locale ?? detectNumberLocale(sourceRecords)
+  const { allRecords, records } = prepareRecords(sourceRecords, locale, options)
+  return { result: analyzePrepared(records, allRecords.length, locale, options), records }
+}
+
+function analyzePrepared(
+  records: DataRecord[],
+  totalRows: number,
+  locale: NumberLocale,
+  options: AnalysisOptions,
+): AnalysisResult {
+  // Safe to read once prepareRecords has compiled, and so validated, the definitions.
+  const calculatedNames = (options.calculatedColumns ?? []).map((column) => column.name.trim())
+  const expression = options.filter?.trim() ?? ""
+  const filter = expression ? { expression, matched: records.length, total: totalRows } : null
+
   if (!records.length) {
     return {
-      summary: "No rows detected in the supplied data.",
-      insights: ["Upload a CSV or JSON file with at least one row to generate an analysis."],
+      summary: filter ? `No rows matched the filter (0 of ${filter.total}).` : "No rows detected in the supplied data.",
+      insights: [
+        filter
+          ? "Loosen or clear the filter to include more rows."
+          : "Upload a CSV or JSON file with at least one row to generate an analysis.",
+      ],
       kpis: [],
       trends: [],
       table: { headers: [], rows: [] },
+      schema: [],
+      spec: resolveSpec(options.spec ?? {}, []),
+      timeSeries: null,
+      profile: [],
+      anomalies: [],
+      correlations: null,
+      quality: null,
+      filter,
+      calculatedColumns: calculatedNames,
+      pivot: null,
+      forecast: null,
+      locale,
     }
   }
 
-  const numericKeys = new Set<string>()
-  const stringKeys = new Set<string>()
-
-  records.forEach((record) => {
-    Object.entries(record).forEach(([key, value]) => {
-      const numericValue = toNumber(value)
-      if (numericValue !== null) {
-        numericKeys.add(key)
-      } else if (typeof value === "string") {
-        stringKeys.add(key)
-      }
-    })
-  })
-
-  const numericFields = Array.from(numericKeys)
-  const dimensionKey = Array.from(stringKeys)[0]
+  const schema = inferSchema(records)
+  const numericFields = schema.filter((column) => column.role === "measure").map((column) => column.name)
+  const spec = resolveSpec(options.spec ?? {}, schema)
+  const groupBy = spec.groupBy
+  const primaryMeasure = spec.measures[0]
+  const primaryLabel = primaryMeasure ? measureLabel(primaryMeasure) : undefined
   const firstNumericKey = numericFields[0]
+  const timeKey = schema.find((column) => column.role === "time")?.name
+  const timeSeries = timeKey && numericFields.length ? buildTimeSeries(records, timeKey, numericFields, options.granularity) : null
+  const percentageFields = new Set(
+    schema.filter((column) => column.type === "percentage").map((column) => column.name),
+  )
 
   const totals: Record<string, number> = {}
   const averages: Record<string, number> = {}
@@ -146,68 +388,121 @@ export function analyzeRecords(records: DataRecord[]): AnalysisResult {
     averages[field] = count ? sum / count : 0
   })
 
-  const kpis = numericFields.slice(0, 3).map((field) => ({
-    label: `Total ${field}`,
-    value: formatNumber(totals[field]),
-  }))
-
-  if (firstNumericKey) {
+  const kpis = options.spec?.measures?.length
+    ? spec.measures.map((measure) => ({
+        label: `${AGGREGATION_LABELS[measure.aggregation]} ${measure.column}`,
+        value: formatNumber(aggregate(records.map((record) => record[measure.column]), measure.aggregation), locale),
+      }))
+    : numericFields.slice(0, 3).map((field) =>
+        percentageFields.has(field)
+          ? { label: `Average ${field}`, value: `${formatNumber(averages[field], locale)}%` }
+          : { label: `Total ${field}`, value: formatNumber(totals[field], locale) },
+      )
+
+  if (!options.spec?.measures?.length && firstNumericKey && !percentageFields.has(firstNumericKey)) {
     kpis.push({
       label: `Average ${firstNumericKey}`,
-      value: formatNumber(averages[firstNumericKey]),
+      value: formatNumber(averages[firstNumericKey], locale),
     })
   }
 
-  const grouped: Record<string, number> = {}
-  if (dimensionKey && firstNumericKey) {
-    records.forEach((record) => {
-      const bucket = String(record[dimensionKey] ?? "Unknown")
-      const numericValue = toNumber(record[firstNumericKey]) ?? 0
-      grouped[bucket] = (grouped[bucket] ?? 0) + numericValue
-    })
-  }
+  const isGrouped = groupBy.length > 0 && spec.measures.length > 0
+  const groupOptions = { sort: spec.sort, includeOther: spec.includeOther }
+  const grouped = isGrouped ? groupRecords(records, groupBy, spec.measures, { ...groupOptions, topN: spec.topN }) : []
 
-  const trends: TrendPoint[] = Object.entries(grouped)
-    .sort(([, valueA], [, valueB]) => valueB - valueA)
-    .slice(0, 8)
-    .map(([label, value]) => ({ label, value: Number(value.toFixed(2)) }))
+  const trends: TrendPoint[] =
+    !isGrouped && timeSeries && firstNumericKey
+      ? timeSeries.points.slice(-8).map((point) => ({ label: point.period, value: point.values[firstNumericKey] }))
+      : grouped.map((row) => ({ label: row.label, value: row.values[0] }))
 
   const insights: string[] = []
-  if (dimensionKey && trends.length) {
-    const best = trends[0]
-    insights.push(`${best.label} leads on ${firstNumericKey ?? "the primary metric"} with ${formatNumber(best.value)}.`)
-    if (trends.length > 1) {
-      const trailing = trends[trends.length - 1]
-      insights.push(`${trailing.label} trails with ${formatNumber(trailing.value)}.`)
+  const ranked = grouped.filter((row) => row.label !== OTHER_LABEL)
+  if (ranked.length && spec.sort !== "label") {
+    const [best, trailing] = spec.sort === "asc" ? [ranked[ranked.length - 1], ranked[0]] : [ranked[0], ranked[ranked.length - 1]]
+    insights.push(`${best.label} leads on ${primaryLabel ?? "the primary metric"} with ${formatNumber(best.values[0], locale)}.`)
+    if (ranked.length > 1) {
+      insights.push(`${trailing.label} trails with ${formatNumber(trailing.values[0], locale)}.`)
     }
   }
 
-  if (firstNumericKey) {
+  if (timeSeries && timeSeries.periodOverPeriod.length) {
+    timeSeries.periodOverPeriod.slice(0, 3).forEach((change) => {
+      insights.push(describePeriodChange(change, `vs. ${change.comparedTo}`, locale))
+    })
+    timeSeries.yearOverYear.slice(0, 3).forEach((change) => {
+      insights.push(describePeriodChange(change, `year over year (vs. ${change.comparedTo})`, locale))
+    })
+  } else if (firstNumericKey) {
     const latest = toNumber(records[records.length - 1][firstNumericKey]) ?? 0
     insights.push(describeChange(firstNumericKey, latest, averages[firstNumericKey]))
   }
 
-  const summaryLines = [
-    `${records.length} rows processed.`,
-    numericFields.length
-      ? `Key measures: ${numericFields.map((field) => `${field} (total ${formatNumber(totals[field])})`).join(", ")}.`
-      : "No numeric measures detected.",
-    dimensionKey ? `Primary grouping: ${dimensionKey}.` : "No categorical dimensions found.",
-  ]
+  const anomalies = detectAnomalies(records, numericFields, { groupBy, measure: primaryMeasure, timeSeries, locale })
+  if (anomalies.length) {
+    const high = anomalies.filter((anomaly) => anomaly.severity === "high").length
+    insights.push(
+      `${anomalies.length} anomal${anomalies.length === 1 ? "y" : "ies"} flagged${high ? ` (${high} high severity)` : ""}. ${anomalies[0].message}`,
+    )
+  }
 
-  const tableHeaders = dimensionKey ? [dimensionKey, ...(numericFields.length ? [firstNumericKey!] : [])] : numericFields.slice(0, 2)
-  const tableRows: (string | number)[][] = []
+  const correlations = numericFields.length > 1 ? correlationMatrix(records, numericFields) : null
+  correlations?.pairs.slice(0, 3).forEach((pair) => {
+    const strength = describeStrength(pair.pearson)
+    if (strength) {
+      const direction = pair.pearson < 0 ? " negatively" : ""
+      insights.push(`${pair.a} and ${pair.b} are ${strength}${direction} correlated, r=${pair.pearson.toFixed(2)}.`)
+    }
+  })
 
-  if (dimensionKey && firstNumericKey) {
-    trends.slice(0, 6).forEach(({ label, value }) => {
-      tableRows.push([label, Number(value.toFixed(2))])
-    })
-  } else {
-    records.slice(0, 6).forEach((record) => {
-      tableRows.push(tableHeaders.map((header) => record[header] ?? ""))
-    })
+  const forecastMeasure =
+    primaryMeasure && numericFields.includes(primaryMeasure.column) ? primaryMeasure.column : firstNumericKey
+  const forecast =
+    timeSeries && forecastMeasure
+      ? buildForecast(timeSeries, forecastMeasure, options.forecastHorizon ?? DEFAULT_FORECAST_HORIZON)
+      : null
+  if (forecast) {
+    const best = forecast.methods.find((entry) => entry.method === forecast.best)!
+    const last = best.points[best.points.length - 1]
+    insights.push(
+      `${FORECAST_METHOD_LABELS[forecast.best]} projects ${forecast.measure} at ${formatNumber(last.value, locale)} by ${last.period} (95% band ${formatNumber(last.lower, locale)} to ${formatNumber(last.upper, locale)}).`,
+    )
   }
 
+  const quality = assessQuality(records, schema, options.parseWarnings, totalRows)
+  const pivot = options.pivot
+    ? buildPivot(records, resolvePivot(options.pivot, schema, spec), pivotOptions(options.pivot, schema, timeSeries))
+    : null
+
+  const summaryLines = [
+    filter ? `${filter.matched} of ${filter.total} rows matched the filter "${filter.expression}".` : `${records.length} rows processed.`,
+    numericFields.length
+      ? `Key measures: ${numericFields.map((field) => `${field} (total ${formatNumber(totals[field], locale)})`).join(", ")}.`
+      : "No numeric measures detected.",
+    groupBy.length ? `Primary grouping: ${groupBy.join(", ")}.` : "No categorical dimensions found.",
+    describeSchema(schema),
+    timeSeries
+      ? `Time series: ${timeSeries.points.length} ${timeSeries.granularity} periods from ${timeSeries.points[0].period} to ${timeSeries.points[timeSeries.points.length - 1].period}.`
+      : "",
+    `Data quality score: ${quality.score}/100${quality.issues.length ? ` with ${quality.issues.length} issue${quality.issues.length === 1 ? "" : "s"} found` : ""}.`,
+  ].filter(Boolean)
+
+  const tableLimit = options.spec?.topN ?? DEFAULT_TABLE_ROWS
+  const calculatedMeasures: MeasureSpec[] = schema
+    .filter((column) => calculatedNames.includes(column.name) && column.role === "measure")
+    .filter((column) => !spec.measures.some((measure) => measure.column === column.name))
+    .map((column) => ({ column: column.name, aggregation: "avg" }))
+  const tableMeasures = [...spec.measures, ...calculatedMeasures]
+  const baseHeaders = groupBy.length ? groupBy : numericFields.slice(0, 2)
+  const tableHeaders = isGrouped
+    ? [...groupBy, ...tableMeasures.map(measureLabel)]
+    : [...baseHeaders, ...calculatedNames.filter((name) => !baseHeaders.includes(name))]
+  const tableRows: (string | number)[][] = isGrouped
+    ? (tableLimit === spec.topN && !calculatedMeasures.length
+        ? grouped
+        : groupRecords(records, groupBy, tableMeasures, { ...groupOptions, topN: tableLimit })
+      ).map((row) => [...row.key, ...row.values])
+    : records.slice(0, DEFAULT_TABLE_ROWS).map((record) => tableHeaders.map((header) => record[header] ?? ""))
+
   return {
     summary: summaryLines.join(" "),
     insights,
@@ -217,5 +512,17 @@ export function analyzeRecords(records: DataRecord[]): AnalysisResult {
       headers: tableHeaders,
       rows: tableRows,
     },
+    schema,
+    spec,
+    timeSeries,
+    profile: profileColumns(records, schema),
+    anomalies,
+    correlations,
+    quality,
+    filter,
+    calculatedColumns: calculatedNames,
+    pivot,
+    forecast,
+    locale,
   }
 }
@@ -0,0 +1,235 @@
+import { aggregate, measureLabel, MeasureSpec } from "./aggregate"
+import { formatNumber, NumberLocale, toNumber } from "./numbers"
+import { CellValue, parseDateValue } from "./schema"
+import { mean, quantile, standardDeviation } from "./statistics"
+import { bucketDate, TimeSeriesResult } from "./time-series"
+
+export type AnomalySeverity = "low" | "medium" | "high"
+
+export type AnomalyMethod = "z-score" | "iqr" | "spike" | "drop"
+
+export interface AnomalyInsight {
+  id: string
+  scope: "row" | "group" | "period"
+  methods: AnomalyMethod[]
+  severity: AnomalySeverity
+  metric: string
+  label: string
+  value: number
+  expected: number
+  score: number
+  rowIndices: number[]
+  message: string
+}
+
+export interface AnomalyOptions {
+  groupBy: string[]
+  measure?: MeasureSpec
+  timeSeries: TimeSeriesResult | null
+  /** How values in the messages are written; defaults to en-US. */
+  locale?: NumberLocale
+}
+
+const Z_MEDIUM = 2.5
+const Z_HIGH = 3.5
+const IQR_MEDIUM = 1.5
+const IQR_HIGH = 3
+const SPIKE_WINDOW = 3
+const SPIKE_THRESHOLD = 0.5
+const MAX_ANOMALIES = 50
+const MIN_SAMPLE = 4
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { low: 0, medium: 1, high: 2 }
+
+interface Outlier {
+  index: number
+  value: number
+  methods: AnomalyMethod[]
+  severity: AnomalySeverity
+  score: number
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2))
+}
+
+function maxSeverity(a: AnomalySeverity, b: AnomalySeverity): AnomalySeverity {
+  return SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b
+}
+
+/**
+ * Flag values that are extreme by z-score or fall outside the Tukey fences.
+ * A value caught by both methods keeps the higher severity.
+ */
+export function findOutliers(values: (number | null)[]): { outliers: Outlier[]; mean: number; median: number } {
+  const present = values.filter((value): value is number => value !== null)
+  const sorted = [...present].sort((a, b) => a - b)
+  const average = mean(present)
+  const middle = quantile(sorted, 0.5)
+  if (present.length < MIN_SAMPLE) return { outliers: [], mean: average, median: middle }
+
+  const deviation = standardDeviation(present)
+  const q1 = quantile(sorted, 0.25)
+  const q3 = quantile(sorted, 0.75)
+  const iqr = q3 - q1
+  const outliers: Outlier[] = []
+
+  values.forEach((value, index) => {
+    if (value === null) return
+    const methods: AnomalyMethod[] = []
+    let severity: AnomalySeverity = "low"
+    let score = 0
+
+    const z = deviation > 0 ? Math.abs(value - average) / deviation : 0
+    if (z >= Z_MEDIUM) {
+      methods.push("z-score")
+      severity = maxSeverity(severity, z >= Z_HIGH ? "high" : "medium")
+      score = z
+    }
+
+    if (iqr > 0) {
+      const distance = value > q3 ? (value - q3) / iqr : value < q1 ? (q1 - value) / iqr : 0
+      if (distance > IQR_MEDIUM) {
+        methods.push("iqr")
+        severity = maxSeverity(severity, distance > IQR_HIGH ? "high" : "medium")
+        score = Math.max(score, distance)
+      }
+    }
+
+    if (methods.length) {
+      outliers.push({ index, value, methods, severity, score: round(score) })
+    }
+  })
+
+  return { outliers, mean: average, median: middle }
+}
+
+function describeOutlier(subject: string, metric: string, value: number, expected: number, locale?: NumberLocale): string {
+  const direction = value > expected ? "unusually high" : "unusually low"
+  return `${subject} has an ${direction} ${metric} of ${formatNumber(value, locale)} (typical ${formatNumber(round(expected), locale)}).`
+}
+
+function detectRowAnomalies(records: Record<string, CellValue>[], measures: string[], locale?: NumberLocale): AnomalyInsight[] {
+  return measures.flatMap((metric) => {
+    const values = records.map((record) => toNumber(record[metric]))
+    const { outliers, median } = findOutliers(values)
+    return outliers.map((outlier) => ({
+      id: `row-${metric}-${outlier.index}`,
+      scope: "row" as const,
+      methods: outlier.methods,
+      severity: outlier.severity,
+      metric,
+      label: `Row ${outlier.index + 1}`,
+      value: outlier.value,
+      expected: round(median),
+      score: outlier.score,
+      rowIndices: [outlier.index],
+      message: describeOutlier(`Row ${outlier.index + 1}`, metric, outlier.value, median, locale),
+    }))
+  })
+}
+
+function detectGroupAnomalies(
+  records: Record<string, CellValue>[],
+  groupBy: string[],
+  measure: MeasureSpec,
+  locale?: NumberLocale,
+): AnomalyInsight[] {
+  const groups = new Map<string, number[]>()
+  records.forEach((record, index) => {
+    const label = groupBy.map((column) => String(record[column] ?? "").trim() || "Unknown").join(" / ")
+    const indices = groups.get(label) ?? []
+    indices.push(index)
+    groups.set(label, indices)
+  })
+
+  const entries = Array.from(groups.entries())
+  const values = entries.map(([, indices]) =>
+    aggregate(
+      indices.map((index) => records[index][measure.column]),
+      measure.aggregation,
+    ),
+  )
+  const { outliers, median } = findOutliers(values)
+  const metric = measureLabel(measure)
+
+  return outliers.map((outlier) => {
+    const [label, indices] = entries[outlier.index]
+    return {
+      id: `group-${metric}-${label}`,
+      scope: "group" as const,
+      methods: outlier.methods,
+      severity: outlier.severity,
+      metric,
+      label,
+      value: round(outlier.value),
+      expected: round(median),
+      score: outlier.score,
+      rowIndices: indices,
+      message: describeOutlier(label, metric, round(outlier.value), median, locale),
+    }
+  })
+}
+
+function detectPeriodAnomalies(records: Record<string, CellValue>[], series: TimeSeriesResult): AnomalyInsight[] {
+  const rowsByPeriod = new Map<string, number[]>()
+  records.forEach((record, index) => {
+    const date = parseDateValue(record[series.timeColumn])
+    if (!date) return
+    const { period } = bucketDate(date, series.granularity)
+    const indices = rowsByPeriod.get(period) ?? []
+    indices.push(index)
+    rowsByPeriod.set(period, indices)
+  })
+
+  const insights: AnomalyInsight[] = []
+  series.measures.forEach((metric) => {
+    const values = series.points.map((point) => point.values[metric])
+    for (let index = SPIKE_WINDOW; index < values.length; index += 1) {
+      const baseline = mean(values.slice(index - SPIKE_WINDOW, index))
+      if (baseline === 0 || series.points[index].count === 0) continue
+      const change = (values[index] - baseline) / Math.abs(baseline)
+      if (Math.abs(change) < SPIKE_THRESHOLD) continue
+
+      const point = series.points[index]
+      const method: AnomalyMethod = change > 0 ? "spike" : "drop"
+      const magnitude = Math.abs(change)
+      insights.push({
+        id: `period-${metric}-${point.period}`,
+        scope: "period",
+        methods: [method],
+        severity: magnitude >= 1 ? "high" : magnitude >= 0.75 ? "medium" : "low",
+        metric,
+        label: point.period,
+        value: values[index],
+        expected: round(baseline),
+        score: round(magnitude),
+        rowIndices: rowsByPeriod.get(point.period) ?? [],
+        message: `${metric} ${method === "spike" ? "spiked" : "dropped"} ${Math.round(magnitude * 100)}% in ${point.period} against the previous ${SPIKE_WINDOW}-period average.`,
+      })
+    }
+  })
+  return insights
+}
+
+/**
+ * Run row, group and period detectors and return the most severe findings
+ * first, capped so a noisy column cannot flood the insight list.
+ */
+export function detectAnomalies(
+  records: Record<string, CellValue>[],
+  measures: string[],
+  options: AnomalyOptions,
+): AnomalyInsight[] {
+  const anomalies = [
+    ...detectRowAnomalies(records, measures, options.locale),
+    ...(options.groupBy.length && options.measure
+      ? detectGroupAnomalies(records, options.groupBy, options.measure, options.locale)
+      : []),
+    ...(options.timeSeries ? detectPeriodAnomalies(records, options.timeSeries) : []),
+  ]
+
+  return anomalies
+    .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.score - a.score)
+    .slice(0, MAX_ANOMALIES)
+}
@@ -0,0 +1,281 @@
+export type ChartExportFormat = "svg" | "png"
+
+/** Keep the colors as displayed, or redraw on white with dark text and gridlines. */
+export type ChartBackground = "theme" | "light"
+
+export interface ChartExportOptions {
+  title: string
+  format: ChartExportFormat
+  background: ChartBackground
+  /** Pixel density of PNG exports; ignored for SVG. */
+  scale?: number
+}
+
+export const PNG_SCALES = [1, 2, 3, 4]
+
+const SVG_NS = "http://www.w3.org/2000/svg"
+const XHTML_NS = "http://www.w3.org/1999/xhtml"
+const TITLE_HEIGHT = 36
+const MARGIN = 16
+const LIGHT_BACKGROUND = "#ffffff"
+
+const SVG_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-opacity",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+]
+
+const HTML_PROPERTIES = [
+  "display",
+  "box-sizing",
+  "position",
+  "flex-direction",
+  "flex-wrap",
+  "flex-grow",
+  "flex-shrink",
+  "flex-basis",
+  "align-items",
+  "justify-content",
+  "row-gap",
+  "column-gap",
+  "grid-template-columns",
+  "width",
+  "height",
+  "min-width",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "margin-top",
+  "margin-right",
+  "margin-bottom",
+  "margin-left",
+  "border-top-width",
+  "border-right-width",
+  "border-bottom-width",
+  "border-left-width",
+  "border-top-style",
+  "border-right-style",
+  "border-bottom-style",
+  "border-left-style",
+  "border-top-color",
+  "border-right-color",
+  "border-bottom-color",
+  "border-left-color",
+  "border-radius",
+  "background-color",
+  "color",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "font-variant-numeric",
+  "line-height",
+  "text-align",
+  "white-space",
+  "overflow",
+  "text-overflow",
+  "opacity",
+]
+
+const COLOR_PROPERTIES = new Set([
+  "fill",
+  "stroke",
+  "color",
+  "background-color",
+  "border-top-color",
+  "border-right-color",
+  "border-bottom-color",
+  "border-left-color",
+])
+
+/**
+ * Map a computed color onto a white background: greys (the text, axis and
+ * gridline shades) have their lightness inverted, while series colors keep
+ * their hue. Accepts the `rgb()`/`rgba()` and `oklch()` forms browsers
+ * return from `getComputedStyle`; anything else is returned unchanged.
+ */
+export function toLightColor(color: string): string {
+  const oklch = color.match(/^oklch\(\s*([\d.]+)(%?)\s+([\d.]+)\s+([\d.]+|none)\s*(\/\s*[\d.]+%?)?\s*\)$/)
+  if (oklch) {
+    const [, lightness, percent, chroma, hue, alpha = ""] = oklch
+    const value = Number(lightness) / (percent ? 100 : 1)
+    if (Number(chroma) > 0.05) return color
+    return `oklch(${Number((1 - value).toFixed(3))} ${chroma} ${hue}${alpha ? ` ${alpha}` : ""})`
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\s*\)$/)
+  if (rgb) {
+    const [red, green, blue] = rgb.slice(1, 4).map(Number)
+    if (Math.max(red, green, blue) - Math.min(red, green, blue) > 48) return color
+    const [r, g, b] = [red, green, blue].map((channel) => 255 - channel)
+    return rgb[4] === undefined ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${rgb[4]})`
+  }
+
+  return color
+}
+
+/** A file name from the chart title, e.g. "Trend chart" becomes `trend-chart.png`. */
+export function chartFileName(title: string, format: ChartExportFormat): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return `${slug || "chart"}.${format}`
+}
+
+function isDarkTheme(): boolean {
+  return typeof window !== "undefined" && window.matchMedia("(prefers-color-scheme: dark)").matches
+}
+
+/** Copy the computed styles of `source` and its descendants onto the matching nodes of `target`. */
+function inlineStyles(source: Element, target: Element, recolor: boolean) {
+  const properties = source instanceof SVGElement ? SVG_PROPERTIES : HTML_PROPERTIES
+  const computed = window.getComputedStyle(source)
+  const declarations = properties
+    .map((property) => {
+      const value = computed.getPropertyValue(property)
+      if (!value) return null
+      return `${property}:${recolor && COLOR_PROPERTIES.has(property) ? toLightColor(value) : value}`
+    })
+    .filter(Boolean)
+  target.setAttribute("style", declarations.join(";"))
+  target.removeAttribute("class")
+
+  const sourceChildren = Array.from(source.children)
+  const targetChildren = Array.from(target.children)
+  sourceChildren.forEach((child, index) => {
+    if (targetChildren[index]) inlineStyles(child, targetChildren[index], recolor)
+  })
+}
+
+/** The nearest background actually painted behind `element`, such as the card it sits on. */
+function paintedBackground(element: Element): string {
+  let current: Element | null = element
+  while (current) {
+    const color = window.getComputedStyle(current).backgroundColor
+    if (color && color !== "transparent" && !/rgba\(.*,\s*0\)$/.test(color)) return color
+    current = current.parentElement
+  }
+  return LIGHT_BACKGROUND
+}
+
+/**
+ * Build a standalone SVG document of a rendered chart: computed styles are
+ * inlined so it looks the same outside the app, and the title is added both
+ * as a heading and as the document's `<title>`. Charts drawn with HTML are
+ * embedded through `<foreignObject>`.
+ */
+export function buildChartSvg(
+  element: Element,
+  options: Pick<ChartExportOptions, "title" | "background">,
+): { markup: string; width: number; height: number } {
+  // Wrappers around a lone <svg> are skipped so SVG charts export as plain vector markup.
+  let wrapper = element
+  while (wrapper.children.length === 1 && wrapper.firstElementChild instanceof HTMLElement) {
+    wrapper = wrapper.firstElementChild
+  }
+  const lone = wrapper.children.length === 1 && wrapper.firstElementChild instanceof SVGSVGElement ? wrapper.firstElementChild : null
+  const source = lone ?? element
+
+  const bounds = source.getBoundingClientRect()
+  const chartWidth = Math.ceil(bounds.width)
+  const chartHeight = Math.ceil(bounds.height)
+  const width = chartWidth + MARGIN * 2
+  const height = chartHeight + TITLE_HEIGHT + MARGIN * 2
+  const recolor = options.background === "light" && isDarkTheme()
+  const background = options.background === "light" ? LIGHT_BACKGROUND : paintedBackground(element)
+  const textColor = options.background === "light" ? "#0f172a" : window.getComputedStyle(element).color
+  const fontFamily = window.getComputedStyle(element).fontFamily
+
+  const svg = document.createElementNS(SVG_NS, "svg")
+  svg.setAttribute("xmlns", SVG_NS)
+  svg.setAttribute("width", String(width))
+  svg.setAttribute("height", String(height))
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`)
+
+  const title = document.createElementNS(SVG_NS, "title")
+  title.textContent = options.title
+  const backdrop = document.createElementNS(SVG_NS, "rect")
+  backdrop.setAttribute("width", "100%")
+  backdrop.setAttribute("height", "100%")
+  backdrop.setAttribute("fill", background)
+  const heading = document.createElementNS(SVG_NS, "text")
+  heading.setAttribute("x", String(MARGIN))
+  heading.setAttribute("y", String(MARGIN + 16))
+  heading.setAttribute("style", `fill:${textColor};font-family:${fontFamily};font-size:16px;font-weight:600`)
+  heading.textContent = options.title
+  svg.append(title, backdrop, heading)
+
+  const content = source.cloneNode(true) as Element
+  inlineStyles(source, content, recolor)
+  if (lone) {
+    content.setAttribute("x", String(MARGIN))
+    content.setAttribute("y", String(MARGIN + TITLE_HEIGHT))
+    content.setAttribute("width", String(chartWidth))
+    content.setAttribute("height", String(chartHeight))
+    svg.append(content)
+  } else {
+    const foreign = document.createElementNS(SVG_NS, "foreignObject")
+    foreign.setAttribute("x", String(MARGIN))
+    foreign.setAttribute("y", String(MARGIN + TITLE_HEIGHT))
+    foreign.setAttribute("width", String(chartWidth))
+    foreign.setAttribute("height", String(chartHeight))
+    content.setAttribute("xmlns", XHTML_NS)
+    foreign.append(content)
+    svg.append(foreign)
+  }
+
+  const markup = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`
+  return { markup, width, height }
+}
+
+/** Rasterize SVG markup at `scale` device pixels per CSS pixel. */
+export function renderSvgToPng(markup: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        reject(new Error("Canvas is not available in this browser."))
+        return
+      }
+      context.scale(scale, scale)
+      context.drawImage(image, 0, 0, width, height)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the PNG."))), "image/png")
+    }
+    image.onerror = () => reject(new Error("Could not render the chart image."))
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`
+  })
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.append(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export async function exportChart(element: Element, options: ChartExportOptions) {
+  const { markup, width, height } = buildChartSvg(element, options)
+  const blob =
+    options.format === "svg"
+      ? new Blob([markup], { type: "image/svg+xml" })
+      : await renderSvgToPng(markup, width, height, options.scale)
+  downloadBlob(blob, chartFileName(options.title, options.format))
+}
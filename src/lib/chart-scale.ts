@@ -0,0 +1,75 @@
+export type Scale = (value: number) => number
+
+/** One named row of values aligned with a chart's category labels; null leaves a gap. */
+export interface ChartSeries {
+  name: string
+  values: (number | null)[]
+}
+
+/** Tailwind's 500 shades, in the order chart series are assigned colors. */
+export const SERIES_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4", "#ec4899", "#84cc16"]
+
+export function seriesColor(index: number): string {
+  return SERIES_COLORS[index % SERIES_COLORS.length]
+}
+
+export function linearScale(domain: [number, number], range: [number, number]): Scale {
+  const [d0, d1] = domain
+  const [r0, r1] = range
+  const span = d1 - d0 || 1
+  return (value) => r0 + ((value - d0) / span) * (r1 - r0)
+}
+
+/**
+ * Round tick values (1, 2, 2.5 or 5 times a power of ten) whose first and
+ * last ticks enclose `min` and `max`. A flat range is widened around its
+ * value so there is always something to draw.
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [0, 1]
+  if (min === max) {
+    const pad = Math.abs(min) / 2 || 1
+    min -= pad
+    max += pad
+  }
+  const raw = (max - min) / Math.max(1, count - 1)
+  const magnitude = 10 ** Math.floor(Math.log10(raw))
+  const step = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= raw) ?? raw
+
+  const ticks: number[] = []
+  const first = Math.floor(min / step)
+  const last = Math.ceil(max / step)
+  for (let index = first; index <= last; index += 1) {
+    ticks.push(Number((index * step).toPrecision(12)))
+  }
+  return ticks
+}
+
+/** Every nth index to label so at most `max` category labels are drawn. */
+export function labelStride(count: number, max = 8): number {
+  return Math.max(1, Math.ceil(count / max))
+}
+
+export function truncateLabel(label: string, length = 14): string {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label
+}
+
+/**
+ * The path of one donut segment between two angles in radians, measured
+ * clockwise from twelve o'clock.
+ */
+export function arcPath(cx: number, cy: number, outer: number, inner: number, start: number, end: number): string {
+  // A full circle cannot be drawn as a single arc, so stop just short of it.
+  const sweep = Math.min(end - start, Math.PI * 2 - 1e-4)
+  const finish = start + sweep
+  const point = (radius: number, angle: number) =>
+    `${(cx + radius * Math.sin(angle)).toFixed(2)},${(cy - radius * Math.cos(angle)).toFixed(2)}`
+  const large = sweep > Math.PI ? 1 : 0
+  return [
+    `M${point(outer, start)}`,
+    `A${outer},${outer} 0 ${large} 1 ${point(outer, finish)}`,
+    `L${point(inner, finish)}`,
+    `A${inner},${inner} 0 ${large} 0 ${point(inner, start)}`,
+    "Z",
+  ].join(" ")
+}
@@ -0,0 +1,65 @@
+import { EXPRESSION_FUNCTIONS, evaluateExpression, formatExpression, formatResult, parseExpression } from "../expression"
+import { defineChatTool } from "./registry"
+
+const WORD = `\\b(?:${[...EXPRESSION_FUNCTIONS, "pi", "tau", "e", "of"].join("|")})\\b`
+/** Runs of numbers, operators, brackets and known function names within a message. */
+const CANDIDATE = new RegExp(`(?:${WORD}|[\\d.()+\\-*/^%,×÷−π]|[ \\t])+`, "gi")
+/** A candidate is only arithmetic if it applies an operator, a percentage or a function to a number. */
+const ARITHMETIC = new RegExp(`\\d.*(?:[+\\-*/^%×÷−]|\\bof\\b)|${WORD}\\s*\\(`, "i")
+
+/**
+ * Commas only separate function arguments inside brackets. Elsewhere, one
+ * between a digit and exactly three more groups thousands and is dropped,
+ * so "1,000 + 2" reads as 1000 + 2; any other comma ends the expression.
+ */
+function splitOnCommas(candidate: string): string[] {
+  const parts = [""]
+  let depth = 0
+  for (let index = 0; index < candidate.length; index += 1) {
+    const char = candidate[index]
+    if (char === "(") depth += 1
+    if (char === ")") depth = Math.max(0, depth - 1)
+    if (char === "," && depth === 0) {
+      const grouping = /\d/.test(candidate[index - 1] ?? "") && /^\d{3}(?!\d)/.test(candidate.slice(index + 1))
+      if (!grouping) parts.push("")
+      continue
+    }
+    parts[parts.length - 1] += char
+  }
+  return parts
+}
+
+/**
+ * The longest stretch of `message` that reads as arithmetic, e.g.
+ * "(12 + 3) * 4 / 2" from "what is (12 + 3) * 4 / 2?".
+ */
+export function findExpression(message: string): string | null {
+  const candidates = (message.match(CANDIDATE) ?? [])
+    .flatMap(splitOnCommas)
+    .map((candidate) => candidate.trim().replace(/^\.+|\.+$/g, "").trim())
+    .filter((candidate) => /\d/.test(candidate) && ARITHMETIC.test(candidate))
+  if (!candidates.length) return null
+  return candidates.reduce((longest, candidate) => (candidate.length > longest.length ? candidate : longest))
+}
+
+export const calculatorTool = defineChatTool<{ expression: string }>({
+  name: "calculator",
+  description:
+    "Evaluates an arithmetic expression with + - * / ^, parentheses, percentages (`15% of 240`, `80 + 15%`), " +
+    `the constants pi and e, and the functions ${EXPRESSION_FUNCTIONS.join(", ")}.`,
+  parameters: {
+    type: "object",
+    properties: {
+      expression: { type: "string", description: "The expression to evaluate, e.g. (12 + 3) * 4 / 2." },
+    },
+    required: ["expression"],
+  },
+  plan(message) {
+    const expression = findExpression(message)
+    return expression ? { expression } : null
+  },
+  async execute({ expression }) {
+    const node = parseExpression(expression)
+    return `${formatExpression(node)} = ${formatResult(evaluateExpression(node))}`
+  },
+})
@@ -0,0 +1,8 @@
+import { calculatorTool } from "./calculator"
+import { createToolRegistry } from "./registry"
+import { weatherTool } from "./weather"
+
+export * from "./registry"
+
+/** The tools the chat agent can call. Add a tool by writing its module and listing it here. */
+export const chatTools = createToolRegistry([calculatorTool, weatherTool])
@@ -0,0 +1,129 @@
+export type ToolArgumentType = "string" | "number" | "integer" | "boolean"
+
+export interface ToolParameter {
+  type: ToolArgumentType
+  description: string
+  enum?: (string | number)[]
+}
+
+/** The JSON Schema subset tools use to describe their arguments. */
+export interface ToolParameters {
+  type: "object"
+  properties: Record<string, ToolParameter>
+  required?: string[]
+}
+
+export type ToolArguments = Record<string, string | number | boolean>
+
+export interface ChatTool<Args extends ToolArguments = ToolArguments> {
+  name: string
+  description: string
+  parameters: ToolParameters
+  /**
+   * Read the tool's arguments from a user message, standing in for the
+   * model choosing to call it. Returns null when the tool does not apply.
+   */
+  plan(message: string): Args | null
+  execute(args: Args): Promise<string>
+}
+
+export interface ToolCall {
+  tool: string
+  arguments: ToolArguments
+  output: string
+  /** Set when the arguments were rejected or the tool threw; `output` holds the reason. */
+  failed?: boolean
+}
+
+/** What `/api/tools` lists for each registered tool. */
+export interface ToolDescription {
+  name: string
+  description: string
+  parameters: ToolParameters
+}
+
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ToolArgumentError"
+  }
+}
+
+function matchesType(value: unknown, type: ToolArgumentType): boolean {
+  if (type === "integer") return typeof value === "number" && Number.isInteger(value)
+  if (type === "number") return typeof value === "number" && Number.isFinite(value)
+  return typeof value === type
+}
+
+/** The first problem with `args` against `parameters`, or null when they are valid. */
+export function validateToolArguments(parameters: ToolParameters, args: Record<string, unknown>): string | null {
+  for (const name of parameters.required ?? []) {
+    if (args[name] === undefined || args[name] === "") return `Missing required argument "${name}".`
+  }
+  for (const [name, value] of Object.entries(args)) {
+    const parameter = parameters.properties[name]
+    if (!parameter) return `Unknown argument "${name}".`
+    if (!matchesType(value, parameter.type)) return `Argument "${name}" must be of type ${parameter.type}.`
+    if (parameter.enum && !parameter.enum.includes(value as string | number)) {
+      return `Argument "${name}" must be one of: ${parameter.enum.join(", ")}.`
+    }
+  }
+  return null
+}
+
+/**
+ * Declare a tool with typed arguments. The registry only passes arguments
+ * that passed `validateToolArguments`, so the types can be widened here.
+ */
+export function defineChatTool<Args extends ToolArguments>(tool: ChatTool<Args>): ChatTool {
+  return tool as unknown as ChatTool
+}
+
+export function createToolRegistry(tools: ChatTool[] = []) {
+  const registered = new Map<string, ChatTool>()
+
+  const registry = {
+    register(tool: ChatTool) {
+      if (registered.has(tool.name)) throw new Error(`A tool named "${tool.name}" is already registered.`)
+      registered.set(tool.name, tool)
+    },
+    get(name: string): ChatTool | undefined {
+      return registered.get(name)
+    },
+    describe(): ToolDescription[] {
+      return Array.from(registered.values(), ({ name, description, parameters }) => ({ name, description, parameters }))
+    },
+    /** Validate the arguments and run the tool. Failures inside the tool are reported in the call, not thrown. */
+    async call(name: string, args: ToolArguments): Promise<ToolCall> {
+      const tool = registered.get(name)
+      if (!tool) throw new ToolArgumentError(`Unknown tool "${name}".`)
+      const invalid = validateToolArguments(tool.parameters, args)
+      if (invalid) throw new ToolArgumentError(invalid)
+      try {
+        return { tool: name, arguments: args, output: await tool.execute(args) }
+      } catch (error) {
+        return { tool: name, arguments: args, output: error instanceof Error ? error.message : String(error), failed: true }
+      }
+    },
+    /** Call every tool that applies to the message, in registration order. */
+    async run(message: string): Promise<ToolCall[]> {
+      const calls: ToolCall[] = []
+      for (const tool of registered.values()) {
+        const args = tool.plan(message)
+        if (!args) continue
+        try {
+          calls.push(await registry.call(tool.name, args))
+        } catch (error) {
+          if (!(error instanceof ToolArgumentError)) throw error
+          calls.push({ tool: tool.name, arguments: args, output: error.message, failed: true })
+        }
+      }
+      return calls
+    },
+  }
+
+  tools.forEach((tool) => registry.register(tool))
+  return registry
+}
+
+export type ToolRegistry = ReturnType<typeof createToolRegistry>
@@ -0,0 +1,42 @@
+import { defineChatTool } from "./registry"
+
+const SNAPSHOTS: Record<string, { summary: string; temperature: number; humidity: number }> = {
+  "san francisco": {
+    summary: "Foggy morning clearing to sun in the afternoon.",
+    temperature: 68,
+    humidity: 72,
+  },
+  seattle: {
+    summary: "Light rain with intermittent clear pockets.",
+    temperature: 58,
+    humidity: 80,
+  },
+  london: {
+    summary: "Overcast with a brief drizzle expected after lunch.",
+    temperature: 61,
+    humidity: 77,
+  },
+}
+
+export const weatherTool = defineChatTool<{ location: string }>({
+  name: "weather",
+  description: "Looks up current conditions for a city from cached snapshots.",
+  parameters: {
+    type: "object",
+    properties: {
+      location: { type: "string", description: "City name, e.g. Seattle." },
+    },
+    required: ["location"],
+  },
+  plan(message) {
+    const match = message.match(/weather\s+in\s+([a-zA-Z\s]+)/i)
+    return match ? { location: match[1].trim() } : null
+  },
+  async execute({ location }) {
+    const snapshot = SNAPSHOTS[location.trim().toLowerCase()]
+    if (!snapshot) {
+      return `No weather data for ${location.trim()}.`
+    }
+    return `${snapshot.summary} Currently ${snapshot.temperature}°F with humidity at ${snapshot.humidity}%.`
+  },
+})
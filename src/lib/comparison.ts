@@ -0,0 +1,124 @@
+import { AnalysisOptions, AnalysisResult, analyzeRecords, DataRecord } from "./analysis"
+import { toNumber } from "./numbers"
+
+export type GroupChangeStatus = "added" | "removed" | "changed" | "unchanged"
+
+export interface KpiDelta {
+  label: string
+  baseline: string | null
+  current: string | null
+  delta: number | null
+  /** Percentage change against the baseline; null when it was zero or missing. */
+  percent: number | null
+}
+
+export interface GroupDelta {
+  label: string
+  status: GroupChangeStatus
+  baseline: number | null
+  current: number | null
+  delta: number | null
+  percent: number | null
+  /** 1-based positions in each run's `trends`; null where the group is absent. */
+  baselineRank: number | null
+  currentRank: number | null
+  /** Positive when the group moved up the ranking. */
+  rankChange: number | null
+}
+
+export interface AnalysisComparison {
+  /** False when the runs were analyzed with different groupings or measures, so deltas may not line up. */
+  sameSpec: boolean
+  kpis: KpiDelta[]
+  groups: GroupDelta[]
+  added: string[]
+  removed: string[]
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2))
+}
+
+function change(baseline: number | null, current: number | null): { delta: number | null; percent: number | null } {
+  if (baseline === null || current === null) return { delta: null, percent: null }
+  return {
+    delta: round(current - baseline),
+    percent: baseline === 0 ? null : round(((current - baseline) / Math.abs(baseline)) * 100),
+  }
+}
+
+function sameSpec(baseline: AnalysisResult, current: AnalysisResult): boolean {
+  const describe = ({ spec }: AnalysisResult) => JSON.stringify([spec.groupBy, spec.measures, spec.sort])
+  return describe(baseline) === describe(current)
+}
+
+/**
+ * Diff two analysis results: KPI deltas matched by label, and per-group value
+ * and rank changes across `trends`, listing groups that only one run has.
+ * Groups are ordered by the current run's ranking, with removed groups last.
+ */
+export function compareAnalyses(baseline: AnalysisResult, current: AnalysisResult): AnalysisComparison {
+  const kpiLabels = [
+    ...current.kpis.map((kpi) => kpi.label),
+    ...baseline.kpis.map((kpi) => kpi.label).filter((label) => !current.kpis.some((kpi) => kpi.label === label)),
+  ]
+  const kpis = kpiLabels.map((label): KpiDelta => {
+    const before = baseline.kpis.find((kpi) => kpi.label === label)?.value ?? null
+    const after = current.kpis.find((kpi) => kpi.label === label)?.value ?? null
+    return {
+      label,
+      baseline: before,
+      current: after,
+      ...change(toNumber(before, baseline.locale), toNumber(after, current.locale)),
+    }
+  })
+
+  const baselineRanks = new Map(baseline.trends.map((point, index) => [point.label, { point, rank: index + 1 }]))
+  const currentRanks = new Map(current.trends.map((point, index) => [point.label, { point, rank: index + 1 }]))
+  const labels = [
+    ...current.trends.map((point) => point.label),
+    ...baseline.trends.map((point) => point.label).filter((label) => !currentRanks.has(label)),
+  ]
+
+  const groups = labels.map((label): GroupDelta => {
+    const before = baselineRanks.get(label)
+    const after = currentRanks.get(label)
+    const values = change(before?.point.value ?? null, after?.point.value ?? null)
+    const status: GroupChangeStatus = !before
+      ? "added"
+      : !after
+        ? "removed"
+        : values.delta === 0 && before.rank === after.rank
+          ? "unchanged"
+          : "changed"
+    return {
+      label,
+      status,
+      baseline: before?.point.value ?? null,
+      current: after?.point.value ?? null,
+      ...values,
+      baselineRank: before?.rank ?? null,
+      currentRank: after?.rank ?? null,
+      rankChange: before && after ? before.rank - after.rank : null,
+    }
+  })
+
+  return {
+    sameSpec: sameSpec(baseline, current),
+    kpis,
+    groups,
+    added: groups.filter((group) => group.status === "added").map((group) => group.label),
+    removed: groups.filter((group) => group.status === "removed").map((group) => group.label),
+  }
+}
+
+/** Analyze two datasets with the same options and diff the results. */
+export function compareDatasets(
+  baselineRecords: DataRecord[],
+  currentRecords: DataRecord[],
+  options: AnalysisOptions = {},
+): { baseline: AnalysisResult; current: AnalysisResult; comparison: AnalysisComparison } {
+  const baseline = analyzeRecords(baselineRecords, options)
+  const current = analyzeRecords(currentRecords, options)
+  return { baseline, current, comparison: compareAnalyses(baseline, current) }
+}
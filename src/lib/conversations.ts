@@ -0,0 +1,49 @@
+export interface ConversationSummary {
+  title: string
+  pinned: boolean
+  updatedAt: number
+  messages: { content: string }[]
+}
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation"
+
+const MAX_TITLE_LENGTH = 48
+
+/**
+ * A short title from the first user message: markdown and extra whitespace
+ * are stripped, the first sentence is kept, and long text is cut at a word
+ * boundary.
+ */
+export function conversationTitle(message: string): string {
+  const text = message
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/[`*_#>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+  if (!text) return DEFAULT_CONVERSATION_TITLE
+
+  const [sentence] = text.split(/(?<=[.?!])\s/)
+  const title = sentence.replace(/[.!]+$/, "")
+  if (title.length <= MAX_TITLE_LENGTH) return title.charAt(0).toUpperCase() + title.slice(1)
+  const cut = title.slice(0, MAX_TITLE_LENGTH)
+  const boundary = cut.lastIndexOf(" ")
+  const shortened = boundary > MAX_TITLE_LENGTH / 2 ? cut.slice(0, boundary) : cut
+  return `${shortened.charAt(0).toUpperCase()}${shortened.slice(1)}…`
+}
+
+/**
+ * Conversations matching every word of `query` in their title or messages,
+ * pinned ones first and then the most recently updated.
+ */
+export function searchConversations<T extends ConversationSummary>(conversations: T[], query: string): T[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  return conversations
+    .filter((conversation) => {
+      if (!words.length) return true
+      const haystack = [conversation.title, ...conversation.messages.map((message) => message.content)]
+        .join("\n")
+        .toLowerCase()
+      return words.every((word) => haystack.includes(word))
+    })
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt)
+}
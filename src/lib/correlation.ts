@@ -0,0 +1,116 @@
+import { toNumber } from "./numbers"
+import { CellValue } from "./schema"
+
+export type CorrelationMethod = "pearson" | "spearman"
+
+export interface CorrelationPair {
+  a: string
+  b: string
+  pearson: number
+  spearman: number
+  sampleSize: number
+}
+
+export interface CorrelationMatrix {
+  measures: string[]
+  pearson: (number | null)[][]
+  spearman: (number | null)[][]
+  pairs: CorrelationPair[]
+}
+
+const MIN_PAIRS = 3
+
+function round(value: number): number {
+  return Number(value.toFixed(4))
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length
+  if (n < MIN_PAIRS || n !== ys.length) return null
+  const meanX = xs.reduce((sum, value) => sum + value, 0) / n
+  const meanY = ys.reduce((sum, value) => sum + value, 0) / n
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let index = 0; index < n; index += 1) {
+    const dx = xs[index] - meanX
+    const dy = ys[index] - meanY
+    covariance += dx * dy
+    varianceX += dx * dx
+    varianceY += dy * dy
+  }
+  if (varianceX === 0 || varianceY === 0) return null
+  return covariance / Math.sqrt(varianceX * varianceY)
+}
+
+/**
+ * Fractional ranks (1-based); tied values share the average of their ranks.
+ */
+export function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const ranks = new Array<number>(values.length)
+  let start = 0
+  while (start < order.length) {
+    let end = start
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end += 1
+    const averageRank = (start + end) / 2 + 1
+    for (let position = start; position <= end; position += 1) {
+      ranks[order[position].index] = averageRank
+    }
+    start = end + 1
+  }
+  return ranks
+}
+
+export function spearman(xs: number[], ys: number[]): number | null {
+  if (xs.length < MIN_PAIRS || xs.length !== ys.length) return null
+  return pearson(rank(xs), rank(ys))
+}
+
+/**
+ * Pairwise Pearson and Spearman coefficients between measures, using only the
+ * rows where both values are present. Pairs are ordered strongest first.
+ */
+export function correlationMatrix(records: Record<string, CellValue>[], measures: string[]): CorrelationMatrix {
+  const columns = measures.map((measure) => records.map((record) => toNumber(record[measure])))
+  const size = measures.length
+  const pearsonMatrix: (number | null)[][] = measures.map(() => new Array(size).fill(null))
+  const spearmanMatrix: (number | null)[][] = measures.map(() => new Array(size).fill(null))
+  const pairs: CorrelationPair[] = []
+
+  for (let i = 0; i < size; i += 1) {
+    pearsonMatrix[i][i] = 1
+    spearmanMatrix[i][i] = 1
+    for (let j = i + 1; j < size; j += 1) {
+      const xs: number[] = []
+      const ys: number[] = []
+      columns[i].forEach((x, row) => {
+        const y = columns[j][row]
+        if (x !== null && y !== null) {
+          xs.push(x)
+          ys.push(y)
+        }
+      })
+
+      const r = pearson(xs, ys)
+      const rho = spearman(xs, ys)
+      pearsonMatrix[i][j] = pearsonMatrix[j][i] = r === null ? null : round(r)
+      spearmanMatrix[i][j] = spearmanMatrix[j][i] = rho === null ? null : round(rho)
+      if (r !== null && rho !== null) {
+        pairs.push({ a: measures[i], b: measures[j], pearson: round(r), spearman: round(rho), sampleSize: xs.length })
+      }
+    }
+  }
+
+  pairs.sort((first, second) => Math.abs(second.pearson) - Math.abs(first.pearson))
+
+  return { measures, pearson: pearsonMatrix, spearman: spearmanMatrix, pairs }
+}
+
+export function describeStrength(coefficient: number): string | null {
+  const magnitude = Math.abs(coefficient)
+  if (magnitude >= 0.9) return "very strongly"
+  if (magnitude >= 0.7) return "strongly"
+  if (magnitude >= 0.5) return "moderately"
+  return null
+}
@@ -0,0 +1,335 @@
+export type CsvRecord = Record<string, string>
+
+export type CsvDelimiter = "," | ";" | "\t" | "|"
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [",", ";", "\t", "|"]
+
+export type CsvWarningCode = "empty-header" | "duplicate-header" | "ragged-row" | "unterminated-quote" | "truncated"
+
+export interface CsvParseWarning {
+  code: CsvWarningCode
+  line: number
+  message: string
+}
+
+export interface CsvParseResult {
+  delimiter: CsvDelimiter
+  headers: string[]
+  records: CsvRecord[]
+  warnings: CsvParseWarning[]
+}
+
+export interface CsvParserOptions {
+  /** Omit to sniff the delimiter from the first lines of input. */
+  delimiter?: CsvDelimiter
+  onRow?: (record: CsvRecord, index: number) => void
+}
+
+export interface CsvStreamOptions extends CsvParserOptions {
+  totalBytes?: number
+  signal?: AbortSignal
+  onProgress?: (progress: { bytesRead: number; totalBytes?: number; rowsParsed: number }) => void
+}
+
+const MAX_WARNINGS = 100
+const SNIFF_LINES = 10
+const SNIFF_BYTES = 64 * 1024
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0
+  let insideQuotes = false
+  for (const char of line) {
+    if (char === '"') insideQuotes = !insideQuotes
+    else if (char === delimiter && !insideQuotes) count += 1
+  }
+  return count
+}
+
+/**
+ * Pick the delimiter that splits the sample's first lines into the same,
+ * non-zero number of fields most consistently. Falls back to a comma.
+ */
+export function sniffDelimiter(sample: string): CsvDelimiter {
+  const lines = sample
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .slice(0, SNIFF_LINES)
+  if (!lines.length) return ","
+
+  let best: { delimiter: CsvDelimiter; consistency: number; fields: number } = { delimiter: ",", consistency: 0, fields: 0 }
+
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter))
+    const frequencies = new Map<number, number>()
+    counts.forEach((count) => frequencies.set(count, (frequencies.get(count) ?? 0) + 1))
+    const [mode, occurrences] = Array.from(frequencies.entries())
+      .filter(([count]) => count > 0)
+      .sort(([countA, occA], [countB, occB]) => occB - occA || countB - countA)[0] ?? [0, 0]
+    const consistency = occurrences / lines.length
+
+    if (consistency > best.consistency || (consistency === best.consistency && mode > best.fields)) {
+      best = { delimiter, consistency, fields: mode }
+    }
+  })
+
+  return best.delimiter
+}
+
+type State = "field-start" | "unquoted" | "quoted" | "quote-in-quoted"
+
+/**
+ * Incremental RFC 4180 parser. Feed it text chunks of any size with `push`
+ * and call `end` once the input is exhausted; completed records are returned
+ * (and passed to `onRow`) as soon as their terminating newline is seen.
+ *
+ * Quoted fields may contain delimiters, CR/LF and doubled quotes. Unquoted
+ * fields are trimmed and blank lines are skipped, matching how spreadsheet
+ * exports are usually written.
+ */
+export class CsvStreamParser {
+  headers: string[] = []
+  warnings: CsvParseWarning[] = []
+  rowCount = 0
+
+  private resolvedDelimiter?: CsvDelimiter
+  private readonly onRow?: (record: CsvRecord, index: number) => void
+  private state: State = "field-start"
+  private field = ""
+  private row: string[] = []
+  private fieldQuoted = false
+  private line = 1
+  private rowLine = 1
+  private pendingCarriageReturn = false
+  private started = false
+  private sniffBuffer = ""
+  private warningOverflow = 0
+
+  constructor(options: CsvParserOptions = {}) {
+    this.resolvedDelimiter = options.delimiter
+    this.onRow = options.onRow
+  }
+
+  get delimiter(): CsvDelimiter {
+    return this.resolvedDelimiter ?? ","
+  }
+
+  push(chunk: string): CsvRecord[] {
+    if (!this.resolvedDelimiter) {
+      this.sniffBuffer += chunk
+      const lineBreaks = this.sniffBuffer.split("\n").length - 1
+      if (lineBreaks < SNIFF_LINES && this.sniffBuffer.length < SNIFF_BYTES) return []
+      return this.flushSniffBuffer()
+    }
+
+    const emitted: CsvRecord[] = []
+    let text = chunk
+
+    if (!this.started && text.length) {
+      this.started = true
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1)
+    }
+
+    for (let index = 0; index < text.length; index += 1) {
+      const char = text[index]
+
+      if (this.pendingCarriageReturn) {
+        this.pendingCarriageReturn = false
+        if (char === "\n") continue
+      }
+
+      switch (this.state) {
+        case "quoted":
+          if (char === '"') {
+            this.state = "quote-in-quoted"
+          } else {
+            if (char === "\n") this.line += 1
+            this.field += char
+          }
+          break
+
+        case "quote-in-quoted":
+          if (char === '"') {
+            this.field += '"'
+            this.state = "quoted"
+            break
+          }
+          this.state = "unquoted"
+          this.consumeStructural(char, emitted)
+          break
+
+        case "field-start":
+          if (char === '"') {
+            this.state = "quoted"
+            this.fieldQuoted = true
+            break
+          }
+          this.state = "unquoted"
+          this.consumeStructural(char, emitted)
+          break
+
+        case "unquoted":
+          this.consumeStructural(char, emitted)
+          break
+      }
+    }
+
+    return emitted
+  }
+
+  end(): CsvRecord[] {
+    const emitted: CsvRecord[] = this.resolvedDelimiter ? [] : this.flushSniffBuffer()
+    if (this.state === "quoted") {
+      this.warn("unterminated-quote", this.rowLine, "Quoted field was never closed; the rest of the file was read into it.")
+    }
+    if (this.state !== "field-start" || this.field.length || this.row.length) {
+      this.finishRow(emitted)
+    }
+    if (this.warningOverflow) {
+      this.warnings.push({
+        code: "truncated",
+        line: this.line,
+        message: `${this.warningOverflow} more warning${this.warningOverflow === 1 ? "" : "s"} omitted.`,
+      })
+      this.warningOverflow = 0
+    }
+    return emitted
+  }
+
+  private flushSniffBuffer(): CsvRecord[] {
+    const buffered = this.sniffBuffer
+    this.sniffBuffer = ""
+    this.resolvedDelimiter = sniffDelimiter(buffered)
+    return this.push(buffered)
+  }
+
+  private consumeStructural(char: string, emitted: CsvRecord[]) {
+    if (char === this.delimiter) {
+      this.finishField()
+      return
+    }
+    if (char === "\n" || char === "\r") {
+      this.finishRow(emitted)
+      this.line += 1
+      this.rowLine = this.line
+      this.pendingCarriageReturn = char === "\r"
+      return
+    }
+    this.field += char
+  }
+
+  private finishField() {
+    this.row.push(this.fieldQuoted ? this.field : this.field.trim())
+    this.field = ""
+    this.fieldQuoted = false
+    this.state = "field-start"
+  }
+
+  private finishRow(emitted: CsvRecord[]) {
+    this.finishField()
+    const values = this.row
+    this.row = []
+
+    if (values.length === 1 && values[0] === "") return
+
+    if (!this.headers.length) {
+      this.headers = this.normalizeHeaders(values)
+      return
+    }
+
+    if (values.length !== this.headers.length) {
+      this.warn(
+        "ragged-row",
+        this.rowLine,
+        values.length < this.headers.length
+          ? `Row has ${values.length} fields, expected ${this.headers.length}; missing fields were left empty.`
+          : `Row has ${values.length} fields, expected ${this.headers.length}; extra fields were dropped.`,
+      )
+    }
+
+    const record: CsvRecord = {}
+    this.headers.forEach((header, index) => {
+      record[header] = values[index] ?? ""
+    })
+
+    this.onRow?.(record, this.rowCount)
+    this.rowCount += 1
+    emitted.push(record)
+  }
+
+  private normalizeHeaders(values: string[]): string[] {
+    const seen = new Map<string, number>()
+    return values.map((value, index) => {
+      let header = value.trim()
+      if (!header) {
+        header = `column_${index + 1}`
+        this.warn("empty-header", this.rowLine, `Column ${index + 1} has no header; named it "${header}".`)
+      }
+      const occurrences = seen.get(header) ?? 0
+      seen.set(header, occurrences + 1)
+      if (occurrences) {
+        let renamed = `${header}_${occurrences + 1}`
+        while (seen.has(renamed)) renamed = `${renamed}_`
+        seen.set(renamed, 1)
+        this.warn("duplicate-header", this.rowLine, `Duplicate header "${header}" renamed to "${renamed}".`)
+        header = renamed
+      }
+      return header
+    })
+  }
+
+  private warn(code: CsvWarningCode, line: number, message: string) {
+    if (this.warnings.length >= MAX_WARNINGS) {
+      this.warningOverflow += 1
+      return
+    }
+    this.warnings.push({ code, line, message })
+  }
+}
+
+export function parseCsvText(content: string, options: CsvParserOptions = {}): CsvParseResult {
+  const parser = new CsvStreamParser(options)
+  const records = [...parser.push(content), ...parser.end()]
+  return { delimiter: parser.delimiter, headers: parser.headers, records, warnings: parser.warnings }
+}
+
+/**
+ * Parse a byte stream such as `File.stream()` without holding the whole file
+ * as a single string. Rows are delivered through `onRow` as they complete;
+ * pass `onRow` and ignore the returned records to keep memory flat.
+ */
+export async function parseCsvStream(
+  stream: ReadableStream<Uint8Array>,
+  options: CsvStreamOptions = {},
+): Promise<CsvParseResult> {
+  const { onProgress, totalBytes, signal, ...parserOptions } = options
+  const parser = new CsvStreamParser(parserOptions)
+  const decoder = new TextDecoder("utf-8")
+  const reader = stream.getReader()
+  const records: CsvRecord[] = []
+  const collect = !parserOptions.onRow
+  let bytesRead = 0
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        await reader.cancel()
+        throw new DOMException("CSV parsing was cancelled", "AbortError")
+      }
+      const { done, value } = await reader.read()
+      if (done) break
+      bytesRead += value.byteLength
+      const rows = parser.push(decoder.decode(value, { stream: true }))
+      if (collect) records.push(...rows)
+      onProgress?.({ bytesRead, totalBytes, rowsParsed: parser.rowCount })
+    }
+
+    const tail = [...parser.push(decoder.decode()), ...parser.end()]
+    if (collect) records.push(...tail)
+    onProgress?.({ bytesRead, totalBytes, rowsParsed: parser.rowCount })
+  } finally {
+    reader.releaseLock()
+  }
+
+  return { delimiter: parser.delimiter, headers: parser.headers, records, warnings: parser.warnings }
+}
@@ -0,0 +1,206 @@
+import { formatNumber, NumberLocale, parseNumberText, toNumber } from "./numbers"
+import { CellValue, ColumnSchema, ColumnType, inferColumn, isNumericType, parseBooleanValue, parseDateValue } from "./schema"
+
+export type GridRow = Record<string, CellValue>
+
+export interface GridColumn {
+  key: string
+  label: string
+  type: ColumnType
+}
+
+export type SortDirection = "asc" | "desc"
+
+export interface GridSort {
+  column: string
+  direction: SortDirection
+}
+
+export interface GridQuery {
+  sort?: GridSort | null
+  /** Filter text per column key; see `matchesColumnFilter` for the syntax. */
+  filters?: Record<string, string>
+}
+
+export interface GridPage {
+  rows: GridRow[]
+  /** Position of each row in the full dataset. */
+  indexes: number[]
+  /** How many rows match the query's filters. */
+  matched: number
+}
+
+/**
+ * Rows held elsewhere, such as in a worker, and fetched a page at a time so
+ * the full dataset never has to be copied to the main thread.
+ */
+export interface GridSource {
+  total: number
+  fetchPage(query: GridQuery, offset: number, limit: number): Promise<GridPage>
+}
+
+export const GRID_PAGE_SIZES = [25, 50, 100, 250]
+
+const TYPE_SAMPLE_ROWS = 500
+const RANGE_FILTER = /^(.+?)\s*\.\.\s*(.+)$/
+const COMPARISON_FILTER = /^(>=|<=|!=|>|<|=)\s*(.+)$/
+
+type SortKey = number | string | null
+
+function isEmpty(value: CellValue): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "")
+}
+
+/**
+ * Columns for a grid: the schema's when given, otherwise every key seen in
+ * the first rows with a type inferred from them.
+ */
+export function gridColumns(rows: GridRow[], schema?: ColumnSchema[]): GridColumn[] {
+  if (schema?.length) return schema.map((column) => ({ key: column.name, label: column.name, type: column.type }))
+  const sample = rows.slice(0, TYPE_SAMPLE_ROWS)
+  const keys = Array.from(new Set(sample.flatMap((row) => Object.keys(row))))
+  return keys.map((key) => ({ key, label: key, type: inferColumn(key, sample.map((row) => row[key])).type }))
+}
+
+/** Columns and rows for a headers-and-rows table, such as an analysis result table. */
+export function tableToGrid(headers: string[], rows: CellValue[][]): { columns: GridColumn[]; rows: GridRow[] } {
+  const sample = rows.slice(0, TYPE_SAMPLE_ROWS)
+  return {
+    columns: headers.map((header, index) => ({
+      key: header,
+      label: header,
+      type: inferColumn(header, sample.map((row) => row[index])).type,
+    })),
+    rows: rows.map((row) => Object.fromEntries(headers.map((header, index) => [header, row[index]]))),
+  }
+}
+
+/** The value a cell sorts and compares by: a number for numeric, date and boolean columns, lowercase text otherwise. */
+function sortKey(value: CellValue, type: ColumnType): SortKey {
+  if (isEmpty(value)) return null
+  if (isNumericType(type)) return toNumber(value)
+  if (type === "date" || type === "datetime") return parseDateValue(value)?.getTime() ?? null
+  if (type === "boolean") {
+    const flag = parseBooleanValue(value)
+    return flag === null ? null : Number(flag)
+  }
+  return String(value).toLowerCase()
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  if (typeof a === "number" && typeof b === "number") return a - b
+  return String(a).localeCompare(String(b), undefined, { numeric: true })
+}
+
+/** Compare two cells of a column by type. Empty and unreadable cells sort after everything else. */
+export function compareCells(a: CellValue, b: CellValue, type: ColumnType): number {
+  const left = sortKey(a, type)
+  const right = sortKey(b, type)
+  if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1
+  return compareKeys(left, right)
+}
+
+/**
+ * Whether a cell matches a column filter. Numeric, date and boolean columns
+ * accept comparisons (`>10`, `<=2024-03-01`, `!=0`) and inclusive ranges
+ * (`10..20`); anything else is a case-insensitive substring match on the
+ * cell text.
+ */
+export function matchesColumnFilter(value: CellValue, filter: string, type: ColumnType): boolean {
+  const text = filter.trim()
+  if (!text) return true
+  const comparable = type !== "text" && type !== "category" && type !== "identifier"
+
+  if (comparable) {
+    const range = text.match(RANGE_FILTER)
+    if (range) {
+      const key = sortKey(value, type)
+      const low = sortKey(range[1], type)
+      const high = sortKey(range[2], type)
+      if (low !== null && high !== null) return key !== null && compareKeys(key, low) >= 0 && compareKeys(key, high) <= 0
+    }
+    const comparison = text.match(COMPARISON_FILTER)
+    if (comparison) {
+      const [, operator, operandText] = comparison
+      const key = sortKey(value, type)
+      const operand = sortKey(operandText, type)
+      if (operand !== null) {
+        if (key === null) return operator === "!="
+        const order = compareKeys(key, operand)
+        if (operator === ">") return order > 0
+        if (operator === ">=") return order >= 0
+        if (operator === "<") return order < 0
+        if (operator === "<=") return order <= 0
+        if (operator === "!=") return order !== 0
+        return order === 0
+      }
+    }
+  }
+
+  if (isEmpty(value)) return false
+  return String(value).toLowerCase().includes(text.toLowerCase())
+}
+
+/**
+ * Apply the filters and sort to `rows` and return the matching row indexes
+ * in display order, so large datasets are never copied. Sorting is stable.
+ */
+export function queryRows(rows: GridRow[], columns: GridColumn[], query: GridQuery): number[] {
+  const filters = columns
+    .map((column) => ({ column, text: query.filters?.[column.key]?.trim() ?? "" }))
+    .filter((entry) => entry.text)
+  const indexes: number[] = []
+  rows.forEach((row, index) => {
+    if (filters.every(({ column, text }) => matchesColumnFilter(row[column.key], text, column.type))) indexes.push(index)
+  })
+
+  const sortColumn = query.sort && columns.find((column) => column.key === query.sort!.column)
+  if (!sortColumn) return indexes
+  const direction = query.sort!.direction === "asc" ? 1 : -1
+  // Keys are computed once per row rather than on every comparison.
+  const keys = new Map(indexes.map((index) => [index, sortKey(rows[index][sortColumn.key], sortColumn.type)]))
+  return indexes.sort((a, b) => {
+    const left = keys.get(a) ?? null
+    const right = keys.get(b) ?? null
+    if (left === null || right === null) return left === right ? a - b : left === null ? 1 : -1
+    return compareKeys(left, right) * direction || a - b
+  })
+}
+
+/** The page of `rows` at `offset` after applying `query`, for serving a `GridSource`. */
+export function queryPage(
+  rows: GridRow[],
+  columns: GridColumn[],
+  query: GridQuery,
+  offset: number,
+  limit: number,
+  /** Row order from an earlier `queryRows` call with the same query. */
+  order = queryRows(rows, columns, query),
+): GridPage {
+  const indexes = order.slice(offset, offset + limit)
+  return { rows: indexes.map((index) => rows[index]), indexes, matched: order.length }
+}
+
+/**
+ * Cell text for display: numbers in the dataset's locale keeping any
+ * currency or percent sign, booleans as Yes/No, and empty cells as a dash.
+ */
+export function formatCell(value: CellValue, type: ColumnType, locale?: NumberLocale): string {
+  if (isEmpty(value)) return "–"
+  if (typeof value === "number") return formatNumber(value, locale)
+  if (isNumericType(type) && typeof value === "string") {
+    const parsed = parseNumberText(value)
+    if (!parsed) return value
+    if (parsed.kind !== "currency" && parsed.kind !== "percentage") return formatNumber(parsed.value, locale)
+    return parsed.canonical.replace(/\d+(?:\.\d+)?/, formatNumber(Math.abs(parsed.value), locale))
+  }
+  if (type === "boolean") {
+    const flag = parseBooleanValue(value)
+    if (flag !== null) return flag ? "Yes" : "No"
+  }
+  return String(value)
+}
+
+export function pageCount(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize))
+}
@@ -0,0 +1,394 @@
+type BinaryOperator = "+" | "-" | "*" | "/" | "^" | "of"
+
+export type ExpressionNode =
+  | { type: "number"; value: number }
+  | { type: "constant"; name: string }
+  | { type: "percent"; operand: ExpressionNode }
+  | { type: "group"; expression: ExpressionNode }
+  | { type: "unary"; operator: "-"; operand: ExpressionNode }
+  | { type: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: "call"; name: string; args: ExpressionNode[] }
+
+/**
+ * Raised for malformed expressions and for results that are not a finite
+ * number. `position` is the character offset of a syntax problem; it is
+ * unset when the expression parsed but could not be evaluated.
+ */
+export class ExpressionError extends Error {
+  position?: number
+
+  constructor(message: string, position?: number) {
+    super(message)
+    this.name = "ExpressionError"
+    this.position = position
+  }
+}
+
+type TokenType = "number" | "name" | "operator" | "%" | "(" | ")" | "," | "end"
+
+interface Token {
+  type: TokenType
+  text: string
+  position: number
+}
+
+const MAX_LENGTH = 500
+
+/** Spellings people type for the same operator. */
+const OPERATOR_ALIASES: Record<string, string> = { "**": "^", "×": "*", "÷": "/", "−": "-" }
+const OPERATORS = ["**", "+", "-", "*", "/", "^", "×", "÷", "−"]
+
+// Maps rather than object literals, so names such as `constructor` are not found on Object.prototype.
+const CONSTANTS = new Map<string, number>([
+  ["pi", Math.PI],
+  ["π", Math.PI],
+  ["e", Math.E],
+  ["tau", 2 * Math.PI],
+])
+
+type ExpressionFunction = { minArgs: number; maxArgs: number; apply: (args: number[]) => number }
+
+function unary(apply: (value: number) => number): ExpressionFunction {
+  return { minArgs: 1, maxArgs: 1, apply: ([value]) => apply(value) }
+}
+
+function logarithm(value: number, base: number): number {
+  if (value <= 0) throw new ExpressionError("Logarithms are only defined for positive numbers.")
+  if (base <= 0 || base === 1) throw new ExpressionError("A logarithm base must be positive and not 1.")
+  return Math.log(value) / Math.log(base)
+}
+
+const FUNCTIONS = new Map<string, ExpressionFunction>(
+  Object.entries({
+    sqrt: unary((value) => {
+      if (value < 0) throw new ExpressionError("Cannot take the square root of a negative number.")
+      return Math.sqrt(value)
+    }),
+    abs: unary(Math.abs),
+    round: {
+      minArgs: 1,
+      maxArgs: 2,
+      apply: ([value, digits = 0]) => {
+        const factor = 10 ** Math.max(-10, Math.min(10, Math.trunc(digits)))
+        return Math.round(value * factor) / factor
+      },
+    },
+    floor: unary(Math.floor),
+    ceil: unary(Math.ceil),
+    min: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.min(...args) },
+    max: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.max(...args) },
+    log: { minArgs: 1, maxArgs: 2, apply: ([value, base = 10]) => logarithm(value, base) },
+    ln: unary((value) => logarithm(value, Math.E)),
+    exp: unary(Math.exp),
+  }),
+)
+
+export const EXPRESSION_FUNCTIONS = Array.from(FUNCTIONS.keys())
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < expression.length) {
+    const char = expression[index]
+
+    if (/\s/.test(char)) {
+      index += 1
+      continue
+    }
+
+    if (char === "(" || char === ")" || char === "," || char === "%") {
+      tokens.push({ type: char, text: char, position: index })
+      index += 1
+      continue
+    }
+
+    const number = expression.slice(index).match(/^(?:\d+\.?\d*|\.\d+)/)
+    if (number) {
+      tokens.push({ type: "number", text: number[0], position: index })
+      index += number[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find((candidate) => expression.startsWith(candidate, index))
+    if (operator) {
+      tokens.push({ type: "operator", text: OPERATOR_ALIASES[operator] ?? operator, position: index })
+      index += operator.length
+      continue
+    }
+
+    const name = expression.slice(index).match(/^(?:[A-Za-z]+|π)/)
+    if (name) {
+      tokens.push({ type: "name", text: name[0].toLowerCase(), position: index })
+      index += name[0].length
+      continue
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}".`, index)
+  }
+
+  tokens.push({ type: "end", text: "", position: expression.length })
+  return tokens
+}
+
+/** Whether a node is a percentage, possibly negated or in parentheses. */
+function isPercentage(node: ExpressionNode): boolean {
+  if (node.type === "group") return isPercentage(node.expression)
+  if (node.type === "unary") return isPercentage(node.operand)
+  return node.type === "percent"
+}
+
+class Parser {
+  private index = 0
+  private readonly tokens: Token[]
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseAdditive()
+    const token = this.peek()
+    if (token.type === "end") return node
+    if (token.type === ")") throw new ExpressionError('Unmatched closing ")".', token.position)
+    throw new ExpressionError(`Expected an operator but found "${token.text}".`, token.position)
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== "end") this.index += 1
+    return token
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek()
+    return token.type === "operator" && operators.includes(token.text)
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.next()
+    if (token.type !== type) {
+      throw new ExpressionError(
+        `Expected ${description}${token.type === "end" ? " before the end" : ` but found "${token.text}"`}.`,
+        token.position,
+      )
+    }
+    return token
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let node = this.parseMultiplicative()
+    while (this.isOperator("+", "-")) {
+      const operator = this.next().text as BinaryOperator
+      node = { type: "binary", operator, left: node, right: this.parseMultiplicative() }
+    }
+    return node
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let node = this.parseUnary()
+    while (this.isOperator("*", "/") || (this.peek().type === "name" && this.peek().text === "of")) {
+      const token = this.next()
+      if (token.text === "of" && !isPercentage(node)) {
+        throw new ExpressionError('"of" must follow a percentage, as in "15% of 240".', token.position)
+      }
+      node = { type: "binary", operator: token.text as BinaryOperator, left: node, right: this.parseUnary() }
+    }
+    return node
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator("-")) {
+      this.next()
+      return { type: "unary", operator: "-", operand: this.parseUnary() }
+    }
+    if (this.isOperator("+")) {
+      this.next()
+      return this.parseUnary()
+    }
+    return this.parsePower()
+  }
+
+  /** `^` binds tighter than unary minus and groups to the right, so `-2^2` is -4 and `2^3^2` is 512. */
+  private parsePower(): ExpressionNode {
+    const base = this.parsePercent()
+    if (!this.isOperator("^")) return base
+    this.next()
+    return { type: "binary", operator: "^", left: base, right: this.parseUnary() }
+  }
+
+  private parsePercent(): ExpressionNode {
+    let node = this.parsePrimary()
+    while (this.peek().type === "%") {
+      this.next()
+      node = { type: "percent", operand: node }
+    }
+    return node
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case "number":
+        return { type: "number", value: Number(token.text) }
+      case "(": {
+        const expression = this.parseAdditive()
+        this.expect(")", 'a closing ")"')
+        return { type: "group", expression }
+      }
+      case "name": {
+        if (this.peek().type === "(") return this.call(token)
+        if (CONSTANTS.has(token.text)) return { type: "constant", name: token.text === "π" ? "pi" : token.text }
+        if (FUNCTIONS.has(token.text)) {
+          throw new ExpressionError(`Expected "(" after ${token.text}.`, this.peek().position)
+        }
+        throw new ExpressionError(
+          `Unknown name "${token.text}". Use a number, one of ${Array.from(CONSTANTS.keys()).join(", ")}, or a function.`,
+          token.position,
+        )
+      }
+      default:
+        throw new ExpressionError(
+          token.type === "end" ? "Expected a number before the end." : `Expected a number but found "${token.text}".`,
+          token.position,
+        )
+    }
+  }
+
+  private call(token: Token): ExpressionNode {
+    const definition = FUNCTIONS.get(token.text)
+    if (!definition) {
+      throw new ExpressionError(
+        `Unknown function "${token.text}". Use one of: ${EXPRESSION_FUNCTIONS.join(", ")}.`,
+        token.position,
+      )
+    }
+
+    this.next()
+    const args: ExpressionNode[] = []
+    if (this.peek().type !== ")") {
+      args.push(this.parseAdditive())
+      while (this.peek().type === ",") {
+        this.next()
+        args.push(this.parseAdditive())
+      }
+    }
+    this.expect(")", 'a closing ")"')
+
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected =
+        definition.minArgs === definition.maxArgs
+          ? `${definition.minArgs}`
+          : definition.maxArgs === Infinity
+            ? `at least ${definition.minArgs}`
+            : `${definition.minArgs} or ${definition.maxArgs}`
+      throw new ExpressionError(
+        `${token.text}() takes ${expected} argument${expected === "1" ? "" : "s"}.`,
+        token.position,
+      )
+    }
+
+    return { type: "call", name: token.text, args }
+  }
+}
+
+/**
+ * Parse an arithmetic expression such as `(12 + 3) * 4 / 2`, `15% of 240`
+ * or `sqrt(2) ^ 2`. Also accepts `**`, `×` and `÷` for `^`, `*` and `/`.
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  if (!expression.trim()) throw new ExpressionError("The expression is empty.", 0)
+  if (expression.length > MAX_LENGTH) {
+    throw new ExpressionError(`Expressions are limited to ${MAX_LENGTH} characters.`, MAX_LENGTH)
+  }
+  return new Parser(tokenize(expression)).parse()
+}
+
+
+/**
+ * Evaluate a parsed expression. A percentage added to or subtracted from a
+ * value is taken relative to it, so `80 + 15%` is 92; anywhere else `15%` is
+ * 0.15. Throws an ExpressionError for division by zero and other results
+ * that are not finite numbers.
+ */
+export function evaluateExpression(node: ExpressionNode): number {
+  const value = evaluate(node)
+  if (!Number.isFinite(value)) throw new ExpressionError("The result is too large to represent.")
+  return value
+}
+
+function lookup<T>(names: Map<string, T>, name: string, kind: string): T {
+  const value = names.get(name)
+  if (value === undefined) throw new ExpressionError(`Unknown ${kind} "${name}".`)
+  return value
+}
+
+function evaluate(node: ExpressionNode): number {
+  switch (node.type) {
+    case "number":
+      return node.value
+    case "constant":
+      return lookup(CONSTANTS, node.name, "constant")
+    case "percent":
+      return evaluate(node.operand) / 100
+    case "group":
+      return evaluate(node.expression)
+    case "unary":
+      return -evaluate(node.operand)
+    case "binary": {
+      const left = evaluate(node.left)
+      const right = evaluate(node.right)
+      switch (node.operator) {
+        case "+":
+          return isPercentage(node.right) ? left * (1 + right) : left + right
+        case "-":
+          return isPercentage(node.right) ? left * (1 - right) : left - right
+        case "*":
+        case "of":
+          return left * right
+        case "/":
+          if (right === 0) throw new ExpressionError("Division by zero.")
+          return left / right
+        default: {
+          const result = left ** right
+          if (Number.isNaN(result)) {
+            throw new ExpressionError("A negative number cannot be raised to a fractional power.")
+          }
+          return result
+        }
+      }
+    }
+    case "call":
+      return lookup(FUNCTIONS, node.name, "function").apply(node.args.map(evaluate))
+  }
+}
+
+/** The expression written out with uniform spacing and canonical operators. */
+export function formatExpression(node: ExpressionNode): string {
+  switch (node.type) {
+    case "number":
+      return String(node.value)
+    case "constant":
+      return node.name
+    case "percent":
+      return `${formatExpression(node.operand)}%`
+    case "group":
+      return `(${formatExpression(node.expression)})`
+    case "unary":
+      return `-${formatExpression(node.operand)}`
+    case "binary":
+      return `${formatExpression(node.left)} ${node.operator} ${formatExpression(node.right)}`
+    case "call":
+      return `${node.name}(${node.args.map(formatExpression).join(", ")})`
+  }
+}
+
+/** A result rounded to hide floating point noise, e.g. 0.30000000000000004 becomes 0.3. */
+export function formatResult(value: number): string {
+  return String(Number(value.toPrecision(12)))
+}
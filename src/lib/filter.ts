@@ -0,0 +1,393 @@
+import { toNumber } from "./numbers"
+import { CellValue, parseBooleanValue, parseDateValue } from "./schema"
+
+export type ComparisonOperator = "=" | "!=" | ">" | ">=" | "<" | "<="
+
+export type FilterLiteral = string | number | boolean
+
+export type FilterNode =
+  | { type: "and" | "or"; left: FilterNode; right: FilterNode }
+  | { type: "not"; operand: FilterNode }
+  | { type: "compare"; field: string; operator: ComparisonOperator; value: FilterLiteral }
+  | { type: "in"; field: string; values: FilterLiteral[] }
+  | { type: "contains"; field: string; value: string }
+  | { type: "between"; field: string; low: FilterLiteral; high: FilterLiteral }
+
+/**
+ * Raised for malformed filter expressions and unknown columns. `position` is
+ * the zero-based character offset of the offending token so editors can
+ * point at it.
+ */
+export class FilterSyntaxError extends Error {
+  position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = "FilterSyntaxError"
+    this.position = position
+  }
+}
+
+type TokenType = "word" | "string" | "field" | "operator" | "(" | ")" | "," | "end"
+
+interface Token {
+  type: TokenType
+  text: string
+  position: number
+}
+
+const OPERATORS: ComparisonOperator[] = [">=", "<=", "!=", "=", ">", "<"]
+const KEYWORDS = new Set(["and", "or", "not", "in", "contains", "between", "true", "false"])
+const WORD = /[\w.\-[\]:/]/
+const NUMBER = /^-?(?:\d+\.?\d*|\.\d+)$/
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < expression.length) {
+    const char = expression[index]
+
+    if (/\s/.test(char)) {
+      index += 1
+      continue
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, text: char, position: index })
+      index += 1
+      continue
+    }
+
+    if (expression.startsWith("==", index)) {
+      tokens.push({ type: "operator", text: "=", position: index })
+      index += 2
+      continue
+    }
+
+    const operator = OPERATORS.find((candidate) => expression.startsWith(candidate, index))
+    if (operator) {
+      tokens.push({ type: "operator", text: operator, position: index })
+      index += operator.length
+      continue
+    }
+
+    if (char === '"' || char === "'" || char === "`") {
+      let text = ""
+      let cursor = index + 1
+      while (cursor < expression.length && expression[cursor] !== char) {
+        if (expression[cursor] === "\\" && cursor + 1 < expression.length) cursor += 1
+        text += expression[cursor]
+        cursor += 1
+      }
+      if (cursor >= expression.length) throw new FilterSyntaxError("Unterminated quoted text.", index)
+      tokens.push({ type: char === "`" ? "field" : "string", text, position: index })
+      index = cursor + 1
+      continue
+    }
+
+    if (WORD.test(char)) {
+      let cursor = index
+      while (cursor < expression.length && WORD.test(expression[cursor])) cursor += 1
+      tokens.push({ type: "word", text: expression.slice(index, cursor), position: index })
+      index = cursor
+      continue
+    }
+
+    throw new FilterSyntaxError(`Unexpected character "${char}".`, index)
+  }
+
+  tokens.push({ type: "end", text: "", position: expression.length })
+  return tokens
+}
+
+class Parser {
+  private index = 0
+  private readonly tokens: Token[]
+  private readonly columns?: Set<string>
+
+  constructor(tokens: Token[], columns?: Set<string>) {
+    this.tokens = tokens
+    this.columns = columns
+  }
+
+  parse(): FilterNode {
+    const node = this.parseOr()
+    const token = this.peek()
+    if (token.type !== "end") throw new FilterSyntaxError(`Unexpected "${token.text}".`, token.position)
+    return node
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== "end") this.index += 1
+    return token
+  }
+
+  private isKeyword(word: string): boolean {
+    const token = this.peek()
+    return token.type === "word" && token.text.toLowerCase() === word
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.next()
+    if (token.type !== type) {
+      throw new FilterSyntaxError(`Expected ${description}${token.type === "end" ? " before the end" : ` but found "${token.text}"`}.`, token.position)
+    }
+    return token
+  }
+
+  private parseOr(): FilterNode {
+    let node = this.parseAnd()
+    while (this.isKeyword("or")) {
+      this.next()
+      node = { type: "or", left: node, right: this.parseAnd() }
+    }
+    return node
+  }
+
+  private parseAnd(): FilterNode {
+    let node = this.parseNot()
+    while (this.isKeyword("and")) {
+      this.next()
+      node = { type: "and", left: node, right: this.parseNot() }
+    }
+    return node
+  }
+
+  private parseNot(): FilterNode {
+    if (this.isKeyword("not")) {
+      this.next()
+      return { type: "not", operand: this.parseNot() }
+    }
+    if (this.peek().type === "(") {
+      this.next()
+      const node = this.parseOr()
+      this.expect(")", 'a closing ")"')
+      return node
+    }
+    return this.parseCondition()
+  }
+
+  private parseField(): string {
+    const token = this.next()
+    if (token.type !== "field" && (token.type !== "word" || KEYWORDS.has(token.text.toLowerCase()))) {
+      throw new FilterSyntaxError(
+        token.type === "end" ? "Expected a column name before the end." : `Expected a column name but found "${token.text}".`,
+        token.position,
+      )
+    }
+    if (this.columns && !this.columns.has(token.text)) {
+      throw new FilterSyntaxError(`Unknown column "${token.text}".`, token.position)
+    }
+    return token.text
+  }
+
+  private parseValue(): FilterLiteral {
+    const token = this.next()
+    if (token.type === "string") return token.text
+    if (token.type === "word") {
+      const lower = token.text.toLowerCase()
+      if (lower === "true" || lower === "false") return lower === "true"
+      if (KEYWORDS.has(lower)) throw new FilterSyntaxError(`Expected a value but found "${token.text}".`, token.position)
+      return NUMBER.test(token.text) ? Number(token.text) : token.text
+    }
+    throw new FilterSyntaxError(
+      token.type === "end" ? "Expected a value before the end." : `Expected a value but found "${token.text}".`,
+      token.position,
+    )
+  }
+
+  private parseCondition(): FilterNode {
+    const field = this.parseField()
+    const token = this.peek()
+
+    if (token.type === "operator") {
+      this.next()
+      return { type: "compare", field, operator: token.text as ComparisonOperator, value: this.parseValue() }
+    }
+
+    if (this.isKeyword("not")) {
+      this.next()
+      return { type: "not", operand: this.parseKeywordCondition(field) }
+    }
+
+    return this.parseKeywordCondition(field)
+  }
+
+  private parseKeywordCondition(field: string): FilterNode {
+    const token = this.next()
+    const keyword = token.type === "word" ? token.text.toLowerCase() : ""
+
+    if (keyword === "in") {
+      this.expect("(", 'a "(" after in')
+      const values = [this.parseValue()]
+      while (this.peek().type === ",") {
+        this.next()
+        values.push(this.parseValue())
+      }
+      this.expect(")", 'a closing ")"')
+      return { type: "in", field, values }
+    }
+
+    if (keyword === "contains") {
+      return { type: "contains", field, value: String(this.parseValue()) }
+    }
+
+    if (keyword === "between") {
+      const low = this.parseValue()
+      if (!this.isKeyword("and")) {
+        const next = this.peek()
+        throw new FilterSyntaxError('Expected "and" between the two bounds.', next.position)
+      }
+      this.next()
+      return { type: "between", field, low, high: this.parseValue() }
+    }
+
+    throw new FilterSyntaxError(
+      token.type === "end"
+        ? `Expected a comparison after "${field}".`
+        : `Expected a comparison, in, contains, or between but found "${token.text}".`,
+      token.position,
+    )
+  }
+}
+
+/**
+ * Parse a filter such as `region = North and units > 5 and date = 2024-Q3`.
+ * Pass `columns` to reject references to columns that do not exist.
+ */
+export function parseFilter(expression: string, columns?: string[]): FilterNode {
+  return new Parser(tokenize(expression), columns ? new Set(columns) : undefined).parse()
+}
+
+/**
+ * Expand a date literal into the half-open range it names: a day
+ * (`2024-07-01`), month (`2024-07`), quarter (`2024-Q3`) or year (`2024`).
+ */
+export function parseDateRange(literal: FilterLiteral): { start: number; end: number } | null {
+  const text = String(literal).trim()
+
+  const quarter = text.match(/^(\d{4})-?Q([1-4])$/i)
+  if (quarter) {
+    const year = Number(quarter[1])
+    const month = (Number(quarter[2]) - 1) * 3
+    return { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 3, 1) }
+  }
+
+  const month = text.match(/^(\d{4})-(\d{1,2})$/)
+  if (month && Number(month[2]) >= 1 && Number(month[2]) <= 12) {
+    const year = Number(month[1])
+    return { start: Date.UTC(year, Number(month[2]) - 1, 1), end: Date.UTC(year, Number(month[2]), 1) }
+  }
+
+  if (/^\d{4}$/.test(text)) {
+    const year = Number(text)
+    return { start: Date.UTC(year, 0, 1), end: Date.UTC(year + 1, 0, 1) }
+  }
+
+  const date = parseDateValue(text)
+  if (!date) return null
+  const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  return { start, end: start + 24 * 60 * 60 * 1000 }
+}
+
+function compareDate(time: number, operator: ComparisonOperator, range: { start: number; end: number }): boolean {
+  switch (operator) {
+    case "=":
+      return time >= range.start && time < range.end
+    case "!=":
+      return time < range.start || time >= range.end
+    case ">":
+      return time >= range.end
+    case ">=":
+      return time >= range.start
+    case "<":
+      return time < range.start
+    case "<=":
+      return time < range.end
+  }
+}
+
+function compareOrdered<T extends number | string>(left: T, operator: ComparisonOperator, right: T): boolean {
+  switch (operator) {
+    case "=":
+      return left === right
+    case "!=":
+      return left !== right
+    case ">":
+      return left > right
+    case ">=":
+      return left >= right
+    case "<":
+      return left < right
+    case "<=":
+      return left <= right
+  }
+}
+
+function normalizeText(value: CellValue | FilterLiteral): string {
+  return value === null || value === undefined ? "" : String(value).trim().toLowerCase()
+}
+
+/**
+ * Compare one cell with a literal. Dates compare by the range the literal
+ * names, numbers numerically, booleans by truthiness tokens and everything
+ * else as case-insensitive text. Cells that cannot be read as the literal's
+ * type never match, except through `!=`.
+ */
+function compareCell(cell: CellValue, operator: ComparisonOperator, literal: FilterLiteral): boolean {
+  if (typeof literal === "boolean") {
+    const value = parseBooleanValue(typeof cell === "boolean" ? cell : normalizeText(cell))
+    if (value === null) return operator === "!="
+    return operator === "=" ? value === literal : operator === "!=" ? value !== literal : false
+  }
+
+  const date = parseDateValue(typeof cell === "string" ? cell : null)
+  const range = date ? parseDateRange(literal) : null
+  if (date && range) return compareDate(date.getTime(), operator, range)
+
+  if (typeof literal === "number") {
+    const value = toNumber(cell)
+    if (value === null) return operator === "!="
+    return compareOrdered(value, operator, literal)
+  }
+
+  return compareOrdered(normalizeText(cell), operator, normalizeText(literal))
+}
+
+export function evaluateFilter(node: FilterNode, record: Record<string, CellValue>): boolean {
+  switch (node.type) {
+    case "and":
+      return evaluateFilter(node.left, record) && evaluateFilter(node.right, record)
+    case "or":
+      return evaluateFilter(node.left, record) || evaluateFilter(node.right, record)
+    case "not":
+      return !evaluateFilter(node.operand, record)
+    case "compare":
+      return compareCell(record[node.field], node.operator, node.value)
+    case "in":
+      return node.values.some((value) => compareCell(record[node.field], "=", value))
+    case "contains":
+      return normalizeText(record[node.field]).includes(normalizeText(node.value))
+    case "between":
+      return compareCell(record[node.field], ">=", node.low) && compareCell(record[node.field], "<=", node.high)
+  }
+}
+
+/**
+ * Keep the records matching `expression`. A blank expression keeps
+ * everything; columns are validated against the keys seen in the records,
+ * so with no records there is nothing to check them against or to filter.
+ */
+export function filterRecords<T extends Record<string, CellValue>>(records: T[], expression: string): T[] {
+  if (!expression.trim() || records.length === 0) return records
+  const columns = new Set<string>()
+  records.forEach((record) => Object.keys(record).forEach((key) => columns.add(key)))
+  const node = parseFilter(expression, Array.from(columns))
+  return records.filter((record) => evaluateFilter(node, record))
+}
@@ -0,0 +1,211 @@
+import { mean } from "./statistics"
+import { bucketDate, nextPeriodStart, PeriodGranularity, TimeSeriesResult } from "./time-series"
+
+export type ForecastMethod = "linear" | "moving-average" | "exponential-smoothing"
+
+export const FORECAST_METHODS: ForecastMethod[] = ["linear", "moving-average", "exponential-smoothing"]
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  linear: "Linear trend",
+  "moving-average": "Moving average",
+  "exponential-smoothing": "Exponential smoothing",
+}
+
+export interface ForecastPoint {
+  period: string
+  value: number
+  lower: number
+  upper: number
+}
+
+export interface BacktestScore {
+  /** Number of held-out periods the method was scored on. */
+  periods: number
+  mae: number
+  rmse: number
+  /** Mean absolute percentage error; null when every held-out actual is zero. */
+  mape: number | null
+}
+
+export interface MethodForecast {
+  method: ForecastMethod
+  points: ForecastPoint[]
+  backtest: BacktestScore | null
+}
+
+export interface ForecastResult {
+  measure: string
+  granularity: PeriodGranularity
+  horizon: number
+  confidence: number
+  history: { period: string; value: number }[]
+  methods: MethodForecast[]
+  /** Method with the lowest backtest MAE, or linear when there was too little history to backtest. */
+  best: ForecastMethod
+}
+
+export const DEFAULT_FORECAST_HORIZON = 3
+export const MAX_FORECAST_HORIZON = 24
+export const MIN_FORECAST_HISTORY = 4
+
+const MOVING_AVERAGE_WINDOW = 3
+const Z_95 = 1.96
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9]
+
+interface Fit {
+  forecast: number[]
+  residuals: number[]
+  parameters: number
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2))
+}
+
+/**
+ * Ordinary least squares fit of `values` against their index.
+ */
+export function linearRegression(values: number[]): { slope: number; intercept: number } {
+  const n = values.length
+  if (n < 2) return { slope: 0, intercept: values[0] ?? 0 }
+  const xMean = (n - 1) / 2
+  const yMean = mean(values)
+  let numerator = 0
+  let denominator = 0
+  values.forEach((value, index) => {
+    numerator += (index - xMean) * (value - yMean)
+    denominator += (index - xMean) ** 2
+  })
+  const slope = denominator ? numerator / denominator : 0
+  return { slope, intercept: yMean - slope * xMean }
+}
+
+function fitLinear(values: number[], horizon: number): Fit {
+  const { slope, intercept } = linearRegression(values)
+  return {
+    forecast: Array.from({ length: horizon }, (_, step) => intercept + slope * (values.length + step)),
+    residuals: values.map((value, index) => value - (intercept + slope * index)),
+    parameters: 2,
+  }
+}
+
+function fitMovingAverage(values: number[], horizon: number): Fit {
+  const window = Math.min(MOVING_AVERAGE_WINDOW, values.length)
+  const residuals: number[] = []
+  for (let index = window; index < values.length; index += 1) {
+    residuals.push(values[index] - mean(values.slice(index - window, index)))
+  }
+  const level = mean(values.slice(-window))
+  return { forecast: Array.from({ length: horizon }, () => level), residuals, parameters: 0 }
+}
+
+function smooth(values: number[], alpha: number): { level: number; residuals: number[] } {
+  let level = values[0]
+  const residuals: number[] = []
+  for (let index = 1; index < values.length; index += 1) {
+    residuals.push(values[index] - level)
+    level = alpha * values[index] + (1 - alpha) * level
+  }
+  return { level, residuals }
+}
+
+/**
+ * Simple exponential smoothing with the smoothing factor picked from a grid by
+ * the smallest one-step-ahead squared error.
+ */
+function fitExponentialSmoothing(values: number[], horizon: number): Fit {
+  const best = SMOOTHING_GRID.map((alpha) => smooth(values, alpha)).reduce((winner, candidate) =>
+    candidate.residuals.reduce((sum, error) => sum + error ** 2, 0) < winner.residuals.reduce((sum, error) => sum + error ** 2, 0)
+      ? candidate
+      : winner,
+  )
+  return { forecast: Array.from({ length: horizon }, () => best.level), residuals: best.residuals, parameters: 1 }
+}
+
+const FITTERS: Record<ForecastMethod, (values: number[], horizon: number) => Fit> = {
+  linear: fitLinear,
+  "moving-average": fitMovingAverage,
+  "exponential-smoothing": fitExponentialSmoothing,
+}
+
+function residualDeviation(fit: Fit): number {
+  const degrees = fit.residuals.length - fit.parameters
+  if (degrees < 1) return 0
+  return Math.sqrt(fit.residuals.reduce((sum, error) => sum + error ** 2, 0) / degrees)
+}
+
+/**
+ * Score a method by refitting it without the last `holdout` periods and
+ * comparing its projection with what actually happened.
+ */
+export function backtest(values: number[], method: ForecastMethod, holdout: number): BacktestScore | null {
+  const training = values.slice(0, values.length - holdout)
+  if (holdout < 1 || training.length < MIN_FORECAST_HISTORY - 1) return null
+
+  const actual = values.slice(values.length - holdout)
+  const predicted = FITTERS[method](training, holdout).forecast
+  const errors = actual.map((value, index) => value - predicted[index])
+  const percentages = actual.flatMap((value, index) => (value === 0 ? [] : [Math.abs(errors[index] / value)]))
+
+  return {
+    periods: holdout,
+    mae: round(mean(errors.map(Math.abs))),
+    rmse: round(Math.sqrt(mean(errors.map((error) => error ** 2)))),
+    mape: percentages.length ? round(mean(percentages) * 100) : null,
+  }
+}
+
+function futurePeriods(lastStart: string, granularity: PeriodGranularity, count: number): string[] {
+  const periods: string[] = []
+  let start = new Date(`${lastStart}T00:00:00Z`)
+  for (let step = 0; step < count; step += 1) {
+    start = nextPeriodStart(start, granularity)
+    periods.push(bucketDate(start, granularity).period)
+  }
+  return periods
+}
+
+/**
+ * Project the next `horizon` periods of one measure with each method. Bands
+ * are approximate 95% intervals from the in-sample residual spread, widening
+ * with the square root of the steps ahead. Needs at least four periods.
+ */
+export function buildForecast(
+  series: TimeSeriesResult,
+  measure: string,
+  horizon = DEFAULT_FORECAST_HORIZON,
+): ForecastResult | null {
+  const values = series.points.map((point) => point.values[measure] ?? 0)
+  if (values.length < MIN_FORECAST_HISTORY || horizon < 1) return null
+
+  const periods = futurePeriods(series.points[series.points.length - 1].start, series.granularity, horizon)
+  const holdout = Math.max(1, Math.min(horizon, Math.floor(values.length / 4)))
+
+  const methods = FORECAST_METHODS.map((method): MethodForecast => {
+    const fit = FITTERS[method](values, horizon)
+    const deviation = residualDeviation(fit)
+    return {
+      method,
+      points: fit.forecast.map((value, step) => {
+        const margin = Z_95 * deviation * Math.sqrt(step + 1)
+        return { period: periods[step], value: round(value), lower: round(value - margin), upper: round(value + margin) }
+      }),
+      backtest: backtest(values, method, holdout),
+    }
+  })
+
+  const scored = methods.filter((entry) => entry.backtest)
+  const best = scored.length
+    ? scored.reduce((winner, entry) => (entry.backtest!.mae < winner.backtest!.mae ? entry : winner)).method
+    : "linear"
+
+  return {
+    measure,
+    granularity: series.granularity,
+    horizon,
+    confidence: 0.95,
+    history: series.points.map((point) => ({ period: point.period, value: point.values[measure] ?? 0 })),
+    methods,
+    best,
+  }
+}
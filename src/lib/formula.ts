@@ -0,0 +1,525 @@
+import { toNumber } from "./numbers"
+import { CellValue, parseDateValue } from "./schema"
+
+export type FormulaValue = number | string | boolean | null
+
+export interface CalculatedColumn {
+  name: string
+  formula: string
+}
+
+type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "=" | "!=" | ">" | ">=" | "<" | "<=" | "and" | "or"
+
+export type FormulaNode =
+  | { type: "literal"; value: FormulaValue }
+  | { type: "column"; name: string }
+  | { type: "unary"; operator: "-" | "not"; operand: FormulaNode }
+  | { type: "binary"; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; name: string; args: FormulaNode[] }
+
+/**
+ * Raised for malformed formulas, unknown columns or functions, and invalid
+ * calculated column names. `position` is the character offset in the formula
+ * and `column` names the calculated column being defined, when known.
+ * `target` says whether the column's name or its formula is at fault.
+ */
+export class FormulaError extends Error {
+  position: number
+  column?: string
+  target: "name" | "formula"
+
+  constructor(message: string, position: number, column?: string, target: "name" | "formula" = "formula") {
+    super(message)
+    this.name = "FormulaError"
+    this.position = position
+    this.column = column
+    this.target = target
+  }
+}
+
+type TokenType = "number" | "string" | "name" | "field" | "operator" | "(" | ")" | "," | "end"
+
+interface Token {
+  type: TokenType
+  text: string
+  position: number
+}
+
+const OPERATORS = [">=", "<=", "!=", "<>", "==", "=", ">", "<", "+", "-", "*", "/", "%"]
+const KEYWORDS = new Set(["and", "or", "not", "true", "false", "null"])
+const NAME_START = /[A-Za-z_]/
+const NAME_PART = /[\w.[\]]/
+
+type FormulaFunction = { minArgs: number; maxArgs: number; apply: (args: FormulaValue[]) => FormulaValue }
+
+function asNumber(value: FormulaValue): number | null {
+  if (typeof value === "boolean") return value ? 1 : 0
+  return toNumber(value)
+}
+
+function asDate(value: FormulaValue): Date | null {
+  return typeof value === "string" ? parseDateValue(value) : null
+}
+
+function isBlank(value: FormulaValue): boolean {
+  return value === null || (typeof value === "string" && value.trim() === "")
+}
+
+function isTruthy(value: FormulaValue): boolean {
+  if (typeof value === "boolean") return value
+  if (typeof value === "number") return value !== 0
+  if (isBlank(value)) return false
+  const token = String(value).trim().toLowerCase()
+  return token !== "false" && token !== "no" && token !== "0"
+}
+
+function numeric(apply: (...values: number[]) => number, minArgs = 1, maxArgs = minArgs): FormulaFunction {
+  return {
+    minArgs,
+    maxArgs,
+    apply: (args) => {
+      const values = args.map(asNumber)
+      if (values.some((value) => value === null)) return null
+      return apply(...(values as number[]))
+    },
+  }
+}
+
+function datePart(part: (date: Date) => number): FormulaFunction {
+  return {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => {
+      const date = asDate(value)
+      return date ? part(date) : null
+    },
+  }
+}
+
+// A Map, so names such as `constructor` are not found on Object.prototype.
+const FUNCTIONS = new Map<string, FormulaFunction>(
+  Object.entries({
+    round: numeric((value, digits = 0) => Number(value.toFixed(Math.max(0, Math.min(10, Math.floor(digits))))), 1, 2),
+    abs: numeric(Math.abs),
+    floor: numeric(Math.floor),
+    ceil: numeric(Math.ceil),
+    min: numeric(Math.min, 1, Infinity),
+    max: numeric(Math.max, 1, Infinity),
+    if: { minArgs: 2, maxArgs: 3, apply: ([condition, then, otherwise = null]) => (isTruthy(condition) ? then : otherwise) },
+    coalesce: { minArgs: 1, maxArgs: Infinity, apply: (args) => args.find((value) => !isBlank(value)) ?? null },
+    year: datePart((date) => date.getUTCFullYear()),
+    quarter: datePart((date) => Math.floor(date.getUTCMonth() / 3) + 1),
+    month: datePart((date) => date.getUTCMonth() + 1),
+    day: datePart((date) => date.getUTCDate()),
+    weekday: datePart((date) => date.getUTCDay() || 7),
+  }),
+)
+
+export const FORMULA_FUNCTIONS = Array.from(FUNCTIONS.keys())
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < formula.length) {
+    const char = formula[index]
+
+    if (/\s/.test(char)) {
+      index += 1
+      continue
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, text: char, position: index })
+      index += 1
+      continue
+    }
+
+    const number = formula.slice(index).match(/^(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/i)
+    if (number) {
+      tokens.push({ type: "number", text: number[0], position: index })
+      index += number[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find((candidate) => formula.startsWith(candidate, index))
+    if (operator) {
+      const text = operator === "==" ? "=" : operator === "<>" ? "!=" : operator
+      tokens.push({ type: "operator", text, position: index })
+      index += operator.length
+      continue
+    }
+
+    if (char === '"' || char === "'" || char === "`") {
+      let text = ""
+      let cursor = index + 1
+      while (cursor < formula.length && formula[cursor] !== char) {
+        if (formula[cursor] === "\\" && cursor + 1 < formula.length) cursor += 1
+        text += formula[cursor]
+        cursor += 1
+      }
+      if (cursor >= formula.length) throw new FormulaError("Unterminated quoted text.", index)
+      tokens.push({ type: char === "`" ? "field" : "string", text, position: index })
+      index = cursor + 1
+      continue
+    }
+
+    if (NAME_START.test(char)) {
+      let cursor = index
+      while (cursor < formula.length && NAME_PART.test(formula[cursor])) cursor += 1
+      tokens.push({ type: "name", text: formula.slice(index, cursor), position: index })
+      index = cursor
+      continue
+    }
+
+    throw new FormulaError(`Unexpected character "${char}".`, index)
+  }
+
+  tokens.push({ type: "end", text: "", position: formula.length })
+  return tokens
+}
+
+const COMPARISONS = new Set(["=", "!=", ">", ">=", "<", "<="])
+
+class Parser {
+  private index = 0
+  private readonly tokens: Token[]
+  private readonly columns?: Set<string>
+
+  constructor(tokens: Token[], columns?: Set<string>) {
+    this.tokens = tokens
+    this.columns = columns
+  }
+
+  parse(): FormulaNode {
+    const node = this.parseOr()
+    const token = this.peek()
+    if (token.type !== "end") throw new FormulaError(`Unexpected "${token.text}".`, token.position)
+    return node
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== "end") this.index += 1
+    return token
+  }
+
+  private isKeyword(word: string): boolean {
+    const token = this.peek()
+    return token.type === "name" && token.text.toLowerCase() === word
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek()
+    return token.type === "operator" && operators.includes(token.text)
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.next()
+    if (token.type !== type) {
+      throw new FormulaError(
+        `Expected ${description}${token.type === "end" ? " before the end" : ` but found "${token.text}"`}.`,
+        token.position,
+      )
+    }
+    return token
+  }
+
+  private parseOr(): FormulaNode {
+    let node = this.parseAnd()
+    while (this.isKeyword("or")) {
+      this.next()
+      node = { type: "binary", operator: "or", left: node, right: this.parseAnd() }
+    }
+    return node
+  }
+
+  private parseAnd(): FormulaNode {
+    let node = this.parseNot()
+    while (this.isKeyword("and")) {
+      this.next()
+      node = { type: "binary", operator: "and", left: node, right: this.parseNot() }
+    }
+    return node
+  }
+
+  private parseNot(): FormulaNode {
+    if (this.isKeyword("not")) {
+      this.next()
+      return { type: "unary", operator: "not", operand: this.parseNot() }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): FormulaNode {
+    const left = this.parseAdditive()
+    const token = this.peek()
+    if (token.type === "operator" && COMPARISONS.has(token.text)) {
+      this.next()
+      return { type: "binary", operator: token.text as BinaryOperator, left, right: this.parseAdditive() }
+    }
+    return left
+  }
+
+  private parseAdditive(): FormulaNode {
+    let node = this.parseMultiplicative()
+    while (this.isOperator("+", "-")) {
+      const operator = this.next().text as BinaryOperator
+      node = { type: "binary", operator, left: node, right: this.parseMultiplicative() }
+    }
+    return node
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    let node = this.parseUnary()
+    while (this.isOperator("*", "/", "%")) {
+      const operator = this.next().text as BinaryOperator
+      node = { type: "binary", operator, left: node, right: this.parseUnary() }
+    }
+    return node
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOperator("-")) {
+      this.next()
+      return { type: "unary", operator: "-", operand: this.parseUnary() }
+    }
+    if (this.isOperator("+")) {
+      this.next()
+      return this.parseUnary()
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case "number":
+        return { type: "literal", value: Number(token.text) }
+      case "string":
+        return { type: "literal", value: token.text }
+      case "field":
+        return this.column(token)
+      case "(": {
+        const node = this.parseOr()
+        this.expect(")", 'a closing ")"')
+        return node
+      }
+      case "name": {
+        const lower = token.text.toLowerCase()
+        if (lower === "true" || lower === "false") return { type: "literal", value: lower === "true" }
+        if (lower === "null") return { type: "literal", value: null }
+        if (this.peek().type === "(") return this.call(token)
+        if (KEYWORDS.has(lower)) throw new FormulaError(`Expected a value but found "${token.text}".`, token.position)
+        return this.column(token)
+      }
+      default:
+        throw new FormulaError(
+          token.type === "end" ? "Expected a value before the end." : `Expected a value but found "${token.text}".`,
+          token.position,
+        )
+    }
+  }
+
+  private column(token: Token): FormulaNode {
+    if (this.columns && !this.columns.has(token.text)) {
+      throw new FormulaError(`Unknown column "${token.text}".`, token.position)
+    }
+    return { type: "column", name: token.text }
+  }
+
+  private call(token: Token): FormulaNode {
+    const name = token.text.toLowerCase()
+    const definition = FUNCTIONS.get(name)
+    if (!definition) {
+      throw new FormulaError(`Unknown function "${token.text}". Use one of: ${FORMULA_FUNCTIONS.join(", ")}.`, token.position)
+    }
+
+    this.next()
+    const args: FormulaNode[] = []
+    if (this.peek().type !== ")") {
+      args.push(this.parseOr())
+      while (this.peek().type === ",") {
+        this.next()
+        args.push(this.parseOr())
+      }
+    }
+    this.expect(")", 'a closing ")"')
+
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected =
+        definition.minArgs === definition.maxArgs
+          ? `${definition.minArgs}`
+          : definition.maxArgs === Infinity
+            ? `at least ${definition.minArgs}`
+            : `${definition.minArgs} to ${definition.maxArgs}`
+      throw new FormulaError(`${name}() takes ${expected} argument${expected === "1" ? "" : "s"}.`, token.position)
+    }
+
+    return { type: "call", name, args }
+  }
+}
+
+/**
+ * Parse a formula such as `round(total / units, 2)` or
+ * `if(region = "North", total * 0.2, 0)`. Pass `columns` to reject
+ * references to columns that do not exist.
+ */
+export function parseFormula(formula: string, columns?: string[]): FormulaNode {
+  return new Parser(tokenize(formula), columns ? new Set(columns) : undefined).parse()
+}
+
+function compare(left: FormulaValue, right: FormulaValue): number | null {
+  if (left === null || right === null) return null
+  if (typeof left === "number" || typeof right === "number") {
+    const a = asNumber(left)
+    const b = asNumber(right)
+    if (a !== null && b !== null) return a - b
+  }
+  const leftNumber = typeof left === "string" ? (left.trim() === "" ? NaN : Number(left)) : Number(left)
+  const rightNumber = typeof right === "string" ? (right.trim() === "" ? NaN : Number(right)) : Number(right)
+  if (!Number.isNaN(leftNumber) && !Number.isNaN(rightNumber)) return leftNumber - rightNumber
+  return String(left).trim().toLowerCase().localeCompare(String(right).trim().toLowerCase())
+}
+
+function applyBinary(operator: BinaryOperator, left: FormulaValue, right: FormulaValue): FormulaValue {
+  if (COMPARISONS.has(operator)) {
+    const order = compare(left, right)
+    if (order === null) return operator === "!=" ? left !== right : operator === "=" ? left === right : null
+    switch (operator) {
+      case "=":
+        return order === 0
+      case "!=":
+        return order !== 0
+      case ">":
+        return order > 0
+      case ">=":
+        return order >= 0
+      case "<":
+        return order < 0
+      default:
+        return order <= 0
+    }
+  }
+
+  const a = asNumber(left)
+  const b = asNumber(right)
+  if (a === null || b === null) return null
+  switch (operator) {
+    case "+":
+      return a + b
+    case "-":
+      return a - b
+    case "*":
+      return a * b
+    case "/":
+      return b === 0 ? null : a / b
+    default:
+      return b === 0 ? null : a % b
+  }
+}
+
+/**
+ * Evaluate a parsed formula against one record. Missing or non-numeric
+ * inputs and division by zero produce null rather than NaN or Infinity.
+ */
+export function evaluateFormula(node: FormulaNode, record: Record<string, CellValue>): FormulaValue {
+  switch (node.type) {
+    case "literal":
+      return node.value
+    case "column": {
+      const cell = record[node.name]
+      return cell === undefined ? null : cell
+    }
+    case "unary": {
+      const operand = evaluateFormula(node.operand, record)
+      if (node.operator === "not") return !isTruthy(operand)
+      const value = asNumber(operand)
+      return value === null ? null : -value
+    }
+    case "binary": {
+      if (node.operator === "and") {
+        return isTruthy(evaluateFormula(node.left, record)) && isTruthy(evaluateFormula(node.right, record))
+      }
+      if (node.operator === "or") {
+        return isTruthy(evaluateFormula(node.left, record)) || isTruthy(evaluateFormula(node.right, record))
+      }
+      return applyBinary(node.operator, evaluateFormula(node.left, record), evaluateFormula(node.right, record))
+    }
+    case "call": {
+      const definition = FUNCTIONS.get(node.name)
+      if (!definition) throw new FormulaError(`Unknown function "${node.name}".`, 0)
+      if (node.name === "if") {
+        const [condition, then, otherwise] = node.args
+        if (isTruthy(evaluateFormula(condition, record))) return evaluateFormula(then, record)
+        return otherwise ? evaluateFormula(otherwise, record) : null
+      }
+      return definition.apply(node.args.map((arg) => evaluateFormula(arg, record)))
+    }
+  }
+}
+
+function toCell(value: FormulaValue): string | number {
+  if (value === null) return ""
+  if (typeof value === "boolean") return String(value)
+  if (typeof value === "number") return Number.isFinite(value) ? value : ""
+  return value
+}
+
+/**
+ * Validate calculated column names and parse their formulas in order, so a
+ * formula may reference `columns` and any calculated column defined before it.
+ * Throws a FormulaError that names the offending column.
+ */
+export function compileCalculatedColumns(
+  definitions: CalculatedColumn[],
+  columns: string[],
+): { name: string; node: FormulaNode }[] {
+  const known = new Set(columns)
+  return definitions.map((definition) => {
+    const name = typeof definition?.name === "string" ? definition.name.trim() : ""
+    if (!name) throw new FormulaError("Calculated columns need a name.", 0, undefined, "name")
+    if (known.has(name)) throw new FormulaError(`Column "${name}" already exists.`, 0, name, "name")
+    if (typeof definition.formula !== "string" || !definition.formula.trim()) {
+      throw new FormulaError("Formula is empty.", 0, name)
+    }
+
+    let node: FormulaNode
+    try {
+      node = parseFormula(definition.formula, Array.from(known))
+    } catch (error) {
+      if (error instanceof FormulaError) throw new FormulaError(error.message, error.position, name)
+      throw error
+    }
+    known.add(name)
+    return { name, node }
+  })
+}
+
+/**
+ * Materialize calculated columns onto copies of the records, in order. The
+ * source records are returned untouched when there is nothing to add.
+ */
+export function applyCalculatedColumns<T extends Record<string, string | number>>(
+  records: T[],
+  definitions: CalculatedColumn[],
+): Record<string, string | number>[] {
+  if (!definitions.length) return records
+
+  const columns = new Set<string>()
+  records.forEach((record) => Object.keys(record).forEach((key) => columns.add(key)))
+  const compiled = compileCalculatedColumns(definitions, Array.from(columns))
+
+  return records.map((record) => {
+    const next: Record<string, string | number> = { ...record }
+    compiled.forEach(({ name, node }) => {
+      next[name] = toCell(evaluateFormula(node, next))
+    })
+    return next
+  })
+}
@@ -0,0 +1,70 @@
+import type { StateStorage } from "zustand/middleware"
+
+const STORE_NAME = "state"
+const WRITE_DELAY_MS = 400
+
+function request<T>(operation: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    operation.onsuccess = () => resolve(operation.result)
+    operation.onerror = () => reject(operation.error)
+  })
+}
+
+/**
+ * A key-value `StateStorage` for zustand's `persist` backed by an IndexedDB
+ * database, for state too large for localStorage. Writes to the same key are
+ * coalesced so rapid updates, such as streamed chat tokens, hit the disk at
+ * most every few hundred milliseconds. Throws where IndexedDB is missing,
+ * which `createJSONStorage` treats as "no storage".
+ */
+export function createIndexedDbStorage(databaseName: string): StateStorage {
+  if (typeof indexedDB === "undefined") throw new Error("IndexedDB is not available.")
+
+  let database: Promise<IDBDatabase> | null = null
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const opening = indexedDB.open(databaseName, 1)
+      opening.onupgradeneeded = () => opening.result.createObjectStore(STORE_NAME)
+      opening.onsuccess = () => resolve(opening.result)
+      opening.onerror = () => reject(opening.error)
+    })
+    return database
+  }
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+
+  const pending = new Map<string, { value: string; timer: ReturnType<typeof setTimeout> }>()
+  const write = async (name: string, value: string) => {
+    await request((await objectStore("readwrite")).put(value, name))
+  }
+  const flush = () => {
+    for (const [name, entry] of pending) {
+      clearTimeout(entry.timer)
+      void write(name, entry.value)
+    }
+    pending.clear()
+  }
+  if (typeof window !== "undefined") window.addEventListener("pagehide", flush)
+
+  return {
+    async getItem(name) {
+      const queued = pending.get(name)
+      if (queued) return queued.value
+      const value = await request((await objectStore("readonly")).get(name))
+      return typeof value === "string" ? value : null
+    },
+    setItem(name, value) {
+      clearTimeout(pending.get(name)?.timer)
+      const timer = setTimeout(() => {
+        pending.delete(name)
+        void write(name, value)
+      }, WRITE_DELAY_MS)
+      pending.set(name, { value, timer })
+    },
+    async removeItem(name) {
+      clearTimeout(pending.get(name)?.timer)
+      pending.delete(name)
+      await request((await objectStore("readwrite")).delete(name))
+    },
+  }
+}
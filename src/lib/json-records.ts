@@ -0,0 +1,217 @@
+export type JsonRecord = Record<string, string | number>
+
+export type JsonWarningCode = "invalid-line" | "non-object-record" | "depth-limit" | "truncated"
+
+export interface JsonParseWarning {
+  code: JsonWarningCode
+  line: number
+  message: string
+}
+
+export interface JsonParseOptions {
+  /** How many levels of nesting become their own columns; deeper values are kept as JSON text. */
+  maxDepth?: number
+}
+
+export interface JsonParseResult {
+  records: JsonRecord[]
+  warnings: JsonParseWarning[]
+  /** Dot path of the array the records were read from; empty for a top-level array or NDJSON. */
+  recordPath: string
+}
+
+export const DEFAULT_MAX_DEPTH = 3
+export const MAX_DEPTH_LIMIT = 10
+
+const MAX_WARNINGS = 100
+const SEARCH_DEPTH = 4
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
+
+function isObject(value: JsonValue): value is { [key: string]: JsonValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function toCell(value: JsonValue): string | number {
+  if (value === null) return ""
+  if (typeof value === "number" || typeof value === "string") return value
+  if (typeof value === "boolean") return String(value)
+  return JSON.stringify(value)
+}
+
+function joinPath(prefix: string, key: string): string {
+  return prefix ? `${prefix}.${key}` : key
+}
+
+/**
+ * Flatten nested objects and arrays into dot-path columns such as
+ * `customer.region` and `items[0].sku`. Objects or arrays found below
+ * `maxDepth` are stored as JSON text so no value is lost. Returns whether any
+ * value was cut off by the depth limit.
+ */
+export function flattenRecord(value: JsonValue, maxDepth = DEFAULT_MAX_DEPTH): { record: JsonRecord; truncated: boolean } {
+  const record: JsonRecord = {}
+  let truncated = false
+
+  const visit = (current: JsonValue, path: string, depth: number) => {
+    const nested = Array.isArray(current) ? current.length > 0 : isObject(current) && Object.keys(current).length > 0
+    if (!nested) {
+      record[path] = Array.isArray(current) || isObject(current) ? "" : toCell(current)
+      return
+    }
+    if (depth >= maxDepth) {
+      record[path] = toCell(current)
+      truncated = true
+      return
+    }
+    if (Array.isArray(current)) {
+      current.forEach((item, index) => visit(item, `${path}[${index}]`, depth + 1))
+    } else {
+      Object.entries(current as { [key: string]: JsonValue }).forEach(([key, item]) =>
+        visit(item, joinPath(path, key), depth + 1),
+      )
+    }
+  }
+
+  if (isObject(value)) {
+    Object.entries(value).forEach(([key, item]) => visit(item, key, 0))
+  } else {
+    visit(value, "value", 0)
+  }
+
+  return { record, truncated }
+}
+
+/**
+ * Locate the array of records inside a parsed document. A top-level array is
+ * used as is; otherwise the largest array of objects reachable through nested
+ * objects wins, preferring shallower paths on ties. A lone object with no such
+ * array is treated as a single record.
+ */
+export function findRecordArray(document: JsonValue): { path: string; items: JsonValue[] } {
+  if (Array.isArray(document)) return { path: "", items: document }
+  if (!isObject(document)) return { path: "", items: [document] }
+
+  let best: { path: string; items: JsonValue[]; score: number } | null = null
+  const queue: { value: { [key: string]: JsonValue }; path: string; depth: number }[] = [
+    { value: document, path: "", depth: 0 },
+  ]
+
+  while (queue.length) {
+    const { value, path, depth } = queue.shift()!
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = joinPath(path, key)
+      if (Array.isArray(item)) {
+        const score = item.filter(isObject).length
+        if (score > 0 && (!best || score > best.score)) best = { path: itemPath, items: item, score }
+      } else if (isObject(item) && depth + 1 < SEARCH_DEPTH) {
+        queue.push({ value: item, path: itemPath, depth: depth + 1 })
+      }
+    }
+  }
+
+  return best ? { path: best.path, items: best.items } : { path: "", items: [document] }
+}
+
+class WarningCollector {
+  warnings: JsonParseWarning[] = []
+  private overflow = 0
+
+  add(code: JsonWarningCode, line: number, message: string) {
+    if (this.warnings.length >= MAX_WARNINGS) {
+      this.overflow += 1
+      return
+    }
+    this.warnings.push({ code, line, message })
+  }
+
+  finish(): JsonParseWarning[] {
+    if (this.overflow) {
+      this.warnings.push({
+        code: "truncated",
+        line: 0,
+        message: `${this.overflow} more warning${this.overflow === 1 ? "" : "s"} omitted.`,
+      })
+    }
+    return this.warnings
+  }
+}
+
+function flattenItems(
+  items: { value: JsonValue; line: number }[],
+  maxDepth: number,
+  collector: WarningCollector,
+): JsonRecord[] {
+  let depthWarned = false
+  return items.map(({ value, line }, index) => {
+    if (!isObject(value)) {
+      collector.add("non-object-record", line, `Record ${index + 1} is not an object; stored it in a "value" column.`)
+    }
+    const { record, truncated } = flattenRecord(value, maxDepth)
+    if (truncated && !depthWarned) {
+      depthWarned = true
+      collector.add("depth-limit", line, `Values nested deeper than ${maxDepth} levels were kept as JSON text.`)
+    }
+    return record
+  })
+}
+
+function clampDepth(maxDepth: number | undefined): number {
+  if (maxDepth === undefined) return DEFAULT_MAX_DEPTH
+  return Math.min(MAX_DEPTH_LIMIT, Math.max(1, Math.floor(maxDepth)))
+}
+
+/**
+ * Parse a JSON document, discovering the record array inside wrapper objects
+ * such as `{ "data": [...] }`. Throws a SyntaxError for malformed JSON.
+ */
+export function parseJsonDocument(content: string, options: JsonParseOptions = {}): JsonParseResult {
+  const collector = new WarningCollector()
+  const { path, items } = findRecordArray(JSON.parse(content) as JsonValue)
+  const records = flattenItems(
+    items.map((value) => ({ value, line: 1 })),
+    clampDepth(options.maxDepth),
+    collector,
+  )
+  return { records, warnings: collector.finish(), recordPath: path }
+}
+
+/**
+ * Parse newline-delimited JSON. Lines that fail to parse are skipped with a
+ * warning; throws a SyntaxError only when no line holds valid JSON.
+ */
+export function parseNdjson(content: string, options: JsonParseOptions = {}): JsonParseResult {
+  const collector = new WarningCollector()
+  const items: { value: JsonValue; line: number }[] = []
+  let invalid = 0
+
+  content
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .forEach((text, index) => {
+      if (!text.trim()) return
+      try {
+        items.push({ value: JSON.parse(text) as JsonValue, line: index + 1 })
+      } catch {
+        invalid += 1
+        collector.add("invalid-line", index + 1, "Line is not valid JSON and was skipped.")
+      }
+    })
+
+  if (!items.length && invalid) throw new SyntaxError("No valid JSON lines found.")
+
+  const records = flattenItems(items, clampDepth(options.maxDepth), collector)
+  return { records, warnings: collector.finish(), recordPath: "" }
+}
+
+/**
+ * Heuristic used when a `.json` upload fails to parse as one document: two or
+ * more non-empty lines that each look like a standalone JSON value.
+ */
+export function looksLikeNdjson(content: string): boolean {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+  return lines.length > 1 && lines.every((line) => /^[[{"\d-]|^(true|false|null)$/.test(line))
+}
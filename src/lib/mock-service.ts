@@ -9,10 +9,19 @@ export interface MockRequest {
   text(): Promise<string | null>
 }
 
+export interface MockStreamChunk {
+  /** Strings are sent as-is; anything else is sent as one line of JSON. */
+  data: unknown
+  /** Wait before sending this chunk. */
+  delayMs?: number
+}
+
 export interface MockResponseInit {
   status?: number
   headers?: Record<string, string>
   body?: unknown
+  /** Send these chunks as a streamed body instead of `body`, newline-delimited JSON unless a Content-Type is set. */
+  stream?: MockStreamChunk[]
   delayMs?: number
 }
 
@@ -71,13 +80,63 @@ function createMockRequest(input: RequestInfo | URL, init?: RequestInit): Intern
   return mockRequest
 }
 
-async function resolveHandler(handler: MockHandler, request: InternalMockRequest) {
+function abortError(): Error {
+  return new DOMException("The operation was aborted.", "AbortError")
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/** A body that sends each chunk after its delay and errors like a real fetch when the request is aborted. */
+function createStreamBody(chunks: MockStreamChunk[], signal?: AbortSignal | null): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let index = 0
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= chunks.length) {
+        controller.close()
+        return
+      }
+      const chunk = chunks[index++]
+      try {
+        if (chunk.delayMs && chunk.delayMs > 0) await wait(chunk.delayMs, signal)
+        if (signal?.aborted) throw abortError()
+      } catch (error) {
+        controller.error(error)
+        return
+      }
+      controller.enqueue(encoder.encode(typeof chunk.data === "string" ? chunk.data : `${JSON.stringify(chunk.data)}\n`))
+    },
+  })
+}
+
+async function resolveHandler(handler: MockHandler, request: InternalMockRequest, signal?: AbortSignal | null) {
   const result = await handler.resolver(request)
   const status = result.status ?? 200
   const headers = new Headers(result.headers ?? {})
   let body: BodyInit | null = null
 
-  if (result.body !== undefined && result.body !== null) {
+  if (result.stream) {
+    body = createStreamBody(result.stream, signal)
+    if (!headers.has("Content-Type")) {
+      headers.set("Content-Type", "application/x-ndjson")
+    }
+  } else if (result.body !== undefined && result.body !== null) {
     if (typeof result.body === "string" || result.body instanceof Blob || result.body instanceof ArrayBuffer) {
       body = result.body as BodyInit
     } else {
@@ -89,7 +148,7 @@ async function resolveHandler(handler: MockHandler, request: InternalMockRequest
   }
 
   if (result.delayMs && result.delayMs > 0) {
-    await new Promise((resolve) => setTimeout(resolve, result.delayMs))
+    await wait(result.delayMs, signal)
   }
 
   return new Response(body, { status, headers })
@@ -117,11 +176,13 @@ function patchFetch() {
     }
 
     const clonedRequest = request.clone()
+    const signal = init?.signal ?? (input instanceof Request ? input.signal : null)
 
     try {
-      const response = await resolveHandler(handler, clonedRequest)
+      const response = await resolveHandler(handler, clonedRequest, signal)
       return response
     } catch (error) {
+      if (signal?.aborted) throw error
       console.error("Mock handler failed", error)
       return new Response("Mock handler error", { status: 500 })
     }
@@ -0,0 +1,146 @@
+export type NumberLocale = "en-US" | "de-DE" | "fr-FR" | "de-CH"
+
+export type NumberKind = "integer" | "decimal" | "currency" | "percentage"
+
+export interface ParsedNumber {
+  value: number
+  kind: NumberKind
+  /** The same number written for `en-US` without grouping, keeping any currency or percent sign. */
+  canonical: string
+}
+
+export const NUMBER_LOCALES: NumberLocale[] = ["en-US", "de-DE", "fr-FR", "de-CH"]
+
+export const DEFAULT_NUMBER_LOCALE: NumberLocale = "en-US"
+
+export const NUMBER_LOCALE_LABELS: Record<NumberLocale, string> = {
+  "en-US": "1,234.56 (English)",
+  "de-DE": "1.234,56 (German)",
+  "fr-FR": "1 234,56 (French)",
+  "de-CH": "1'234.56 (Swiss)",
+}
+
+const SEPARATORS: Record<NumberLocale, { decimal: string; group: RegExp }> = {
+  "en-US": { decimal: ".", group: /,/ },
+  "de-DE": { decimal: ",", group: /\./ },
+  "fr-FR": { decimal: ",", group: /[ \u00a0\u202f]/ },
+  "de-CH": { decimal: ".", group: /['’]/ },
+}
+
+const CURRENCY = "[$€£¥₦]|USD|EUR|GBP|NGN|JPY|CHF"
+const NUMBER_TEXT = new RegExp(
+  `^([-+]?)\\s*(\\()?\\s*([-+]?)\\s*(${CURRENCY})?\\s*([-+]?)\\s*(\\d[\\d.,'’ \\u00a0\\u202f]*|[.,]\\d+)\\s*(${CURRENCY}|%)?\\s*(\\))?$`,
+  "i",
+)
+const SCIENTIFIC = /^[-+]?(?:\d+\.?\d*|\.\d+)e[-+]?\d+$/i
+const DETECTION_SAMPLE = 500
+
+/**
+ * Read the digits between any sign and symbols, accepting either plain
+ * digits or groups of three split by the locale's group separator.
+ * Returns the digits in `en-US` form, or null when they do not fit.
+ */
+function readDigits(core: string, locale: NumberLocale): string | null {
+  const { decimal, group } = SEPARATORS[locale]
+  const parts = core.trim().split(decimal)
+  if (parts.length > 2) return null
+  const [whole, fraction] = parts
+  if (fraction !== undefined && !/^\d+$/.test(fraction)) return null
+
+  let digits = whole
+  if (!/^\d*$/.test(whole)) {
+    const groups = whole.split(group)
+    if (groups.length < 2 || !/^\d{1,3}$/.test(groups[0]) || groups.slice(1).some((chunk) => !/^\d{3}$/.test(chunk))) {
+      return null
+    }
+    digits = groups.join("")
+  }
+  if (!digits && fraction === undefined) return null
+  return fraction === undefined ? digits : `${digits || "0"}.${fraction}`
+}
+
+/**
+ * Parse numeric text written in `locale`: grouped digits, a currency symbol
+ * or code on either side, a trailing percent sign, and accounting negatives
+ * such as "(500)". Percentages keep their written value, so "12%" is 12.
+ */
+export function parseNumberText(text: string, locale: NumberLocale = DEFAULT_NUMBER_LOCALE): ParsedNumber | null {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+
+  if (SEPARATORS[locale].decimal === "." && SCIENTIFIC.test(trimmed)) {
+    const value = Number(trimmed)
+    return Number.isFinite(value) ? { value, kind: "decimal", canonical: trimmed } : null
+  }
+
+  const match = trimmed.match(NUMBER_TEXT)
+  if (!match) return null
+  const [, outerSign, open, innerSign, prefix, symbolSign, core, suffix, close] = match
+  if (Boolean(open) !== Boolean(close)) return null
+  const signs = [outerSign, innerSign, symbolSign].filter(Boolean)
+  if (signs.length > 1 || (open && signs.length)) return null
+
+  const digits = readDigits(core, locale)
+  if (digits === null) return null
+  const value = Number(digits)
+  if (!Number.isFinite(value)) return null
+
+  const negative = Boolean(open) || signs[0] === "-"
+  const kind: NumberKind = suffix === "%" ? "percentage" : prefix || suffix ? "currency" : digits.includes(".") ? "decimal" : "integer"
+  const canonical = `${negative ? "-" : ""}${prefix ?? ""}${digits}${suffix ? (suffix === "%" ? "%" : ` ${suffix}`) : ""}`
+  return { value: negative ? -value : value, kind, canonical }
+}
+
+export function toNumber(
+  value: string | number | boolean | null | undefined,
+  locale: NumberLocale = DEFAULT_NUMBER_LOCALE,
+): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (value === null || value === undefined || typeof value === "boolean") return null
+  return parseNumberText(String(value), locale)?.value ?? null
+}
+
+export function formatNumber(value: number, locale: NumberLocale = DEFAULT_NUMBER_LOCALE): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value)
+}
+
+/**
+ * Guess how numbers in the records are written by counting, per locale, how
+ * many text cells read as numbers. Ties keep the earlier locale in
+ * `NUMBER_LOCALES`, so ambiguous values like "1,234" stay `en-US`.
+ */
+export function detectNumberLocale(records: Record<string, string | number>[]): NumberLocale {
+  const cells = records
+    .slice(0, DETECTION_SAMPLE)
+    .flatMap((record) => Object.values(record))
+    .filter((cell): cell is string => typeof cell === "string" && /\d/.test(cell))
+
+  let best = DEFAULT_NUMBER_LOCALE
+  let bestScore = 0
+  NUMBER_LOCALES.forEach((locale) => {
+    const score = cells.filter((cell) => parseNumberText(cell, locale)).length
+    if (score > bestScore) {
+      best = locale
+      bestScore = score
+    }
+  })
+  return best
+}
+
+/**
+ * Rewrite numeric text from `locale` into its canonical `en-US` form so the
+ * rest of the analysis can read it without knowing the locale. Records are
+ * returned untouched for `en-US`.
+ */
+export function normalizeNumbers<T extends Record<string, string | number>>(records: T[], locale: NumberLocale): T[] {
+  if (locale === DEFAULT_NUMBER_LOCALE) return records
+  return records.map((record) => {
+    const normalized: Record<string, string | number> = { ...record }
+    Object.entries(record).forEach(([key, cell]) => {
+      if (typeof cell !== "string") return
+      const parsed = parseNumberText(cell, locale)
+      if (parsed) normalized[key] = parsed.canonical
+    })
+    return normalized as T
+  })
+}
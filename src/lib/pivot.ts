@@ -0,0 +1,131 @@
+import { aggregate, measureLabel, MeasureSpec, OTHER_LABEL } from "./aggregate"
+import { CellValue, parseDateValue } from "./schema"
+import { bucketDate, PeriodGranularity } from "./time-series"
+
+export interface PivotSpec {
+  rows: string
+  columns: string
+  measure?: MeasureSpec
+}
+
+export interface PivotOptions {
+  /** Bucket date dimensions into periods instead of pivoting on raw dates. */
+  rowGranularity?: PeriodGranularity
+  columnGranularity?: PeriodGranularity
+  maxRows?: number
+  maxColumns?: number
+}
+
+export interface PivotTable {
+  rowDimension: string
+  columnDimension: string
+  measure: MeasureSpec
+  label: string
+  rowKeys: string[]
+  columnKeys: string[]
+  /** `cells[row][column]`; null where no records fall in the intersection. */
+  cells: (number | null)[][]
+  rowTotals: number[]
+  columnTotals: number[]
+  grandTotal: number
+  min: number
+  max: number
+}
+
+export const MAX_PIVOT_ROWS = 50
+export const MAX_PIVOT_COLUMNS = 20
+
+const UNKNOWN_LABEL = "Unknown"
+
+function round(value: number): number {
+  return Number(value.toFixed(2))
+}
+
+function dimensionKey(value: CellValue, granularity?: PeriodGranularity): string {
+  if (granularity) {
+    const date = parseDateValue(value)
+    if (date) return bucketDate(date, granularity).period
+  }
+  const text = value === null || value === undefined ? "" : String(value).trim()
+  return text || UNKNOWN_LABEL
+}
+
+/**
+ * Order keys by their total (largest first), or chronologically for bucketed
+ * dates, keeping at most `limit` and folding the rest into "Other".
+ */
+function rankKeys(totals: Map<string, CellValue[]>, measure: MeasureSpec, chronological: boolean, limit: number) {
+  const ranked = Array.from(totals.entries())
+    .map(([key, cells]) => ({ key, total: aggregate(cells, measure.aggregation) }))
+    .sort((a, b) => (chronological ? a.key.localeCompare(b.key) : b.total - a.total || a.key.localeCompare(b.key)))
+    .map((entry) => entry.key)
+
+  if (ranked.length <= limit) return { keys: ranked, folded: new Set<string>() }
+  const kept = ranked.slice(0, limit - 1)
+  return { keys: [...kept, OTHER_LABEL], folded: new Set(ranked.slice(limit - 1)) }
+}
+
+/**
+ * Cross-tabulate one measure by a row and a column dimension. Cells, row and
+ * column subtotals and the grand total are each aggregated from the raw
+ * cells they cover, so averages and distinct counts stay correct.
+ */
+export function buildPivot(
+  records: Record<string, CellValue>[],
+  spec: Required<PivotSpec>,
+  options: PivotOptions = {},
+): PivotTable {
+  const { measure } = spec
+  const maxRows = options.maxRows ?? MAX_PIVOT_ROWS
+  const maxColumns = options.maxColumns ?? MAX_PIVOT_COLUMNS
+
+  const keyed = records.map((record) => ({
+    row: dimensionKey(record[spec.rows], options.rowGranularity),
+    column: dimensionKey(record[spec.columns], options.columnGranularity),
+    cell: record[measure.column],
+  }))
+
+  const byRow = new Map<string, CellValue[]>()
+  const byColumn = new Map<string, CellValue[]>()
+  keyed.forEach(({ row, column, cell }) => {
+    if (!byRow.has(row)) byRow.set(row, [])
+    if (!byColumn.has(column)) byColumn.set(column, [])
+    byRow.get(row)!.push(cell)
+    byColumn.get(column)!.push(cell)
+  })
+
+  const rows = rankKeys(byRow, measure, Boolean(options.rowGranularity), maxRows)
+  const columns = rankKeys(byColumn, measure, Boolean(options.columnGranularity), maxColumns)
+  const rowIndex = new Map(rows.keys.map((key, index) => [key, index]))
+  const columnIndex = new Map(columns.keys.map((key, index) => [key, index]))
+
+  const cellValues: CellValue[][][] = rows.keys.map(() => columns.keys.map(() => []))
+  const rowValues: CellValue[][] = rows.keys.map(() => [])
+  const columnValues: CellValue[][] = columns.keys.map(() => [])
+
+  keyed.forEach(({ row, column, cell }) => {
+    const r = rowIndex.get(rows.folded.has(row) ? OTHER_LABEL : row)!
+    const c = columnIndex.get(columns.folded.has(column) ? OTHER_LABEL : column)!
+    cellValues[r][c].push(cell)
+    rowValues[r].push(cell)
+    columnValues[c].push(cell)
+  })
+
+  const cells = cellValues.map((row) => row.map((values) => (values.length ? round(aggregate(values, measure.aggregation)) : null)))
+  const filled = cells.flat().filter((value): value is number => value !== null)
+
+  return {
+    rowDimension: spec.rows,
+    columnDimension: spec.columns,
+    measure,
+    label: measureLabel(measure),
+    rowKeys: rows.keys,
+    columnKeys: columns.keys,
+    cells,
+    rowTotals: rowValues.map((values) => round(aggregate(values, measure.aggregation))),
+    columnTotals: columnValues.map((values) => round(aggregate(values, measure.aggregation))),
+    grandTotal: round(aggregate(keyed.map(({ cell }) => cell), measure.aggregation)),
+    min: filled.length ? Math.min(...filled) : 0,
+    max: filled.length ? Math.max(...filled) : 0,
+  }
+}
@@ -0,0 +1,277 @@
+import { toNumber } from "./numbers"
+import { CellValue, ColumnSchema, matchesColumnType } from "./schema"
+
+export type QualityIssueKind =
+  | "missing-values"
+  | "duplicate-rows"
+  | "mixed-types"
+  | "coerced-numbers"
+  | "inconsistent-categories"
+  | "ragged-rows"
+
+export type QualitySeverity = "low" | "medium" | "high"
+
+export interface QualityIssue {
+  id: string
+  kind: QualityIssueKind
+  severity: QualitySeverity
+  column: string | null
+  count: number
+  share: number
+  message: string
+  examples: string[]
+  rowIndices: number[]
+}
+
+export interface ColumnQuality {
+  column: string
+  missing: number
+  issues: number
+}
+
+export interface DataQualityReport {
+  score: number
+  rowCount: number
+  columnCount: number
+  issues: QualityIssue[]
+  columns: ColumnQuality[]
+}
+
+const MAX_EXAMPLES = 5
+const MAX_ROW_INDICES = 200
+
+/** How strongly each kind of problem pulls the score down per affected row share. */
+const PENALTY_WEIGHT: Record<QualityIssueKind, number> = {
+  "missing-values": 0.5,
+  "duplicate-rows": 1,
+  "mixed-types": 1,
+  "coerced-numbers": 0.25,
+  "inconsistent-categories": 0.5,
+  "ragged-rows": 1,
+}
+
+const MAX_PENALTY_PER_ISSUE = 25
+
+const SEVERITY_RANK: Record<QualitySeverity, number> = { low: 0, medium: 1, high: 2 }
+
+function isEmpty(value: CellValue): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "")
+}
+
+function severityFor(share: number): QualitySeverity {
+  if (share >= 0.2) return "high"
+  if (share >= 0.05) return "medium"
+  return "low"
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(4))
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`
+}
+
+function uniqueExamples(values: string[]): string[] {
+  return Array.from(new Set(values)).slice(0, MAX_EXAMPLES)
+}
+
+function createIssue(
+  kind: QualityIssueKind,
+  column: string | null,
+  rowIndices: number[],
+  rowCount: number,
+  message: string,
+  examples: string[] = [],
+  count = rowIndices.length,
+): QualityIssue {
+  const share = rowCount ? round(count / rowCount) : 0
+  return {
+    id: column ? `${kind}-${column}` : kind,
+    kind,
+    severity: severityFor(share),
+    column,
+    count,
+    share,
+    message,
+    examples,
+    rowIndices: rowIndices.slice(0, MAX_ROW_INDICES),
+  }
+}
+
+function findDuplicateRows(records: Record<string, CellValue>[], columns: string[]): number[] {
+  const seen = new Set<string>()
+  const duplicates: number[] = []
+  records.forEach((record, index) => {
+    const key = JSON.stringify(columns.map((column) => (isEmpty(record[column]) ? "" : String(record[column]).trim())))
+    if (seen.has(key)) duplicates.push(index)
+    else seen.add(key)
+  })
+  return duplicates
+}
+
+/**
+ * Numeric-looking text that only became a number after `toNumber` stripped
+ * symbols or separators, such as "$1,200" or "12%".
+ */
+function isCoercedNumber(cell: CellValue): boolean {
+  if (typeof cell !== "string" || isEmpty(cell)) return false
+  if (!matchesColumnType(cell, "currency") && !matchesColumnType(cell, "percentage")) return false
+  const coerced = toNumber(cell)
+  return coerced !== null && Number(cell.trim()) !== coerced
+}
+
+/**
+ * Category values that differ only by case or surrounding/inner whitespace,
+ * e.g. "North", "north" and "North ".
+ */
+function findInconsistentCategories(cells: CellValue[]): { rows: number[]; examples: string[]; groups: number } {
+  const variants = new Map<string, Map<string, number[]>>()
+  cells.forEach((cell, index) => {
+    if (isEmpty(cell)) return
+    const raw = String(cell)
+    const normalized = raw.trim().replace(/\s+/g, " ").toLowerCase()
+    const spellings = variants.get(normalized) ?? new Map<string, number[]>()
+    spellings.set(raw, [...(spellings.get(raw) ?? []), index])
+    variants.set(normalized, spellings)
+  })
+
+  const rows: number[] = []
+  const examples: string[] = []
+  let groups = 0
+  variants.forEach((spellings) => {
+    if (spellings.size < 2) return
+    groups += 1
+    const ordered = Array.from(spellings.entries()).sort(([, a], [, b]) => b.length - a.length)
+    examples.push(ordered.map(([spelling]) => JSON.stringify(spelling)).join(" vs. "))
+    ordered.slice(1).forEach(([, indices]) => rows.push(...indices))
+  })
+
+  return { rows: rows.sort((a, b) => a - b), examples: examples.slice(0, MAX_EXAMPLES), groups }
+}
+
+/**
+ * Inspect records for problems that make KPIs untrustworthy and fold them
+ * into a 0–100 score. Each issue costs up to 25 points in proportion to the
+ * share of rows it affects, weighted by how much it distorts results.
+ * Parse warnings are passed in so rows with the wrong field count are counted;
+ * they cover every parsed row, so their share is taken of `parsedRows`, which
+ * differs from `records.length` once a filter has dropped rows.
+ */
+export function assessQuality(
+  records: Record<string, CellValue>[],
+  schema: ColumnSchema[],
+  parseWarnings: { code: string; line: number }[] = [],
+  parsedRows = records.length,
+): DataQualityReport {
+  const rowCount = records.length
+  const issues: QualityIssue[] = []
+
+  schema.forEach((column) => {
+    const cells = records.map((record) => record[column.name])
+
+    const missing = cells.flatMap((cell, index) => (isEmpty(cell) ? [index] : []))
+    if (missing.length) {
+      issues.push(
+        createIssue(
+          "missing-values",
+          column.name,
+          missing,
+          rowCount,
+          `${column.name} is empty in ${plural(missing.length, "row")} (${Math.round((missing.length / rowCount) * 100)}%).`,
+        ),
+      )
+    }
+
+    const isMeasure = column.role === "measure"
+    const coerced = isMeasure ? cells.flatMap((cell, index) => (isCoercedNumber(cell) ? [index] : [])) : []
+    const mismatched = cells.flatMap((cell, index) =>
+      !isEmpty(cell) && !matchesColumnType(cell, column.type) && !(isMeasure && isCoercedNumber(cell)) ? [index] : [],
+    )
+    if (mismatched.length) {
+      issues.push(
+        createIssue(
+          "mixed-types",
+          column.name,
+          mismatched,
+          rowCount,
+          `${column.name} looks like ${column.type} but ${plural(mismatched.length, "value")} do not match.`,
+          uniqueExamples(mismatched.map((index) => String(cells[index]))),
+        ),
+      )
+    }
+
+    if (coerced.length) {
+      issues.push(
+        createIssue(
+          "coerced-numbers",
+          column.name,
+          coerced,
+          rowCount,
+          `${plural(coerced.length, "value")} in ${column.name} had symbols or separators stripped to read as numbers.`,
+          uniqueExamples(coerced.map((index) => String(cells[index]))),
+        ),
+      )
+    }
+
+    if (column.type === "category") {
+      const inconsistent = findInconsistentCategories(cells)
+      if (inconsistent.groups) {
+        issues.push(
+          createIssue(
+            "inconsistent-categories",
+            column.name,
+            inconsistent.rows,
+            rowCount,
+            `${column.name} has ${plural(inconsistent.groups, "value")} spelled with different casing or whitespace.`,
+            inconsistent.examples,
+          ),
+        )
+      }
+    }
+  })
+
+  const duplicates = findDuplicateRows(
+    records,
+    schema.map((column) => column.name),
+  )
+  if (duplicates.length) {
+    issues.push(
+      createIssue("duplicate-rows", null, duplicates, rowCount, `${plural(duplicates.length, "row")} repeat an earlier row exactly.`),
+    )
+  }
+
+  const ragged = parseWarnings.filter((warning) => warning.code === "ragged-row")
+  if (ragged.length) {
+    issues.push(
+      createIssue(
+        "ragged-rows",
+        null,
+        [],
+        parsedRows,
+        `${plural(ragged.length, "row")} had the wrong number of fields and were padded or cut.`,
+        ragged.slice(0, MAX_EXAMPLES).map((warning) => `Line ${warning.line}`),
+        ragged.length,
+      ),
+    )
+  }
+
+  issues.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.share - a.share)
+
+  const penalty = issues.reduce(
+    (total, issue) => total + Math.min(MAX_PENALTY_PER_ISSUE, issue.share * 100 * PENALTY_WEIGHT[issue.kind]),
+    0,
+  )
+
+  return {
+    score: Math.max(0, Math.round(100 - penalty)),
+    rowCount,
+    columnCount: schema.length,
+    issues,
+    columns: schema.map((column) => ({
+      column: column.name,
+      missing: column.missing,
+      issues: issues.filter((issue) => issue.column === column.name).length,
+    })),
+  }
+}
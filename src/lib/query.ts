@@ -0,0 +1,382 @@
+import { aggregate, Aggregation, AGGREGATION_LABELS, groupRecords } from "./aggregate"
+import { filterRecords } from "./filter"
+import { DEFAULT_NUMBER_LOCALE, formatNumber, NumberLocale, parseNumberText } from "./numbers"
+import { CellValue, ColumnSchema, inferSchema, isNumericType } from "./schema"
+
+/** A question reduced to the group-by, aggregate and filter primitives the analysis already has. */
+export interface DataQuery {
+  aggregation: Aggregation
+  /** The aggregated column; null when counting rows. */
+  measure: string | null
+  groupBy: string | null
+  /** Filter expression in the syntax `filterRecords` accepts, or null for every row. */
+  filter: string | null
+  sort: "desc" | "asc"
+  /** How many groups to keep; null keeps them all. */
+  limit: number | null
+}
+
+export interface QueryTable {
+  columns: string[]
+  rows: (string | number)[][]
+}
+
+export interface QueryAnswer {
+  question: string
+  query: DataQuery
+  /** The query restated in words, so the reader can check what was computed. */
+  interpretation: string
+  answer: string
+  table: QueryTable
+  /** Rows left after the question's filter. */
+  matchedRows: number
+}
+
+/** Raised when a question cannot be mapped onto the dataset's columns. */
+export class QueryInterpretationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "QueryInterpretationError"
+  }
+}
+
+const MAX_VALUE_DISTINCT = 50
+const MAX_LISTED_GROUPS = 5
+
+const AGGREGATION_WORDS: [RegExp, Aggregation][] = [
+  [/\b(?:average|avg|mean)\b/, "avg"],
+  [/\bmedian\b/, "median"],
+  [/\b(?:distinct|unique|different)\b/, "distinct"],
+  [/\b(?:total|sum)\b/, "sum"],
+  [/\b(?:minimum|min)\b/, "min"],
+  [/\b(?:maximum|max)\b/, "max"],
+  [/\b(?:count|how many|number of)\b/, "count"],
+]
+/** An aggregation word at the start of a column mention, as in "total units" where `total` is also a column. */
+const LEADING_AGGREGATION = /^(?:average|avg|mean|median|distinct|unique|total|sum|minimum|min|maximum|max|count)\b/
+const HIGHEST = /\b(?:highest|most|largest|biggest|greatest|best|top|max(?:imum)?)\b/
+const LOWEST = /\b(?:lowest|least|fewest|smallest|worst|bottom|min(?:imum)?)\b/
+const LIMIT = /\b(?:top|bottom|first|last)\s+(\d+)\b/
+const GROUP_PREFIX = /\b(?:by|per|each|every|which|what|across|for)\s+(?:\w+\s+)?$/
+
+const COMPARISONS: [string, string][] = [
+  ["greater than or equal to", ">="],
+  ["less than or equal to", "<="],
+  ["more than", ">"],
+  ["greater than", ">"],
+  ["above", ">"],
+  ["over", ">"],
+  ["at least", ">="],
+  ["less than", "<"],
+  ["fewer than", "<"],
+  ["below", "<"],
+  ["under", "<"],
+  ["at most", "<="],
+  ["equal to", "="],
+  ["exactly", "="],
+  [">=", ">="],
+  ["<=", "<="],
+  [">", ">"],
+  ["<", "<"],
+  ["=", "="],
+]
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/** Match a column name as words, so `unit_price` matches "unit price" and `units` matches "unit". */
+function columnPattern(column: string): string {
+  const words = column
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[_\-.]+/g, " ")
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+  const last = words.pop() ?? ""
+  const stem = last.length > 3 && last.endsWith("s") ? last.slice(0, -1) : last
+  return [...words.map(escapeRegExp), `${escapeRegExp(stem)}(?:e?s)?`].join("[\\s_-]+")
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/["\\]/g, "\\$&")}"`
+}
+
+function field(column: string): string {
+  return `\`${column.replace(/[`\\]/g, "\\$&")}\``
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2))
+}
+
+/** Blank out a matched span so later patterns do not read it again. */
+function mask(text: string, index: number, length: number): string {
+  return text.slice(0, index) + " ".repeat(length) + text.slice(index + length)
+}
+
+function distinctValues(records: Record<string, CellValue>[], column: string): string[] {
+  const values = new Set<string>()
+  for (const record of records) {
+    const value = record[column]
+    if (value === null || value === undefined) continue
+    const text = String(value).trim()
+    if (text.length > 1 && !/^[\d.,\s-]+$/.test(text)) values.add(text)
+    if (values.size > MAX_VALUE_DISTINCT) return []
+  }
+  return Array.from(values)
+}
+
+/**
+ * Pull "region is North"-style conditions out of the question: any distinct
+ * value of a low-cardinality text column that appears as a whole word, and
+ * numeric comparisons such as "units over 10" or "more than 10 units".
+ * `compared` lists the numeric columns those comparisons mention.
+ */
+function extractConditions(
+  question: string,
+  schema: ColumnSchema[],
+  records: Record<string, CellValue>[],
+  locale: NumberLocale,
+): { conditions: string[]; compared: string[]; remaining: string } {
+  let remaining = question
+  const conditions: string[] = []
+  const compared: string[] = []
+
+  schema
+    .filter((column) => !isNumericType(column.type) && column.distinct <= MAX_VALUE_DISTINCT)
+    .forEach((column) => {
+      const found: string[] = []
+      distinctValues(records, column.name)
+        .sort((a, b) => b.length - a.length)
+        .forEach((value) => {
+          const match = new RegExp(`(?<![\\w])${escapeRegExp(value.toLowerCase())}(?![\\w])`).exec(remaining)
+          if (!match) return
+          found.push(value)
+          remaining = mask(remaining, match.index, match[0].length)
+        })
+      if (found.length === 1) conditions.push(`${field(column.name)} = ${quote(found[0])}`)
+      if (found.length > 1) conditions.push(`${field(column.name)} in (${found.map(quote).join(", ")})`)
+    })
+
+  const operators = COMPARISONS.map(([words]) => escapeRegExp(words)).join("|")
+  const number = "(-?\\d[\\d.,']*\\d|-?\\d)"
+  schema
+    .filter((column) => isNumericType(column.type))
+    .forEach((column) => {
+      const name = columnPattern(column.name)
+      const patterns = [
+        new RegExp(`\\b${name}\\s+(?:(?:is|was|are|were|of)\\s+)?(${operators})\\s*${number}`),
+        new RegExp(`(?:with\\s+)?(${operators})\\s*${number}\\s+${name}\\b`),
+      ]
+      patterns.forEach((pattern) => {
+        let match = pattern.exec(remaining)
+        while (match) {
+          const operator = COMPARISONS.find(([words]) => words === match![1])?.[1]
+          const value = parseNumberText(match[2].trim(), locale)?.value
+          if (operator && value !== undefined) {
+            conditions.push(`${field(column.name)} ${operator} ${value}`)
+            if (!compared.includes(column.name)) compared.push(column.name)
+          }
+          remaining = mask(remaining, match.index, match[0].length)
+          match = pattern.exec(remaining)
+        }
+      })
+    })
+
+  return { conditions, compared, remaining }
+}
+
+/** Columns named in the text in reading order; "unit price" counts as `unit_price`, not also as `units`. */
+function findMentions(text: string, schema: ColumnSchema[]): { column: ColumnSchema; index: number }[] {
+  const mentions = schema
+    .map((column) => ({ column, match: new RegExp(`\\b${columnPattern(column.name)}\\b`).exec(text) }))
+    .filter((mention): mention is { column: ColumnSchema; match: RegExpExecArray } => mention.match !== null)
+    .map(({ column, match }) => ({ column, index: match.index, end: match.index + match[0].length }))
+    .sort((a, b) => a.index - b.index || b.end - a.end)
+
+  let covered = -1
+  return mentions
+    .filter((mention) => {
+      if (mention.index < covered) return false
+      covered = mention.end
+      return true
+    })
+    .map(({ column, index }) => ({ column, index }))
+}
+
+/**
+ * Map a question onto a `DataQuery` by deterministic pattern matching:
+ * column names and category values mentioned in the text, aggregation words
+ * ("average", "total", "how many"), superlatives ("highest", "top 3") and
+ * comparisons ("units over 10"). The same question and columns always give
+ * the same query.
+ */
+export function interpretQuestion(
+  question: string,
+  records: Record<string, CellValue>[],
+  options: { locale?: NumberLocale; schema?: ColumnSchema[] } = {},
+): DataQuery {
+  const { locale = DEFAULT_NUMBER_LOCALE, schema = inferSchema(records) } = options
+  const text = question.trim().toLowerCase().replace(/[?!]+$/, "")
+  if (!text) throw new QueryInterpretationError("Ask a question about the data.")
+
+  const { conditions, compared, remaining } = extractConditions(text, schema, records, locale)
+  const mentions = findMentions(remaining, schema)
+  const numeric = mentions.filter((mention) => isNumericType(mention.column.type))
+  const categorical = mentions.filter((mention) => !isNumericType(mention.column.type))
+
+  const highest = HIGHEST.test(remaining)
+  const lowest = LOWEST.test(remaining)
+  const limitMatch = remaining.match(LIMIT)
+  let aggregation = AGGREGATION_WORDS.find(([pattern]) => pattern.test(remaining))?.[1]
+
+  // Prefer a named column over one that only matched an aggregation word.
+  const measured = numeric.find((mention) => !LEADING_AGGREGATION.test(remaining.slice(mention.index))) ?? numeric[0]
+  let measure: string | null = measured?.column.name ?? null
+  let groupBy: string | null =
+    (categorical.find((mention) => GROUP_PREFIX.test(remaining.slice(0, mention.index))) ?? categorical[0])?.column
+      .name ?? null
+
+  if (aggregation === "distinct") {
+    const counted = categorical.find((mention) => mention.column.name !== groupBy) ?? categorical[0]
+    if (!counted) throw new QueryInterpretationError("Name the column whose distinct values should be counted.")
+    measure = counted.column.name
+    groupBy = categorical.find((mention) => mention !== counted && GROUP_PREFIX.test(remaining.slice(0, mention.index)))
+      ?.column.name ?? null
+  } else if (aggregation === "count" && measure && !/\bcount\b/.test(remaining)) {
+    // "How many units" asks for the total of a numeric column, not how many rows have one.
+    aggregation = "sum"
+  } else if ((aggregation === "min" || aggregation === "max") && groupBy && /\b(?:which|what)\b/.test(remaining)) {
+    // "Which region has the max units" picks a group by its total rather than taking a per-group maximum.
+    aggregation = "sum"
+  }
+  if (aggregation === "count") measure = null
+  else if (!measure && aggregation !== "distinct" && compared.length === 1) {
+    // "Units over 4 by region" names its measure only inside the condition.
+    measure = compared[0]
+  }
+
+  if (!aggregation) {
+    if (measure && !groupBy && (highest || lowest)) aggregation = highest ? "max" : "min"
+    else aggregation = measure ? "sum" : "count"
+  }
+  if (aggregation !== "count" && aggregation !== "distinct" && !measure) {
+    const columns = schema.filter((column) => isNumericType(column.type)).map((column) => column.name)
+    throw new QueryInterpretationError(
+      columns.length
+        ? `Name a numeric column to ${AGGREGATION_LABELS[aggregation].toLowerCase()}, such as ${columns.slice(0, 3).join(", ")}.`
+        : "This dataset has no numeric columns to aggregate.",
+    )
+  }
+  if (aggregation === "count" && !measure && !groupBy && !conditions.length && !/\b(?:rows?|records?|entries)\b/.test(remaining)) {
+    const examples = schema.slice(0, 3).map((column) => column.name)
+    throw new QueryInterpretationError(
+      `Could not relate the question to the data. Mention a column${examples.length ? ` such as ${examples.join(", ")}` : ""}.`,
+    )
+  }
+
+  const superlative = Boolean(groupBy) && (highest || lowest)
+  const sort = lowest && !highest ? "asc" : "desc"
+  const limit = !groupBy ? null : limitMatch ? Math.max(1, Number(limitMatch[1])) : superlative ? 1 : null
+
+  return {
+    aggregation,
+    measure,
+    groupBy,
+    filter: conditions.length ? conditions.join(" and ") : null,
+    sort: /\bbottom\b/.test(remaining) ? "asc" : sort,
+    limit,
+  }
+}
+
+/** What the computed value is, e.g. "average units"; a sum of a column already called "total" is just "total". */
+function valuePhrase(query: DataQuery): string {
+  if (!query.measure) return "row count"
+  if (query.aggregation === "distinct") return `distinct ${query.measure} values`
+  if (query.aggregation === "sum" && /\btotal\b/i.test(query.measure)) return query.measure
+  return `${AGGREGATION_LABELS[query.aggregation].toLowerCase()} ${query.measure}`
+}
+
+export function describeQuery(query: DataQuery): string {
+  const parts = [query.measure ? `${AGGREGATION_LABELS[query.aggregation]} of ${query.measure}` : "Count of rows"]
+  if (query.groupBy) parts.push(`by ${query.groupBy}`)
+  if (query.filter) parts.push(`where ${query.filter}`)
+  let description = parts.join(" ")
+  if (query.groupBy) description += `, ${query.sort === "desc" ? "highest" : "lowest"} first`
+  if (query.limit) description += `, keeping ${query.limit}`
+  return description
+}
+
+/**
+ * Answer a question from the records themselves: interpret it, filter,
+ * group and aggregate, and phrase the result. Throws
+ * `QueryInterpretationError` when the question cannot be mapped.
+ */
+export function answerQuestion(
+  records: Record<string, CellValue>[],
+  question: string,
+  options: { locale?: NumberLocale } = {},
+): QueryAnswer {
+  const { locale = DEFAULT_NUMBER_LOCALE } = options
+  const query = interpretQuestion(question, records, { locale })
+  const matched = query.filter ? filterRecords(records, query.filter) : records
+  const phrase = valuePhrase(query)
+  const label = phrase.charAt(0).toUpperCase() + phrase.slice(1)
+  const format = (value: number) => formatNumber(value, locale)
+  const base = { question: question.trim(), query, interpretation: describeQuery(query), matchedRows: matched.length }
+
+  if (!matched.length) {
+    return {
+      ...base,
+      answer: `No rows match ${query.filter}.`,
+      table: { columns: query.groupBy ? [query.groupBy, label] : [label], rows: [] },
+    }
+  }
+
+  if (!query.groupBy) {
+    const value = query.measure
+      ? round(aggregate(matched.map((record) => record[query.measure!]), query.aggregation))
+      : matched.length
+    const scope = query.filter ? ` across ${format(matched.length)} matching rows` : ""
+    return {
+      ...base,
+      answer: query.measure
+        ? query.aggregation === "distinct"
+          ? `There are ${format(value)} ${phrase}${scope}.`
+          : `The ${phrase} is ${format(value)}${scope}.`
+        : `${format(value)} row${value === 1 ? "" : "s"} ${query.filter ? "match" : "in total"}.`,
+      table: { columns: [label], rows: [[value]] },
+    }
+  }
+
+  const grouped = groupRecords(
+    matched,
+    [query.groupBy],
+    query.measure ? [{ column: query.measure, aggregation: query.aggregation }] : [],
+    { sort: query.sort },
+  ).map((row) => ({ label: row.label, value: query.measure ? row.values[0] : row.rowCount }))
+  if (!query.measure) grouped.sort((a, b) => (query.sort === "asc" ? a.value - b.value : b.value - a.value))
+  const kept = query.limit ? grouped.slice(0, query.limit) : grouped
+  const table = { columns: [query.groupBy, label], rows: kept.map((row) => [row.label, row.value]) }
+
+  if (query.limit === 1) {
+    const [top] = kept
+    const direction = query.sort === "desc" ? "highest" : "lowest"
+    return {
+      ...base,
+      answer: `${top.label} had the ${direction} ${phrase} (${format(top.value)}).`,
+      table,
+    }
+  }
+
+  const listed = kept
+    .slice(0, MAX_LISTED_GROUPS)
+    .map((row) => `${row.label} (${format(row.value)})`)
+    .join(", ")
+  const more = kept.length > MAX_LISTED_GROUPS ? `, and ${kept.length - MAX_LISTED_GROUPS} more` : ""
+  const heading = query.limit
+    ? `${query.sort === "desc" ? "Top" : "Bottom"} ${kept.length} ${query.groupBy} by ${phrase}`
+    : `${label} by ${query.groupBy}`
+  return { ...base, answer: `${heading}: ${listed}${more}.`, table }
+}
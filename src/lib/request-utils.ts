@@ -112,6 +112,31 @@ export async function fetchWithTimeout(
   throw lastError || new Error("Request failed")
 }
 
+/**
+ * Read a newline-delimited JSON response body one parsed line at a time, as
+ * each chunk arrives. Blank lines are skipped.
+ */
+export async function* readJsonLines<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ""
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffered += decoder.decode(value, { stream: !done })
+      const lines = buffered.split("\n")
+      buffered = done ? "" : lines.pop() ?? ""
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T
+      }
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
 /**
  * Debounce function for API calls
  */
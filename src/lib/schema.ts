@@ -0,0 +1,269 @@
+import { parseNumberText } from "./numbers"
+
+export type CellValue = string | number | boolean | null | undefined
+
+export type ColumnType =
+  | "date"
+  | "datetime"
+  | "boolean"
+  | "integer"
+  | "decimal"
+  | "currency"
+  | "percentage"
+  | "category"
+  | "text"
+  | "identifier"
+
+export type ColumnRole = "measure" | "dimension" | "time" | "identifier" | "attribute"
+
+export interface ColumnSchema {
+  name: string
+  type: ColumnType
+  role: ColumnRole
+  confidence: number
+  missing: number
+  distinct: number
+}
+
+type ValueKind = "date" | "datetime" | "boolean" | "integer" | "decimal" | "currency" | "percentage" | "string"
+
+const NUMERIC_TYPES: ColumnType[] = ["integer", "decimal", "currency", "percentage"]
+
+// A Map, so cells such as "constructor" are not found on Object.prototype.
+const BOOLEAN_TOKENS = new Map<string, boolean>([
+  ["true", true],
+  ["false", false],
+  ["yes", true],
+  ["no", false],
+  ["y", true],
+  ["n", false],
+])
+
+const ISO_DATE = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/
+const ISO_DATETIME = /^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+const IDENTIFIER_NAME = /(^id$|_id$|[a-z]Id$|^uuid$|^guid$|^sku$|_sku$|^code$|_code$|_key$)/
+const IDENTIFIER_VALUE = /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[A-Za-z]{1,6}[-_]?\d{3,})$/i
+
+function isEmpty(value: CellValue): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "")
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+/**
+ * Parse ISO (`2024-03-01`, `2024-03-01T10:00:00Z`) and US (`03/01/2024`) dates.
+ * Returns null for anything else so free text never becomes a date by accident.
+ */
+export function parseDateValue(value: CellValue): Date | null {
+  if (typeof value !== "string") return null
+  const text = value.trim()
+
+  const datetime = text.match(ISO_DATETIME)
+  if (datetime) {
+    const [, year, month, day] = datetime
+    if (!isValidDate(Number(year), Number(month), Number(day))) return null
+    const parsed = new Date(datetime[7] ? text.replace(" ", "T") : `${text.replace(" ", "T")}Z`)
+    return Number.isNaN(parsed.getTime()) ? null : parsed
+  }
+
+  const iso = text.match(ISO_DATE)
+  if (iso) {
+    const [, year, month, day] = iso.map(Number)
+    return isValidDate(year, month, day) ? new Date(Date.UTC(year, month - 1, day)) : null
+  }
+
+  const us = text.match(US_DATE)
+  if (us) {
+    const [, month, day, year] = us.map(Number)
+    return isValidDate(year, month, day) ? new Date(Date.UTC(year, month - 1, day)) : null
+  }
+
+  return null
+}
+
+export function parseBooleanValue(value: CellValue): boolean | null {
+  if (typeof value === "boolean") return value
+  if (typeof value !== "string") return null
+  const token = value.trim().toLowerCase()
+  return BOOLEAN_TOKENS.get(token) ?? null
+}
+
+function classifyValue(value: CellValue): ValueKind {
+  if (typeof value === "boolean") return "boolean"
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return "string"
+    return Number.isInteger(value) ? "integer" : "decimal"
+  }
+
+  const text = String(value).trim()
+  if (parseBooleanValue(text) !== null) return "boolean"
+  const number = parseNumberText(text)
+  if (number) return number.kind
+  if (ISO_DATETIME.test(text)) return parseDateValue(text) ? "datetime" : "string"
+  if (ISO_DATE.test(text) || US_DATE.test(text)) return parseDateValue(text) ? "date" : "string"
+  return "string"
+}
+
+function compatibleKinds(type: ColumnType): ValueKind[] {
+  switch (type) {
+    case "decimal":
+      return ["decimal", "integer"]
+    case "currency":
+    case "percentage":
+      return [type, "decimal", "integer"]
+    case "datetime":
+      return ["datetime", "date"]
+    case "integer":
+    case "date":
+    case "boolean":
+      return [type]
+    default:
+      return ["string"]
+  }
+}
+
+function pickNumericOrTemporalType(counts: Record<ValueKind, number>, total: number): ColumnType | null {
+  const numeric = counts.integer + counts.decimal + counts.currency + counts.percentage
+  const temporal = counts.date + counts.datetime
+
+  if (counts.boolean / total >= 0.8) return "boolean"
+
+  if (temporal / total >= 0.8) {
+    return counts.datetime > 0 ? "datetime" : "date"
+  }
+
+  if (numeric / total >= 0.8) {
+    if (counts.percentage >= counts.currency && counts.percentage / total >= 0.5) return "percentage"
+    if (counts.currency / total >= 0.5) return "currency"
+    if (counts.decimal > 0) return "decimal"
+    return "integer"
+  }
+
+  return null
+}
+
+function hasIdentifierName(name: string): boolean {
+  const trimmed = name.trim()
+  return IDENTIFIER_NAME.test(trimmed) || IDENTIFIER_NAME.test(trimmed.toLowerCase())
+}
+
+function looksLikeIdentifier(name: string, values: string[], distinct: number): boolean {
+  if (hasIdentifierName(name)) {
+    return distinct >= Math.max(2, values.length * 0.9)
+  }
+  if (values.length < 5 || distinct !== values.length) return false
+  const patterned = values.filter((value) => IDENTIFIER_VALUE.test(value.trim())).length
+  return patterned / values.length >= 0.9
+}
+
+function pickStringType(values: string[], distinct: number): ColumnType {
+  const averageLength = values.reduce((sum, value) => sum + value.length, 0) / (values.length || 1)
+  const withSpaces = values.filter((value) => /\s/.test(value.trim())).length
+
+  if (averageLength > 40) return "text"
+  if (values.length >= 20 && distinct / values.length > 0.9 && withSpaces / values.length > 0.5) return "text"
+  return "category"
+}
+
+function roleFor(type: ColumnType): ColumnRole {
+  if (NUMERIC_TYPES.includes(type)) return "measure"
+  if (type === "date" || type === "datetime") return "time"
+  if (type === "identifier") return "identifier"
+  if (type === "category" || type === "boolean") return "dimension"
+  return "attribute"
+}
+
+export function isNumericType(type: ColumnType): boolean {
+  return NUMERIC_TYPES.includes(type)
+}
+
+/**
+ * Whether a non-empty cell reads as the given column type. Category, text and
+ * identifier columns accept anything.
+ */
+export function matchesColumnType(value: CellValue, type: ColumnType): boolean {
+  if (type === "identifier" || type === "category" || type === "text") return true
+  return compatibleKinds(type).includes(classifyValue(value))
+}
+
+/**
+ * Infer the type of a single column from its values. The confidence is the
+ * share of non-empty values that agree with the chosen type.
+ */
+export function inferColumn(name: string, values: CellValue[]): ColumnSchema {
+  const present = values.filter((value) => !isEmpty(value))
+  const missing = values.length - present.length
+  const distinct = new Set(present.map((value) => String(value).trim())).size
+
+  if (!present.length) {
+    return { name, type: "text", role: "attribute", confidence: 0, missing, distinct: 0 }
+  }
+
+  const counts: Record<ValueKind, number> = {
+    date: 0,
+    datetime: 0,
+    boolean: 0,
+    integer: 0,
+    decimal: 0,
+    currency: 0,
+    percentage: 0,
+    string: 0,
+  }
+  const kinds = present.map(classifyValue)
+  kinds.forEach((kind) => {
+    counts[kind] += 1
+  })
+
+  const strings = present.map((value) => String(value))
+  let type = pickNumericOrTemporalType(counts, present.length)
+
+  if (type === "integer" && hasIdentifierName(name) && looksLikeIdentifier(name, strings, distinct)) {
+    type = "identifier"
+  }
+
+  if (!type) {
+    type = looksLikeIdentifier(name, strings, distinct) ? "identifier" : pickStringType(strings, distinct)
+  }
+
+  let matching = present.length
+  if (type !== "identifier" && type !== "category" && type !== "text") {
+    const accepted = compatibleKinds(type)
+    matching = kinds.filter((kind) => accepted.includes(kind)).length
+  } else if (type === "identifier") {
+    matching = distinct
+  }
+
+  return {
+    name,
+    type,
+    role: roleFor(type),
+    confidence: Number((matching / present.length).toFixed(2)),
+    missing,
+    distinct,
+  }
+}
+
+/**
+ * Infer a schema for every column that appears in at least one record, in
+ * first-seen order.
+ */
+export function inferSchema(records: Record<string, CellValue>[]): ColumnSchema[] {
+  const columns: string[] = []
+  const seen = new Set<string>()
+
+  records.forEach((record) => {
+    Object.keys(record).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key)
+        columns.push(key)
+      }
+    })
+  })
+
+  return columns.map((column) => inferColumn(column, records.map((record) => record[column])))
+}
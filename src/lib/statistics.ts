@@ -0,0 +1,179 @@
+import { median } from "./aggregate"
+import { toNumber } from "./numbers"
+import { CellValue, ColumnSchema, ColumnType } from "./schema"
+
+export interface HistogramBin {
+  start: number
+  end: number
+  count: number
+}
+
+export interface NumericProfile {
+  kind: "numeric"
+  column: string
+  type: ColumnType
+  count: number
+  missing: number
+  min: number
+  max: number
+  mean: number
+  median: number
+  stdDev: number
+  percentiles: { p5: number; p25: number; p50: number; p75: number; p95: number }
+  histogram: HistogramBin[]
+}
+
+export interface CategoricalProfile {
+  kind: "categorical"
+  column: string
+  type: ColumnType
+  count: number
+  missing: number
+  cardinality: number
+  topValues: { value: string; count: number; share: number }[]
+}
+
+export type ColumnProfile = NumericProfile | CategoricalProfile
+
+const MAX_BINS = 30
+const TOP_VALUES = 5
+
+function round(value: number): number {
+  return Number(value.toFixed(4))
+}
+
+export function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+/**
+ * Sample standard deviation (n - 1 denominator); zero for fewer than two values.
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1)
+  return Math.sqrt(variance)
+}
+
+/**
+ * Linear-interpolated quantile of an ascending array, `q` in [0, 1].
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (!sorted.length) return 0
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+function niceStep(raw: number): number {
+  const exponent = Math.floor(Math.log10(raw))
+  const fraction = raw / 10 ** exponent
+  const nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 2.5 ? 2.5 : fraction <= 5 ? 5 : 10
+  return nice * 10 ** exponent
+}
+
+/**
+ * Bin width from the Freedman–Diaconis rule, falling back to Sturges when the
+ * interquartile range is zero, rounded to a 1/2/2.5/5 step so edges read well.
+ */
+export function histogram(sorted: number[]): HistogramBin[] {
+  if (!sorted.length) return []
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+  if (min === max) return [{ start: min, end: max, count: sorted.length }]
+
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25)
+  const span = max - min
+  const sturgesBins = Math.ceil(Math.log2(sorted.length)) + 1
+  const rawWidth = iqr > 0 ? (2 * iqr) / Math.cbrt(sorted.length) : span / sturgesBins
+  let width = niceStep(Math.max(rawWidth, span / MAX_BINS))
+  while (Math.ceil(span / width) > MAX_BINS) {
+    width = niceStep(width * 1.5)
+  }
+
+  const start = Math.floor(min / width) * width
+  const binCount = Math.max(1, Math.floor((max - start) / width) + 1)
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    start: round(start + index * width),
+    end: round(start + (index + 1) * width),
+    count: 0,
+  }))
+
+  sorted.forEach((value) => {
+    const index = Math.min(binCount - 1, Math.floor((value - start) / width))
+    bins[index].count += 1
+  })
+
+  return bins
+}
+
+export function profileNumeric(column: ColumnSchema, cells: CellValue[]): NumericProfile {
+  const values = cells.map((cell) => toNumber(cell)).filter((value): value is number => value !== null)
+  const sorted = [...values].sort((a, b) => a - b)
+
+  return {
+    kind: "numeric",
+    column: column.name,
+    type: column.type,
+    count: values.length,
+    missing: cells.length - values.length,
+    min: sorted.length ? sorted[0] : 0,
+    max: sorted.length ? sorted[sorted.length - 1] : 0,
+    mean: round(mean(values)),
+    median: round(median(sorted)),
+    stdDev: round(standardDeviation(values)),
+    percentiles: {
+      p5: round(quantile(sorted, 0.05)),
+      p25: round(quantile(sorted, 0.25)),
+      p50: round(quantile(sorted, 0.5)),
+      p75: round(quantile(sorted, 0.75)),
+      p95: round(quantile(sorted, 0.95)),
+    },
+    histogram: histogram(sorted),
+  }
+}
+
+export function profileCategorical(column: ColumnSchema, cells: CellValue[]): CategoricalProfile {
+  const frequencies = new Map<string, number>()
+  let missing = 0
+
+  cells.forEach((cell) => {
+    const value = cell === null || cell === undefined ? "" : String(cell).trim()
+    if (!value) {
+      missing += 1
+      return
+    }
+    frequencies.set(value, (frequencies.get(value) ?? 0) + 1)
+  })
+
+  const count = cells.length - missing
+  const topValues = Array.from(frequencies.entries())
+    .sort(([valueA, countA], [valueB, countB]) => countB - countA || valueA.localeCompare(valueB))
+    .slice(0, TOP_VALUES)
+    .map(([value, frequency]) => ({ value, count: frequency, share: count ? round(frequency / count) : 0 }))
+
+  return {
+    kind: "categorical",
+    column: column.name,
+    type: column.type,
+    count,
+    missing,
+    cardinality: frequencies.size,
+    topValues,
+  }
+}
+
+/**
+ * Profile every measure numerically and every dimension, identifier and text
+ * column by frequency. Time columns are summarized by the time series instead.
+ */
+export function profileColumns(records: Record<string, CellValue>[], schema: ColumnSchema[]): ColumnProfile[] {
+  return schema
+    .filter((column) => column.role !== "time")
+    .map((column) => {
+      const cells = records.map((record) => record[column.name])
+      return column.role === "measure" ? profileNumeric(column, cells) : profileCategorical(column, cells)
+    })
+}
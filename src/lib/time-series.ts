@@ -0,0 +1,204 @@
+import { toNumber } from "./numbers"
+import { CellValue, parseDateValue } from "./schema"
+
+export type PeriodGranularity = "day" | "week" | "month" | "quarter" | "year"
+
+export const PERIOD_GRANULARITIES: PeriodGranularity[] = ["day", "week", "month", "quarter", "year"]
+
+export interface TimeSeriesPoint {
+  period: string
+  start: string
+  count: number
+  values: Record<string, number>
+}
+
+export interface PeriodChange {
+  measure: string
+  period: string
+  comparedTo: string
+  current: number
+  previous: number
+  delta: number
+  percent: number | null
+}
+
+export interface TimeSeriesResult {
+  timeColumn: string
+  granularity: PeriodGranularity
+  measures: string[]
+  points: TimeSeriesPoint[]
+  periodOverPeriod: PeriodChange[]
+  yearOverYear: PeriodChange[]
+  skippedRows: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0")
+}
+
+function isoDay(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+function isoWeek(date: Date): { year: number; week: number } {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7))
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1)
+  const week = 1 + Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7)
+  return { year: thursday.getUTCFullYear(), week }
+}
+
+/**
+ * Truncate a date to the start of its period and return a sortable label
+ * (`2024-03-01`, `2024-W09`, `2024-03`, `2024-Q1`, `2024`).
+ */
+export function bucketDate(date: Date, granularity: PeriodGranularity): { period: string; start: Date } {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+
+  switch (granularity) {
+    case "day": {
+      const start = new Date(Date.UTC(year, month, date.getUTCDate()))
+      return { period: isoDay(start), start }
+    }
+    case "week": {
+      const start = new Date(Date.UTC(year, month, date.getUTCDate() - ((date.getUTCDay() + 6) % 7)))
+      const { year: weekYear, week } = isoWeek(date)
+      return { period: `${weekYear}-W${pad(week)}`, start }
+    }
+    case "month":
+      return { period: `${year}-${pad(month + 1)}`, start: new Date(Date.UTC(year, month, 1)) }
+    case "quarter": {
+      const quarter = Math.floor(month / 3)
+      return { period: `${year}-Q${quarter + 1}`, start: new Date(Date.UTC(year, quarter * 3, 1)) }
+    }
+    case "year":
+      return { period: String(year), start: new Date(Date.UTC(year, 0, 1)) }
+  }
+}
+
+export function nextPeriodStart(start: Date, granularity: PeriodGranularity): Date {
+  const next = new Date(start.getTime())
+  switch (granularity) {
+    case "day":
+      next.setUTCDate(next.getUTCDate() + 1)
+      break
+    case "week":
+      next.setUTCDate(next.getUTCDate() + 7)
+      break
+    case "month":
+      next.setUTCMonth(next.getUTCMonth() + 1)
+      break
+    case "quarter":
+      next.setUTCMonth(next.getUTCMonth() + 3)
+      break
+    case "year":
+      next.setUTCFullYear(next.getUTCFullYear() + 1)
+      break
+  }
+  return next
+}
+
+/**
+ * Pick a bucket size that keeps the series readable for the observed span.
+ */
+export function chooseGranularity(first: Date, last: Date): PeriodGranularity {
+  const spanDays = Math.abs(last.getTime() - first.getTime()) / DAY_MS
+  if (spanDays <= 31) return "day"
+  if (spanDays <= 183) return "week"
+  if (spanDays <= 3 * 366) return "month"
+  if (spanDays <= 10 * 366) return "quarter"
+  return "year"
+}
+
+function compare(measure: string, current: TimeSeriesPoint, previous: TimeSeriesPoint): PeriodChange {
+  const currentValue = current.values[measure] ?? 0
+  const previousValue = previous.values[measure] ?? 0
+  const delta = currentValue - previousValue
+  return {
+    measure,
+    period: current.period,
+    comparedTo: previous.period,
+    current: Number(currentValue.toFixed(2)),
+    previous: Number(previousValue.toFixed(2)),
+    delta: Number(delta.toFixed(2)),
+    percent: previousValue === 0 ? null : Number(((delta / Math.abs(previousValue)) * 100).toFixed(2)),
+  }
+}
+
+/**
+ * Bucket records by their time column and total every measure per period.
+ * Empty periods between the first and last observation are filled with zeros
+ * so period-over-period comparisons always look at adjacent periods.
+ */
+export function buildTimeSeries(
+  records: Record<string, CellValue>[],
+  timeColumn: string,
+  measures: string[],
+  granularity?: PeriodGranularity,
+): TimeSeriesResult | null {
+  const dated: { date: Date; record: Record<string, CellValue> }[] = []
+  let skippedRows = 0
+
+  records.forEach((record) => {
+    const date = parseDateValue(record[timeColumn])
+    if (date) {
+      dated.push({ date, record })
+    } else {
+      skippedRows += 1
+    }
+  })
+
+  if (!dated.length) return null
+
+  const first = dated.reduce((min, { date }) => (date < min ? date : min), dated[0].date)
+  const last = dated.reduce((max, { date }) => (date > max ? date : max), dated[0].date)
+  const resolved = granularity ?? chooseGranularity(first, last)
+
+  const buckets = new Map<string, TimeSeriesPoint>()
+  for (let start = bucketDate(first, resolved).start; start.getTime() <= last.getTime(); start = nextPeriodStart(start, resolved)) {
+    const { period } = bucketDate(start, resolved)
+    buckets.set(period, {
+      period,
+      start: isoDay(start),
+      count: 0,
+      values: Object.fromEntries(measures.map((measure) => [measure, 0])),
+    })
+  }
+
+  dated.forEach(({ date, record }) => {
+    const point = buckets.get(bucketDate(date, resolved).period)
+    if (!point) return
+    point.count += 1
+    measures.forEach((measure) => {
+      point.values[measure] += toNumber(record[measure]) ?? 0
+    })
+  })
+
+  const points = Array.from(buckets.values())
+  points.forEach((point) => {
+    measures.forEach((measure) => {
+      point.values[measure] = Number(point.values[measure].toFixed(2))
+    })
+  })
+
+  const latest = points[points.length - 1]
+  const periodOverPeriod = points.length > 1 ? measures.map((measure) => compare(measure, latest, points[points.length - 2])) : []
+
+  const lastStart = new Date(`${latest.start}T00:00:00Z`)
+  const yearAgo = new Date(Date.UTC(lastStart.getUTCFullYear() - 1, lastStart.getUTCMonth(), lastStart.getUTCDate()))
+  const yearAgoPoint = resolved === "year" ? undefined : buckets.get(bucketDate(yearAgo, resolved).period)
+  const yearOverYear = yearAgoPoint ? measures.map((measure) => compare(measure, latest, yearAgoPoint)) : []
+
+  return {
+    timeColumn,
+    granularity: resolved,
+    measures,
+    points,
+    periodOverPeriod,
+    yearOverYear,
+    skippedRows,
+  }
+}
@@ -1,81 +1,60 @@
-import { analyzeRecords, parseCsv } from "../lib/analysis"
-import type { MockHandler } from "../lib/mock-service"
+import {
+  AnalysisRequest,
+  AnalysisRequestError,
+  buildLongResponse,
+  parseContent,
+  runAnalysis,
+  runQuery,
+  validateAnalysisRequest,
+} from "../lib/analysis-request"
+import { chatTools, ToolCall } from "../lib/chat-tools"
+import type { MockHandler, MockStreamChunk } from "../lib/mock-service"
 
 const USERNAME = "agent"
 const PASSWORD = "openai123"
 
-const weatherSnapshots: Record<string, { summary: string; temperature: number; humidity: number }> = {
-  "san francisco": {
-    summary: "Foggy morning clearing to sun in the afternoon.",
-    temperature: 68,
-    humidity: 72,
-  },
-  seattle: {
-    summary: "Light rain with intermittent clear pockets.",
-    temperature: 58,
-    humidity: 80,
-  },
-  london: {
-    summary: "Overcast with a brief drizzle expected after lunch.",
-    temperature: 61,
-    humidity: 77,
-  },
-}
-
 let dailyChatRequests = 0
 let dailyAnalysisRequests = 0
 
-function formatToolCall(tool: string, content: string) {
-  return `Tool(${tool}) => ${content}`
-}
+const STEP_DELAY_MS = 280
+const TOKEN_DELAY_MS = 30
 
-function buildLongResponse(core: string): string {
-  return [
-    core,
-    "\n\n",
-    "To keep the conversation productive, I chained a creative ideation pass with a pragmatic review stage.",
-    " The creative model outlined possibilities, while the analyst model trimmed them to the essentials.",
-    "\n\n",
-    "If you need to go deeper, ask for a follow-up report and I can expand with additional structured tables or timeline breakdowns.",
-  ].join("")
+interface ChatStep {
+  id: string
+  role: "assistant" | "tool"
+  label: string
+  content: string
+  toolCalls?: ToolCall[]
 }
 
-function simulateCalculator(input: string): string | null {
-  const match = input.match(/(-?\d+(?:\.\d+)?)\s*([+\-*/])\s*(-?\d+(?:\.\d+)?)/)
-  if (!match) return null
-  const [, left, operator, right] = match
-  const a = Number(left)
-  const b = Number(right)
-  let result = 0
-  switch (operator) {
-    case "+":
-      result = a + b
-      break
-    case "-":
-      result = a - b
-      break
-    case "*":
-      result = a * b
-      break
-    case "/":
-      result = b === 0 ? NaN : a / b
-      break
-  }
-  if (!Number.isFinite(result)) {
-    return "Computation failed (divide by zero?)."
-  }
-  return `${a} ${operator} ${b} = ${Number(result.toFixed(2))}`
+function formatToolCall(tool: string, content: string) {
+  return `Tool(${tool}) => ${content}`
 }
 
-function simulateWeatherLookup(message: string) {
-  const locationMatch = message.match(/weather\s+in\s+([a-zA-Z\s]+)/i)
-  if (!locationMatch) return null
-  const locationKey = locationMatch[1].trim().toLowerCase()
-  const snapshot = weatherSnapshots[locationKey]
-  if (!snapshot) {
-    return `No weather data for ${locationMatch[1].trim()}.`
+/** The reply as stream events: each step starts, then fills in word by word or one tool call at a time. */
+function streamChatReply(
+  steps: ChatStep[],
+  usage: { totalTokens: number; model: string; latencyMs: number },
+  firstDelayMs: number,
+): MockStreamChunk[] {
+  const chunks: MockStreamChunk[] = []
+  for (const step of steps) {
+    chunks.push({
+      data: { type: "step-start", id: step.id, role: step.role, label: step.label },
+      delayMs: chunks.length ? STEP_DELAY_MS : firstDelayMs,
+    })
+    if (step.toolCalls) {
+      for (const call of step.toolCalls) {
+        chunks.push({ data: { type: "tool-call", id: step.id, ...call }, delayMs: STEP_DELAY_MS })
+      }
+      continue
+    }
+    for (const delta of step.content.match(/\s+|\S+\s*/g) ?? []) {
+      chunks.push({ data: { type: "token", id: step.id, delta }, delayMs: TOKEN_DELAY_MS })
+    }
   }
-  return `${snapshot.summary} Currently ${snapshot.temperature}°F with humidity at ${snapshot.humidity}%.`
+  chunks.push({ data: { type: "usage", usage } })
+  return chunks
 }
 
 function createChatHandler(): MockHandler {
@@ -91,7 +70,12 @@ function createChatHandler(): MockHandler {
         }
       }
 
-      const payload = await request.json<{ message: string; history: { role: string; content: string }[]; model: string }>()
+      const payload = await request.json<{
+        message: string
+        history: { role: string; content: string }[]
+        model: string
+        stream?: boolean
+      }>()
       const text = payload.message.trim()
 
       if (!text) {
@@ -109,59 +93,56 @@ function createChatHandler(): MockHandler {
       }
 
       const creativeIdea = `Creative take: ${text.replace(/^[a-z]/, (match) => match.toUpperCase())}.`
-      const calculatorOutput = simulateCalculator(text)
-      const weatherOutput = simulateWeatherLookup(text)
-
-      const toolCalls: string[] = []
-      if (calculatorOutput) {
-        toolCalls.push(formatToolCall("calculator", calculatorOutput))
-      }
-      if (weatherOutput) {
-        toolCalls.push(formatToolCall("weather", weatherOutput))
-      }
+      const toolCalls = await chatTools.run(text)
 
       const refineSegments = [
         "Refined answer:",
-        calculatorOutput ? ` Using calculator insights (${calculatorOutput}).` : "",
-        weatherOutput ? ` Included latest weather: ${weatherOutput}` : "",
+        ...toolCalls.map((call) =>
+          call.failed ? ` The ${call.tool} tool could not help: ${call.output}` : ` Using ${call.tool} output (${call.output}).`,
+        ),
         " Final recommendation: stay outcome-driven and capture follow-up actions.",
       ]
 
       const finalReply = buildLongResponse(refineSegments.join(""))
 
+      const steps: ChatStep[] = [
+        {
+          id: `creative-${Date.now()}`,
+          role: "assistant",
+          label: "Creative draft",
+          content: creativeIdea,
+        },
+        ...(toolCalls.length
+          ? [
+              {
+                id: `tool-${Date.now()}`,
+                role: "tool" as const,
+                label: "Tools",
+                content: toolCalls.map((call) => formatToolCall(call.tool, call.output)).join("\n"),
+                toolCalls,
+              },
+            ]
+          : []),
+        {
+          id: `refine-${Date.now()}`,
+          role: "assistant",
+          label: "Refined answer",
+          content: finalReply,
+        },
+      ]
+      const usage = {
+        totalTokens: Math.min(1200, 150 + text.length * 4),
+        model: payload.model,
+        latencyMs: text.length > 40 ? 820 : 420,
+      }
+
+      if (payload.stream) {
+        return { stream: streamChatReply(steps, usage, text.length > 40 ? 850 : 450) }
+      }
+
       return {
         delayMs: text.length > 40 ? 850 : 450,
-        body: {
-          steps: [
-            {
-              id: `creative-${Date.now()}`,
-              role: "assistant",
-              label: "Creative draft",
-              content: creativeIdea,
-            },
-            ...(toolCalls.length
-              ? [
-                  {
-                    id: `tool-${Date.now()}`,
-                    role: "tool",
-                    label: "Tools",
-                    content: toolCalls.join("\n"),
-                  },
-                ]
-              : []),
-            {
-              id: `refine-${Date.now()}`,
-              role: "assistant",
-              label: "Refined answer",
-              content: finalReply,
-            },
-          ],
-          usage: {
-            totalTokens: Math.min(1200, 150 + text.length * 4),
-            model: payload.model,
-            latencyMs: text.length > 40 ? 820 : 420,
-          },
-        },
+        body: { steps, usage },
       }
     },
   }
@@ -207,6 +188,9 @@ function createToolsHandler(): MockHandler {
     method: "GET",
     matcher: "/api/tools",
     resolver() {
+      const chatToolList = chatTools.describe()
+      const names = chatToolList.map((tool) => tool.name)
+      const toolSummary = names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0]
       return {
         delayMs: 300,
         body: {
@@ -214,7 +198,7 @@ function createToolsHandler(): MockHandler {
             {
               id: "chat",
               name: "Conversational AI",
-              description: "Chain-of-thought chat assistant with calculator and weather tools integrated.",
+              description: `Chain-of-thought chat assistant with ${toolSummary} tools integrated.`,
               route: "/tools/chat",
               latency: "~450ms",
               status: "ready",
@@ -228,6 +212,7 @@ function createToolsHandler(): MockHandler {
               status: "ready",
             },
           ],
+          chatTools: chatToolList,
         },
       }
     },
@@ -240,7 +225,7 @@ function createAnalysisHandler(): MockHandler {
     matcher: "/api/analysis",
     async resolver(request) {
       dailyAnalysisRequests += 1
-      const payload = await request.json<{ content: string; fileType: "csv" | "json"; model: string }>()
+      const payload = await request.json<AnalysisRequest & { content: string; model: string }>()
 
       if (!payload.content) {
         return {
@@ -256,30 +241,77 @@ function createAnalysisHandler(): MockHandler {
         }
       }
 
-      let records
-      if (payload.fileType === "json") {
-        try {
-          const parsed = JSON.parse(payload.content)
-          records = Array.isArray(parsed) ? parsed : []
-        } catch {
+      const invalid = validateAnalysisRequest(payload)
+      if (invalid) {
+        return {
+          status: 400,
+          body: { message: invalid },
+        }
+      }
+
+      let output
+      try {
+        output = runAnalysis(parseContent(payload.content, payload), payload)
+      } catch (error) {
+        if (error instanceof AnalysisRequestError) {
           return {
             status: 400,
-            body: { message: "Invalid JSON." },
+            body: { message: error.message, column: error.column, position: error.position },
           }
         }
-      } else {
-        records = parseCsv(payload.content)
+        throw error
       }
 
-      const result = analyzeRecords(records)
-
       return {
         delayMs: 750,
-        body: {
-          result,
-          model: payload.model,
-          largeNarrative: buildLongResponse(result.summary),
-        },
+        body: { ...output, model: payload.model },
+      }
+    },
+  }
+}
+
+function createAnalysisQueryHandler(): MockHandler {
+  return {
+    method: "POST",
+    matcher: "/api/analysis/query",
+    async resolver(request) {
+      const payload = await request.json<AnalysisRequest & { content: string; question: string }>()
+
+      if (!payload.content) {
+        return {
+          status: 400,
+          body: { message: "No content detected." },
+        }
+      }
+
+      if (!payload.question?.trim()) {
+        return {
+          status: 400,
+          body: { message: "Ask a question about the data." },
+        }
+      }
+
+      const invalid = validateAnalysisRequest(payload)
+      if (invalid) {
+        return {
+          status: 400,
+          body: { message: invalid },
+        }
+      }
+
+      try {
+        return {
+          delayMs: 400,
+          body: runQuery(parseContent(payload.content, payload), payload, payload.question),
+        }
+      } catch (error) {
+        if (error instanceof AnalysisRequestError) {
+          return {
+            status: 400,
+            body: { message: error.message, column: error.column, position: error.position },
+          }
+        }
+        throw error
       }
     },
   }
@@ -290,4 +322,5 @@ export const handlers: MockHandler[] = [
   createChatHandler(),
   createToolsHandler(),
   createAnalysisHandler(),
+  createAnalysisQueryHandler(),
 ]
@@ -0,0 +1,36 @@
+import { create } from "zustand"
+import { persist, createJSONStorage } from "zustand/middleware"
+
+export type TrendChartType = "bars" | "column" | "line" | "area" | "donut" | "scatter" | "stacked"
+
+export const TREND_CHART_TYPES: TrendChartType[] = ["bars", "column", "line", "area", "donut", "scatter", "stacked"]
+
+export const TREND_CHART_LABELS: Record<TrendChartType, string> = {
+  bars: "Bars",
+  column: "Columns",
+  line: "Line",
+  area: "Area",
+  donut: "Donut",
+  scatter: "Scatter",
+  stacked: "Stacked bars",
+}
+
+interface ChartPreferencesState {
+  trendChart: TrendChartType
+  setTrendChart: (type: TrendChartType) => void
+}
+
+export const useChartPreferencesStore = create<ChartPreferencesState>()(
+  persist(
+    (set) => ({
+      trendChart: "bars",
+      setTrendChart(type) {
+        set({ trendChart: type })
+      },
+    }),
+    {
+      name: "ai-agent-chart-preferences",
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+)
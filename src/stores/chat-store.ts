@@ -0,0 +1,182 @@
+import { create } from "zustand"
+import { persist, createJSONStorage } from "zustand/middleware"
+import { conversationTitle, DEFAULT_CONVERSATION_TITLE } from "@/lib/conversations"
+import { createIndexedDbStorage } from "@/lib/indexed-db-storage"
+import type { ChatMessage, ChatUsage } from "@/features/chat/types"
+
+export interface Conversation {
+  id: string
+  title: string
+  /** False until the user renames it; until then the first user message sets the title. */
+  customTitle: boolean
+  model: string
+  messages: ChatMessage[]
+  pinned: boolean
+  createdAt: number
+  updatedAt: number
+  usage: {
+    totalTokens: number
+    replies: number
+  }
+}
+
+interface ChatState {
+  conversations: Conversation[]
+  activeId: string | null
+  /** True once the saved conversations have loaded, or failed to load. */
+  hydrated: boolean
+  createConversation: (model: string) => string
+  selectConversation: (id: string) => void
+  renameConversation: (id: string, title: string) => void
+  togglePinned: (id: string) => void
+  deleteConversation: (id: string) => void
+  setModel: (id: string, model: string) => void
+  addMessage: (id: string, message: ChatMessage) => void
+  updateMessage: (id: string, messageId: string, update: (message: ChatMessage) => Partial<ChatMessage>) => void
+  clearMessages: (id: string) => void
+  recordUsage: (id: string, usage: ChatUsage) => void
+}
+
+function updateConversation(
+  conversations: Conversation[],
+  id: string,
+  update: (conversation: Conversation) => Partial<Conversation>,
+  /** Whether the change counts as activity, moving the conversation up the list. */
+  touch = true,
+): Conversation[] {
+  return conversations.map((conversation) =>
+    conversation.id === id
+      ? { ...conversation, ...update(conversation), ...(touch ? { updatedAt: Date.now() } : {}) }
+      : conversation,
+  )
+}
+
+export const useChatStore = create<ChatState>()(
+  persist(
+    (set) => ({
+      conversations: [],
+      activeId: null,
+      hydrated: false,
+      createConversation(model) {
+        const now = Date.now()
+        const id = crypto.randomUUID()
+        set((state) => ({
+          conversations: [
+            {
+              id,
+              title: DEFAULT_CONVERSATION_TITLE,
+              customTitle: false,
+              model,
+              messages: [],
+              pinned: false,
+              createdAt: now,
+              updatedAt: now,
+              usage: { totalTokens: 0, replies: 0 },
+            },
+            ...state.conversations,
+          ],
+          activeId: id,
+        }))
+        return id
+      },
+      selectConversation(id) {
+        set({ activeId: id })
+      },
+      renameConversation(id, title) {
+        const trimmed = title.trim()
+        set((state) => ({
+          conversations: updateConversation(
+            state.conversations,
+            id,
+            () => (trimmed ? { title: trimmed, customTitle: true } : {}),
+            false,
+          ),
+        }))
+      },
+      togglePinned(id) {
+        set((state) => ({
+          conversations: updateConversation(
+            state.conversations,
+            id,
+            (conversation) => ({ pinned: !conversation.pinned }),
+            false,
+          ),
+        }))
+      },
+      deleteConversation(id) {
+        set((state) => {
+          const conversations = state.conversations.filter((conversation) => conversation.id !== id)
+          return {
+            conversations,
+            activeId: state.activeId === id ? (conversations[0]?.id ?? null) : state.activeId,
+          }
+        })
+      },
+      setModel(id, model) {
+        set((state) => ({ conversations: updateConversation(state.conversations, id, () => ({ model }), false) }))
+      },
+      addMessage(id, message) {
+        set((state) => ({
+          conversations: updateConversation(state.conversations, id, (conversation) => {
+            const titled =
+              !conversation.customTitle &&
+              message.role === "user" &&
+              !conversation.messages.some((existing) => existing.role === "user")
+            return {
+              messages: [...conversation.messages, message],
+              ...(titled ? { title: conversationTitle(message.content) } : {}),
+            }
+          }),
+        }))
+      },
+      updateMessage(id, messageId, update) {
+        set((state) => ({
+          conversations: updateConversation(state.conversations, id, (conversation) => ({
+            messages: conversation.messages.map((message) =>
+              message.id === messageId ? { ...message, ...update(message) } : message,
+            ),
+          })),
+        }))
+      },
+      clearMessages(id) {
+        set((state) => ({
+          conversations: updateConversation(state.conversations, id, (conversation) => ({
+            messages: [],
+            title: conversation.customTitle ? conversation.title : DEFAULT_CONVERSATION_TITLE,
+          })),
+        }))
+      },
+      recordUsage(id, usage) {
+        set((state) => ({
+          conversations: updateConversation(state.conversations, id, (conversation) => ({
+            usage: {
+              totalTokens: conversation.usage.totalTokens + usage.totalTokens,
+              replies: conversation.usage.replies + 1,
+            },
+          })),
+        }))
+      },
+    }),
+    {
+      name: "ai-agent-chat",
+      // Conversations outgrow localStorage quickly, so they are kept in IndexedDB.
+      storage: createJSONStorage(() => createIndexedDbStorage("ai-agent-chat")),
+      partialize: ({ conversations, activeId }) => ({ conversations, activeId }),
+      // Loaded by `loadConversations` after mount, so the server and the first client render agree.
+      skipHydration: true,
+      onRehydrateStorage: () => () => {
+        useChatStore.setState({ hydrated: true })
+      },
+    }
+  )
+)
+
+/** Load the saved conversations; `hydrated` turns true once they have loaded, or failed to load. */
+export function loadConversations() {
+  // Without IndexedDB there is nothing to load and `persist` never sets up its API.
+  if (!useChatStore.persist) {
+    useChatStore.setState({ hydrated: true })
+    return
+  }
+  void useChatStore.persist.rehydrate()
+}
@@ -0,0 +1,64 @@
+import { DataRecord } from "../lib/analysis"
+import { AnalysisRequestError, parseBlob, runAnalysisWithRows, validateAnalysisRequest } from "../lib/analysis-request"
+import { summarizeRows } from "../lib/analysis-rows"
+import type { AnalysisWorkerCommand, AnalysisWorkerMessage } from "../lib/analysis-worker"
+import { GridColumn, gridColumns, GridQuery, queryPage, queryRows } from "../lib/data-grid"
+import { normalizeNumbers } from "../lib/numbers"
+
+function post(message: AnalysisWorkerMessage) {
+  self.postMessage(message)
+}
+
+// The analyzed rows stay here; the main thread asks for them a page at a time.
+let analyzed: { records: DataRecord[]; columns: GridColumn[] } | null = null
+// Paging through one sorted or filtered view should not re-sort for every page.
+let lastOrder: { key: string; order: number[] } | null = null
+
+function orderFor(query: GridQuery): number[] {
+  const key = JSON.stringify(query)
+  if (lastOrder?.key !== key) {
+    lastOrder = { key, order: queryRows(analyzed!.records, analyzed!.columns, query) }
+  }
+  return lastOrder.order
+}
+
+self.addEventListener("message", async (event: MessageEvent<AnalysisWorkerCommand>) => {
+  const command = event.data
+
+  try {
+    if (command.type === "page") {
+      if (!analyzed) throw new Error("No analysis has run in this worker.")
+      const { records, columns } = analyzed
+      const { query, offset, limit } = command
+      post({ type: "page", id: command.id, page: queryPage(records, columns, query, offset, limit, orderFor(query)) })
+      return
+    }
+
+    const { content, request, sampleSize } = command
+    const invalid = validateAnalysisRequest(request)
+    if (invalid) throw new AnalysisRequestError(invalid)
+
+    const parsed = await parseBlob(content, request, { onProgress: (progress) => post({ type: "progress", progress }) })
+    post({
+      type: "progress",
+      progress: { phase: "analyzing", bytesRead: content.size, totalBytes: content.size, rowsParsed: parsed.records.length },
+    })
+
+    const { output, records } = runAnalysisWithRows(parsed, request)
+    const { locale } = output.result
+    analyzed = { records, columns: gridColumns(records, output.result.schema) }
+    lastOrder = null
+    post({
+      type: "result",
+      output,
+      sample: normalizeNumbers(parsed.records.slice(0, sampleSize), locale),
+      rows: summarizeRows(records, output.result),
+    })
+  } catch (error) {
+    post(
+      error instanceof AnalysisRequestError
+        ? { type: "error", message: error.message, column: error.column, position: error.position }
+        : { type: "error", message: error instanceof Error ? error.message : "Analysis failed" },
+    )
+  }
+})
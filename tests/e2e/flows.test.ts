@@ -1,6 +1,7 @@
 import { before, describe, it } from "node:test"
 import assert from "node:assert/strict"
 import { initMocks } from "../../src/mocks"
+import { readJsonLines } from "../../src/lib/request-utils"
 
 const SAMPLE_DATA = `region,units,total
 North,10,2500
@@ -39,6 +40,49 @@ describe("end-to-end flow", () => {
     assert.ok(payload.usage.totalTokens > 0)
   })
 
+  it("streams chat steps as newline-delimited events", async () => {
+    const response = await fetch("http://localhost/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message: "calculate 4 + 5", history: [], model: "balanced", stream: true }),
+    })
+    assert.equal(response.status, 200)
+    assert.equal(response.headers.get("Content-Type"), "application/x-ndjson")
+    const events: { type: string; id?: string; delta?: string; tool?: string }[] = []
+    for await (const event of readJsonLines<(typeof events)[number]>(response)) {
+      events.push(event)
+    }
+    assert.deepEqual(
+      Array.from(new Set(events.map((event) => event.type))),
+      ["step-start", "token", "tool-call", "usage"],
+    )
+    assert.equal(events.find((event) => event.type === "tool-call")?.tool, "calculator")
+    const [refine] = events.filter((event) => event.type === "step-start").slice(-1)
+    const reply = events
+      .filter((event) => event.type === "token" && event.id === refine.id)
+      .map((event) => event.delta)
+      .join("")
+    assert.ok(reply.startsWith("Refined answer: Using calculator output (4 + 5 = 9)."))
+  })
+
+  it("stops a streamed reply when the request is aborted", async () => {
+    const controller = new AbortController()
+    const response = await fetch("http://localhost/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message: "plan a team offsite", history: [], model: "balanced", stream: true }),
+      signal: controller.signal,
+    })
+    const received: string[] = []
+    await assert.rejects(async () => {
+      for await (const event of readJsonLines<{ type: string }>(response)) {
+        received.push(event.type)
+        if (event.type === "token") controller.abort()
+      }
+    }, /abort/i)
+    assert.deepEqual(received, ["step-start", "token"])
+  })
+
   it("analyzes uploaded data", async () => {
     const response = await fetch("http://localhost/api/analysis", {
       method: "POST",
@@ -50,4 +94,71 @@ describe("end-to-end flow", () => {
     assert.ok(payload.result.summary.includes("rows"))
     assert.ok(payload.result.kpis.length > 0)
   })
+
+  it("rejects an analysis spec with unknown columns", async () => {
+    const response = await fetch("http://localhost/api/analysis", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        content: SAMPLE_DATA,
+        fileType: "csv",
+        model: "balanced",
+        spec: { groupBy: ["country"] },
+      }),
+    })
+    assert.equal(response.status, 400)
+    const payload = await response.json()
+    assert.ok(payload.message.includes("country"))
+  })
+
+  it("analyzes semicolon separated uploads and reports the delimiter", async () => {
+    const response = await fetch("http://localhost/api/analysis", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: SAMPLE_DATA.replace(/,/g, ";"), fileType: "csv", delimiter: "auto", model: "balanced" }),
+    })
+    assert.equal(response.status, 200)
+    const payload = await response.json()
+    assert.equal(payload.delimiter, ";")
+    assert.deepEqual(payload.result.table.headers, ["region", "units"])
+  })
+
+  it("finds records inside wrapped JSON and validates maxDepth", async () => {
+    const content = JSON.stringify({ data: [{ customer: { region: "North" }, units: 3 }, { customer: { region: "South" }, units: 5 }] })
+    const post = (body: Record<string, unknown>) =>
+      fetch("http://localhost/api/analysis", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content, fileType: "json", model: "balanced", ...body }),
+      })
+
+    const response = await post({ maxDepth: 2 })
+    assert.equal(response.status, 200)
+    const payload = await response.json()
+    assert.equal(payload.recordPath, "data")
+    assert.ok(payload.result.table.headers.includes("customer.region"))
+
+    const invalid = await post({ maxDepth: 0 })
+    assert.equal(invalid.status, 400)
+  })
+
+  it("applies row filters and rejects malformed ones", async () => {
+    const post = (filter: string) =>
+      fetch("http://localhost/api/analysis", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: SAMPLE_DATA, fileType: "csv", model: "balanced", filter }),
+      })
+
+    const response = await post("region = North")
+    assert.equal(response.status, 200)
+    const payload = await response.json()
+    assert.equal(payload.result.filter.matched, 1)
+
+    const invalid = await post("units >")
+    assert.equal(invalid.status, 400)
+    const error = await invalid.json()
+    assert.match(error.message, /^Invalid filter:/)
+    assert.equal(error.position, 7)
+  })
 })
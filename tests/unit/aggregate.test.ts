@@ -0,0 +1,42 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { aggregate, groupRecords } from "../../src/lib/aggregate"
+
+const RECORDS = [
+  { region: "North", rep: "Jamie", units: "10" },
+  { region: "South", rep: "Casey", units: "5" },
+  { region: "North", rep: "Jamie", units: "8" },
+  { region: "West", rep: "Harper", units: "3" },
+  { region: "East", rep: "River", units: "1" },
+]
+
+describe("aggregation", () => {
+  it("supports every aggregation", () => {
+    const values = ["4", "1", "", "7", "1"]
+    assert.equal(aggregate(values, "sum"), 13)
+    assert.equal(aggregate(values, "avg"), 3.25)
+    assert.equal(aggregate(values, "count"), 4)
+    assert.equal(aggregate(values, "distinct"), 3)
+    assert.equal(aggregate(values, "min"), 1)
+    assert.equal(aggregate(values, "max"), 7)
+    assert.equal(aggregate(values, "median"), 2.5)
+  })
+
+  it("folds groups beyond top N into an Other bucket", () => {
+    const rows = groupRecords(RECORDS, ["region"], [{ column: "units", aggregation: "avg" }], { topN: 2, includeOther: true })
+    assert.deepEqual(
+      rows.map((row) => [row.label, row.values[0], row.rowCount]),
+      [
+        ["North", 9, 2],
+        ["South", 5, 1],
+        ["Other", 2, 2],
+      ],
+    )
+  })
+
+  it("groups by several columns and sorts by label", () => {
+    const rows = groupRecords(RECORDS, ["region", "rep"], [{ column: "units", aggregation: "count" }], { sort: "label" })
+    assert.deepEqual(rows[0].key, ["East", "River"])
+    assert.equal(rows.find((row) => row.label === "North / Jamie")?.values[0], 2)
+  })
+})
@@ -0,0 +1,82 @@
+import { before, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+  AnalysisProgress,
+  AnalysisRequest,
+  AnalysisRequestError,
+  parseBlob,
+  runAnalysis,
+  validateAnalysisRequest,
+} from "../../src/lib/analysis-request"
+import { initMocks } from "../../src/mocks"
+
+const CSV = `date;region;units;total
+2024-01-05;North;10;2500
+2024-02-11;West;5;1800
+2024-03-02;North;7;2100
+2024-04-19;South;3;900
+2024-05-23;West;8;2000`
+
+async function viaHandler(content: string, request: AnalysisRequest) {
+  const response = await fetch("http://localhost/api/analysis", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...request, content, model: "balanced" }),
+  })
+  return { status: response.status, body: await response.json() }
+}
+
+async function viaBlob(content: string, request: AnalysisRequest) {
+  // Stream in small pieces so records straddle chunk boundaries.
+  const chunks = content.match(/[\s\S]{1,7}/g) ?? []
+  const output = runAnalysis(await parseBlob(new Blob(chunks), request), request)
+  return JSON.parse(JSON.stringify({ ...output, model: "balanced" }))
+}
+
+describe("analysis requests", () => {
+  before(() => {
+    initMocks()
+  })
+
+  it("produces the same response as the analysis handler for streamed files", async () => {
+    const requests: [string, AnalysisRequest][] = [
+      [CSV, { fileType: "csv", delimiter: "auto", filter: "units > 4", forecastHorizon: 2 }],
+      [
+        JSON.stringify({ data: [{ customer: { region: "North" }, units: 3 }, { customer: { region: "South" }, units: 5 }] }),
+        { fileType: "json", maxDepth: 2, calculatedColumns: [{ name: "double", formula: "units * 2" }] },
+      ],
+    ]
+    for (const [content, request] of requests) {
+      const handled = await viaHandler(content, request)
+      assert.equal(handled.status, 200)
+      assert.deepEqual(await viaBlob(content, request), handled.body)
+    }
+  })
+
+  it("reports progress by bytes and rows", async () => {
+    const updates: AnalysisProgress[] = []
+    const blob = new Blob([CSV])
+    await parseBlob(blob, { fileType: "csv" }, { onProgress: (progress) => updates.push(progress) })
+    const last = updates[updates.length - 1]
+    assert.deepEqual(last, { phase: "reading", bytesRead: blob.size, totalBytes: blob.size, rowsParsed: 5 })
+  })
+
+  it("raises the handler's validation and error messages", async () => {
+    assert.equal(validateAnalysisRequest({ fileType: "csv", forecastHorizon: 0 }), "forecastHorizon must be a whole number between 1 and 24.")
+    assert.equal(
+      validateAnalysisRequest({ fileType: "csv", calculatedColumns: [{ formula: "units * 2" }] } as unknown as AnalysisRequest),
+      "calculatedColumns must be an array of { name, formula }.",
+    )
+    await assert.rejects(parseBlob(new Blob(["{ nope"]), { fileType: "json" }), /Invalid JSON\./)
+
+    const request: AnalysisRequest = { fileType: "csv", filter: "units >" }
+    const handled = await viaHandler(CSV, request)
+    assert.throws(
+      () => runAnalysis({ records: [{ units: 1 }], warnings: [] }, request),
+      (error: unknown) =>
+        error instanceof AnalysisRequestError &&
+        error.message === handled.body.message &&
+        error.position === handled.body.position,
+    )
+  })
+})
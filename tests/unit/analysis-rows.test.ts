@@ -0,0 +1,49 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { analyzeRecordsWithRows, parseCsv } from "../../src/lib/analysis"
+import { localAnalyzedRows, summarizeRows } from "../../src/lib/analysis-rows"
+
+const CSV = `date,region,units
+2024-01-01,North,10
+2024-01-02,North,11
+2024-01-03,South,9
+2024-01-04,South,10
+2024-01-05,West,12
+2024-01-06,West,11
+2024-01-07,East,10
+2024-01-08,East,120`
+
+describe("analyzed rows", () => {
+  it("returns the filtered rows the result's indices refer to", () => {
+    const { result, records } = analyzeRecordsWithRows(parseCsv(CSV), { filter: "region != South" })
+    assert.equal(records.length, 6)
+    assert.equal(result.filter?.matched, 6)
+    const row = result.anomalies.find((anomaly) => anomaly.scope === "row")
+    assert.equal(records[row!.rowIndices[0]].units, "120")
+  })
+
+  it("keeps only flagged rows and a preview for the main thread", () => {
+    const { result, records } = analyzeRecordsWithRows(parseCsv(CSV), { granularity: "day" })
+    const summary = summarizeRows(records, result)
+    assert.equal(summary.total, 8)
+    assert.deepEqual(summary.headers, ["date", "region", "units"])
+    assert.deepEqual(Object.keys(summary.flagged), ["6", "7"])
+    assert.equal(summary.preview.length, 8)
+  })
+
+  it("serves sorted and filtered pages from rows in memory", async () => {
+    const { result, records } = analyzeRecordsWithRows(parseCsv(CSV))
+    const rows = localAnalyzedRows(records, result)
+    const page = await rows.fetchPage(
+      { sort: { column: "units", direction: "desc" }, filters: { region: "st" } },
+      0,
+      2,
+    )
+    assert.equal(page.matched, 4)
+    assert.deepEqual(page.indexes, [7, 4])
+    assert.deepEqual(
+      page.rows.map((row) => row.units),
+      ["120", "12"],
+    )
+  })
+})
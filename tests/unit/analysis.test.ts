@@ -1,6 +1,6 @@
 import { describe, it } from "node:test"
 import assert from "node:assert/strict"
-import { analyzeRecords, parseCsv } from "../../src/lib/analysis"
+import { AnalysisSpec, AnalysisSpecError, analyzeRecords, parseCsv } from "../../src/lib/analysis"
 
 const SAMPLE_CSV = `region,units,total
 North,10,2500
@@ -22,4 +22,44 @@ describe("analysis utilities", () => {
     assert.ok(result.kpis.length > 0)
     assert.ok(result.insights.length > 0)
   })
+
+  it("drives measures and grouping from the inferred schema", () => {
+    const records = parseCsv(`date,active,region,units
+2024-03-01,true,North,10
+2024-03-02,false,South,5`)
+    const result = analyzeRecords(records)
+    assert.deepEqual(
+      result.schema.map((column) => column.type),
+      ["date", "boolean", "category", "integer"],
+    )
+    assert.deepEqual(result.kpis.map((kpi) => kpi.label), ["Total units", "Average units"])
+    assert.deepEqual(result.table.headers, ["region", "units"])
+  })
+
+  it("applies a user supplied analysis spec", () => {
+    const records = parseCsv(SAMPLE_CSV)
+    const result = analyzeRecords(records, {
+      spec: { groupBy: ["region"], measures: [{ column: "units", aggregation: "median" }, { column: "region", aggregation: "count" }] },
+    })
+    assert.deepEqual(result.table.headers, ["region", "median(units)", "count(region)"])
+    assert.deepEqual(result.table.rows[0], ["North", 9, 2])
+    assert.deepEqual(result.kpis.map((kpi) => kpi.label), ["Median units", "Count region"])
+  })
+
+  it("rejects specs that reference unknown columns or invalid aggregations", () => {
+    const records = parseCsv(SAMPLE_CSV)
+    assert.throws(() => analyzeRecords(records, { spec: { groupBy: ["country"] } }), AnalysisSpecError)
+    assert.throws(
+      () => analyzeRecords(records, { spec: { groupBy: "region" } as unknown as AnalysisSpec }),
+      /groupBy must be an array of column names/,
+    )
+    assert.throws(
+      () => analyzeRecords(records, { spec: { measures: { column: "units" } } as unknown as AnalysisSpec }),
+      AnalysisSpecError,
+    )
+    assert.throws(
+      () => analyzeRecords(records, { spec: { measures: [{ column: "region", aggregation: "sum" }] } }),
+      /non-numeric/,
+    )
+  })
 })
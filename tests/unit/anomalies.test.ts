@@ -0,0 +1,61 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { detectAnomalies, findOutliers } from "../../src/lib/anomalies"
+import { analyzeRecords, parseCsv } from "../../src/lib/analysis"
+
+describe("anomaly detection", () => {
+  it("flags values outside the IQR fences and by z-score", () => {
+    const values = [10, 11, 9, 10, 12, 11, 10, 9, 11, 10, 95]
+    const { outliers } = findOutliers(values)
+    assert.equal(outliers.length, 1)
+    assert.equal(outliers[0].index, 10)
+    assert.deepEqual(outliers[0].methods, ["z-score", "iqr"])
+    assert.equal(outliers[0].severity, "high")
+  })
+
+  it("ignores samples too small to judge", () => {
+    assert.equal(findOutliers([1, 100, 1]).outliers.length, 0)
+  })
+
+  it("reports row, group and period anomalies with row indices", () => {
+    const records = parseCsv(`date,region,units
+2024-01-01,North,10
+2024-01-02,North,11
+2024-01-03,South,9
+2024-01-04,South,10
+2024-01-05,West,12
+2024-01-06,West,11
+2024-01-07,East,10
+2024-01-08,East,120`)
+    const result = analyzeRecords(records, { granularity: "day" })
+    const row = result.anomalies.find((anomaly) => anomaly.scope === "row")
+    const spike = result.anomalies.find((anomaly) => anomaly.methods.includes("spike"))
+
+    assert.deepEqual(row?.rowIndices, [7])
+    assert.equal(row?.metric, "units")
+    assert.equal(spike?.label, "2024-01-08")
+    assert.ok(result.insights.some((insight) => insight.includes("flagged")))
+  })
+
+  it("flags groups whose aggregate stands apart", () => {
+    const totals: Record<string, number> = { A: 20, B: 22, C: 21, D: 23, E: 490, F: 19, G: 24 }
+    const records = Object.entries(totals).flatMap(([region, total]) => [
+      { region, units: String(total / 2) },
+      { region, units: String(total / 2) },
+    ])
+    const anomalies = detectAnomalies(records, [], {
+      groupBy: ["region"],
+      measure: { column: "units", aggregation: "sum" },
+      timeSeries: null,
+    })
+    assert.equal(anomalies.length, 1)
+    assert.equal(anomalies[0].label, "E")
+    assert.deepEqual(anomalies[0].rowIndices, [8, 9])
+  })
+
+  it("writes values in messages the way the data's locale does", () => {
+    const records = [10, 11, 9, 10, 12, 11, 10, 9, 11, 10, 1234.5].map((units) => ({ units: String(units) }))
+    const [row] = detectAnomalies(records, ["units"], { groupBy: [], timeSeries: null, locale: "de-DE" })
+    assert.equal(row.message, "Row 11 has an unusually high units of 1.234,5 (typical 10).")
+  })
+})
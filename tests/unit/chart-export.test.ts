@@ -0,0 +1,19 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { chartFileName, toLightColor } from "../../src/lib/chart-export"
+
+describe("chart export", () => {
+  it("inverts greys for a light background and keeps series colors", () => {
+    assert.equal(toLightColor("oklch(0.279 0.041 260.031)"), "oklch(0.721 0.041 260.031)")
+    assert.equal(toLightColor("oklch(0.623 0.214 259.815)"), "oklch(0.623 0.214 259.815)")
+    assert.equal(toLightColor("rgb(226, 232, 240)"), "rgb(29, 23, 15)")
+    assert.equal(toLightColor("rgba(51, 65, 85, 0.5)"), "rgba(204, 190, 170, 0.5)")
+    assert.equal(toLightColor("rgb(59, 130, 246)"), "rgb(59, 130, 246)")
+    assert.equal(toLightColor("currentcolor"), "currentcolor")
+  })
+
+  it("names files after the chart title", () => {
+    assert.equal(chartFileName("Trend chart (Stacked bars)", "png"), "trend-chart-stacked-bars.png")
+    assert.equal(chartFileName("  ", "svg"), "chart.svg")
+  })
+})
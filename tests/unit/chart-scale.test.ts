@@ -0,0 +1,24 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { arcPath, labelStride, linearScale, niceTicks, truncateLabel } from "../../src/lib/chart-scale"
+
+describe("chart scales", () => {
+  it("picks round ticks that enclose the data", () => {
+    assert.deepEqual(niceTicks(0, 54000), [0, 20000, 40000, 60000])
+    assert.deepEqual(niceTicks(-3, 7), [-5, -2.5, 0, 2.5, 5, 7.5])
+    assert.deepEqual(niceTicks(0.1, 0.9), [0, 0.2, 0.4, 0.6, 0.8, 1])
+    assert.deepEqual(niceTicks(5, 5), [2, 4, 6, 8])
+  })
+
+  it("maps values onto pixels and thins labels", () => {
+    const y = linearScale([0, 100], [200, 0])
+    assert.equal(y(25), 150)
+    assert.equal(labelStride(5), 1)
+    assert.equal(labelStride(24), 3)
+    assert.equal(truncateLabel("AI Strategy Workshop"), "AI Strategy W…")
+  })
+
+  it("draws donut segments clockwise from twelve o'clock", () => {
+    assert.equal(arcPath(100, 100, 50, 30, 0, Math.PI / 2), "M100.00,50.00 A50,50 0 0 1 150.00,100.00 L130.00,100.00 A30,30 0 0 0 100.00,70.00 Z")
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { chatTools, createToolRegistry, defineChatTool, ToolArgumentError, validateToolArguments } from "../../src/lib/chat-tools"
+import { findExpression } from "../../src/lib/chat-tools/calculator"
+
+const echoTool = defineChatTool<{ text: string; times?: number }>({
+  name: "echo",
+  description: "Repeats text.",
+  parameters: {
+    type: "object",
+    properties: {
+      text: { type: "string", description: "Text to repeat." },
+      times: { type: "integer", description: "How many times." },
+    },
+    required: ["text"],
+  },
+  plan(message) {
+    const match = message.match(/^echo (.+)$/)
+    return match ? { text: match[1] } : null
+  },
+  async execute({ text, times = 1 }) {
+    if (text === "boom") throw new Error("Echo failed.")
+    return Array(times).fill(text).join(" ")
+  },
+})
+
+describe("chat tools", () => {
+  it("validates arguments against the tool's schema", () => {
+    const { parameters } = echoTool
+    assert.equal(validateToolArguments(parameters, { text: "hi", times: 2 }), null)
+    assert.equal(validateToolArguments(parameters, {}), 'Missing required argument "text".')
+    assert.equal(validateToolArguments(parameters, { text: "hi", times: 1.5 }), 'Argument "times" must be of type integer.')
+    assert.equal(validateToolArguments(parameters, { text: "hi", loud: true }), 'Unknown argument "loud".')
+  })
+
+  it("plans and runs the built-in tools from a message", async () => {
+    assert.deepEqual(await chatTools.run("calculate 4 + 5"), [
+      { tool: "calculator", arguments: { expression: "4 + 5" }, output: "4 + 5 = 9" },
+    ])
+    assert.deepEqual(await chatTools.run("What's 15% of 240? And what is (12+3) * 4 / 2?"), [
+      { tool: "calculator", arguments: { expression: "(12+3) * 4 / 2" }, output: "(12 + 3) * 4 / 2 = 30" },
+    ])
+    assert.deepEqual(await chatTools.run("what is 1,000 + 2, roughly?"), [
+      { tool: "calculator", arguments: { expression: "1000 + 2" }, output: "1000 + 2 = 1002" },
+    ])
+    assert.equal(findExpression("add 1,250,000 * 2% and max(3, 9)"), "1250000 * 2%")
+    assert.equal(findExpression("first 4 + 5, then 6 * 7"), "4 + 5")
+    const [failed] = await chatTools.run("divide 4 / 0")
+    assert.deepEqual(failed, { tool: "calculator", arguments: { expression: "4 / 0" }, output: "Division by zero.", failed: true })
+    const [weather] = await chatTools.run("what's the weather in Seattle")
+    assert.equal(weather.tool, "weather")
+    assert.deepEqual(weather.arguments, { location: "Seattle" })
+    assert.match(weather.output, /58°F/)
+    assert.deepEqual(
+      chatTools.describe().map((tool) => tool.name),
+      ["calculator", "weather"],
+    )
+  })
+
+  it("reports failures in the call and rejects bad registrations", async () => {
+    const registry = createToolRegistry([echoTool])
+    assert.deepEqual(await registry.call("echo", { text: "hi", times: 2 }), {
+      tool: "echo",
+      arguments: { text: "hi", times: 2 },
+      output: "hi hi",
+    })
+    assert.deepEqual(await registry.run("echo boom"), [
+      { tool: "echo", arguments: { text: "boom" }, output: "Echo failed.", failed: true },
+    ])
+    await assert.rejects(registry.call("echo", { times: 2 }), ToolArgumentError)
+    await assert.rejects(registry.call("missing", {}), ToolArgumentError)
+    assert.throws(() => registry.register(echoTool), /already registered/)
+  })
+})
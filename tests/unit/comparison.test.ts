@@ -0,0 +1,62 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { compareAnalyses, compareDatasets } from "../../src/lib/comparison"
+import { analyzeRecords } from "../../src/lib/analysis"
+
+const lastMonth = [
+  { region: "North", units: 10 },
+  { region: "South", units: 6 },
+  { region: "East", units: 4 },
+]
+
+const thisMonth = [
+  { region: "South", units: 12 },
+  { region: "North", units: 8 },
+  { region: "West", units: 2 },
+]
+
+describe("comparing analyses", () => {
+  it("diffs KPIs, group values and ranks", () => {
+    const { comparison } = compareDatasets(lastMonth, thisMonth, { spec: { groupBy: ["region"] } })
+    assert.equal(comparison.sameSpec, true)
+    assert.deepEqual(comparison.kpis[0], { label: "Total units", baseline: "20", current: "22", delta: 2, percent: 10 })
+
+    const [south, north, west, east] = comparison.groups
+    assert.deepEqual(south, {
+      label: "South",
+      status: "changed",
+      baseline: 6,
+      current: 12,
+      delta: 6,
+      percent: 100,
+      baselineRank: 2,
+      currentRank: 1,
+      rankChange: 1,
+    })
+    assert.equal(north.rankChange, -1)
+    assert.equal(north.percent, -20)
+    assert.deepEqual([west.status, west.baseline, west.rankChange], ["added", null, null])
+    assert.deepEqual([east.status, east.current, east.currentRank], ["removed", null, null])
+    assert.deepEqual(comparison.added, ["West"])
+    assert.deepEqual(comparison.removed, ["East"])
+  })
+
+  it("flags runs analyzed with different specs", () => {
+    const comparison = compareAnalyses(
+      analyzeRecords(lastMonth, { spec: { measures: [{ column: "units", aggregation: "sum" }] } }),
+      analyzeRecords(lastMonth, { spec: { measures: [{ column: "units", aggregation: "avg" }] } }),
+    )
+    assert.equal(comparison.sameSpec, false)
+    assert.deepEqual(
+      comparison.kpis.map((kpi) => [kpi.label, kpi.baseline, kpi.current]),
+      [
+        ["Average units", null, "6.67"],
+        ["Total units", "20", null],
+      ],
+    )
+    assert.deepEqual(
+      comparison.groups.map((group) => group.status),
+      ["unchanged", "unchanged", "unchanged"],
+    )
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { conversationTitle, DEFAULT_CONVERSATION_TITLE, searchConversations } from "../../src/lib/conversations"
+
+describe("conversations", () => {
+  it("titles a conversation from its first message", () => {
+    assert.equal(conversationTitle("what's the weather in Seattle? Also plan my week."), "What's the weather in Seattle?")
+    assert.equal(conversationTitle("  **Summarize**   the Q3 report.  "), "Summarize the Q3 report")
+    assert.equal(
+      conversationTitle("Draft an onboarding checklist for new analysts joining the revenue operations team"),
+      "Draft an onboarding checklist for new analysts…",
+    )
+    assert.equal(conversationTitle("```\ncode only\n```"), DEFAULT_CONVERSATION_TITLE)
+  })
+
+  it("searches titles and messages with pinned conversations first", () => {
+    const conversations = [
+      { id: "a", title: "Budget", pinned: false, updatedAt: 3, messages: [{ content: "calculate 4 + 5" }] },
+      { id: "b", title: "Weather", pinned: true, updatedAt: 1, messages: [{ content: "weather in London" }] },
+      { id: "c", title: "Budget review", pinned: false, updatedAt: 2, messages: [] },
+    ]
+    assert.deepEqual(
+      searchConversations(conversations, "").map((conversation) => conversation.id),
+      ["b", "a", "c"],
+    )
+    assert.deepEqual(
+      searchConversations(conversations, "budget").map((conversation) => conversation.id),
+      ["a", "c"],
+    )
+    assert.deepEqual(
+      searchConversations(conversations, "LONDON weather").map((conversation) => conversation.id),
+      ["b"],
+    )
+  })
+})
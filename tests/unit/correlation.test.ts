@@ -0,0 +1,38 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { correlationMatrix, rank, spearman } from "../../src/lib/correlation"
+import { analyzeRecords, parseCsv } from "../../src/lib/analysis"
+
+describe("correlation", () => {
+  it("averages tied ranks", () => {
+    assert.deepEqual(rank([10, 20, 10, 30]), [1.5, 3, 1.5, 4])
+  })
+
+  it("computes Pearson and Spearman matrices using complete pairs", () => {
+    const records = [
+      { units: "1", total: "10", returns: "9" },
+      { units: "2", total: "20", returns: "7" },
+      { units: "3", total: "31", returns: "" },
+      { units: "4", total: "39", returns: "2" },
+      { units: "5", total: "52", returns: "1" },
+    ]
+    const matrix = correlationMatrix(records, ["units", "total", "returns"])
+    assert.equal(matrix.pearson[0][0], 1)
+    assert.ok((matrix.pearson[0][1] ?? 0) > 0.99)
+    assert.equal(matrix.spearman[0][2], -1)
+    assert.equal(matrix.pairs.find((pair) => pair.b === "returns" && pair.a === "units")?.sampleSize, 4)
+  })
+
+  it("is undefined for constant columns", () => {
+    assert.equal(spearman([1, 1, 1], [1, 2, 3]), null)
+  })
+
+  it("surfaces strong relationships as insights", () => {
+    const result = analyzeRecords(parseCsv(`region,units,total
+North,10,2500
+South,5,1300
+North,8,2000
+West,12,2950`))
+    assert.ok(result.insights.some((insight) => /units and total are very strongly correlated, r=\d\.\d\d/.test(insight)))
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { CsvStreamParser, parseCsvStream, parseCsvText, sniffDelimiter } from "../../src/lib/csv-parser"
+
+describe("csv parser", () => {
+  it("handles quoted delimiters, escaped quotes and embedded newlines", () => {
+    const { records, warnings } = parseCsvText('\uFEFFname,notes,total\r\n"Acme, Inc.","said ""hi""\nthen left",10\r\nBeta,plain,20\r\n')
+    assert.equal(records.length, 2)
+    assert.deepEqual(records[0], { name: "Acme, Inc.", notes: 'said "hi"\nthen left', total: "10" })
+    assert.equal(records[1].name, "Beta")
+    assert.deepEqual(warnings, [])
+  })
+
+  it("yields identical rows regardless of chunk boundaries", () => {
+    const content = 'a,b\n"x\r\ny","q""z"\r\n1,2\n'
+    const whole = parseCsvText(content).records
+    const parser = new CsvStreamParser()
+    const pieces = content.split("").flatMap((char) => parser.push(char))
+    assert.deepEqual([...pieces, ...parser.end()], whole)
+  })
+
+  it("repairs headers and ragged rows with warnings", () => {
+    const { headers, records, warnings } = parseCsvText("region,,region\nNorth,1\nSouth,2,3,4\n")
+    assert.deepEqual(headers, ["region", "column_2", "region_2"])
+    assert.deepEqual(records[0], { region: "North", column_2: "1", region_2: "" })
+    assert.deepEqual(
+      warnings.map((warning) => [warning.code, warning.line]),
+      [
+        ["empty-header", 1],
+        ["duplicate-header", 1],
+        ["ragged-row", 2],
+        ["ragged-row", 3],
+      ],
+    )
+  })
+
+  it("warns about an unterminated quote", () => {
+    const { warnings } = parseCsvText('a,b\n1,"open\n')
+    assert.equal(warnings[0].code, "unterminated-quote")
+  })
+
+  it("parses a byte stream and reports progress", async () => {
+    const bytes = new TextEncoder().encode("region,units\nNorth,10\nSouth,5\n")
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 7))
+        controller.enqueue(bytes.slice(7))
+        controller.close()
+      },
+    })
+    const rows: string[] = []
+    let lastProgress = 0
+    await parseCsvStream(stream, {
+      onRow: (record) => rows.push(record.region),
+      onProgress: ({ bytesRead }) => {
+        lastProgress = bytesRead
+      },
+    })
+    assert.deepEqual(rows, ["North", "South"])
+    assert.equal(lastProgress, bytes.byteLength)
+  })
+
+  it("sniffs comma, semicolon, tab and pipe delimiters", () => {
+    assert.equal(sniffDelimiter("region;units;total\nNorth;10;\"2,5\"\nSouth;5;1,3"), ";")
+    assert.equal(sniffDelimiter("region\tunits\nNorth\t10"), "\t")
+    assert.equal(sniffDelimiter("a|b|c\n1|2|3"), "|")
+    assert.equal(sniffDelimiter('name,notes\n"Smith; Jo","a|b"'), ",")
+    assert.equal(sniffDelimiter("single column\nvalue"), ",")
+  })
+
+  it("sniffs the delimiter before streaming rows", () => {
+    const parser = new CsvStreamParser()
+    const rows = [..."region;units\nNorth;10\n".split("").flatMap((char) => parser.push(char)), ...parser.end()]
+    assert.equal(parser.delimiter, ";")
+    assert.deepEqual(rows, [{ region: "North", units: "10" }])
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { formatCell, gridColumns, matchesColumnFilter, queryRows, tableToGrid } from "../../src/lib/data-grid"
+
+const rows = [
+  { region: "North", units: "12", date: "2024-03-01", active: "yes" },
+  { region: "south", units: "4", date: "2024-01-15", active: "no" },
+  { region: "East", units: "", date: "2024-02-10", active: "yes" },
+  { region: "West", units: "100", date: "", active: "no" },
+]
+
+describe("data grid", () => {
+  it("sorts by type with empty cells last in both directions", () => {
+    const columns = gridColumns(rows)
+    assert.deepEqual(
+      columns.map((column) => column.type),
+      ["category", "integer", "date", "boolean"],
+    )
+    assert.deepEqual(queryRows(rows, columns, { sort: { column: "units", direction: "asc" } }), [1, 0, 3, 2])
+    assert.deepEqual(queryRows(rows, columns, { sort: { column: "units", direction: "desc" } }), [3, 0, 1, 2])
+    assert.deepEqual(queryRows(rows, columns, { sort: { column: "date", direction: "asc" } }), [1, 2, 0, 3])
+    assert.deepEqual(queryRows(rows, columns, { sort: { column: "region", direction: "asc" } }), [2, 0, 1, 3])
+  })
+
+  it("filters with comparisons, ranges and substrings", () => {
+    assert.equal(matchesColumnFilter("12", ">10", "integer"), true)
+    assert.equal(matchesColumnFilter("4", "5..20", "integer"), false)
+    assert.equal(matchesColumnFilter("", "!=3", "integer"), true)
+    assert.equal(matchesColumnFilter("2024-02-10", "<2024-03-01", "date"), true)
+    assert.equal(matchesColumnFilter("North", "nor", "category"), true)
+    assert.equal(matchesColumnFilter("North", ">a", "category"), false)
+
+    const columns = gridColumns(rows)
+    assert.deepEqual(queryRows(rows, columns, { filters: { units: ">=4", active: "no" } }), [1, 3])
+  })
+
+  it("formats cells for display and reads result tables", () => {
+    assert.equal(formatCell("$1234.5", "currency", "de-DE"), "$1.234,5")
+    assert.equal(formatCell("-12.5%", "percentage"), "-12.5%")
+    assert.equal(formatCell(1234, "integer"), "1,234")
+    assert.equal(formatCell("y", "boolean"), "Yes")
+    assert.equal(formatCell(null, "text"), "–")
+    const table = tableToGrid(["region", "median(units)"], [["North", 9], ["South", 4.5]])
+    assert.deepEqual(table.columns[1], { key: "median(units)", label: "median(units)", type: "decimal" })
+    assert.deepEqual(table.rows[0], { region: "North", "median(units)": 9 })
+  })
+})
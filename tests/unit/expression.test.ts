@@ -0,0 +1,70 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+  evaluateExpression,
+  ExpressionError,
+  formatExpression,
+  formatResult,
+  parseExpression,
+} from "../../src/lib/expression"
+
+function calculate(expression: string) {
+  return evaluateExpression(parseExpression(expression))
+}
+
+describe("arithmetic expressions", () => {
+  it("applies precedence, parentheses, unary minus and exponentiation", () => {
+    assert.equal(calculate("(12 + 3) * 4 / 2"), 30)
+    assert.equal(calculate("2 + 3 * 4"), 14)
+    assert.equal(calculate("-2^2"), -4)
+    assert.equal(calculate("2^3^2"), 512)
+    assert.equal(calculate("2 ** -1"), 0.5)
+    assert.equal(calculate("--3 - -(1 + 1)"), 5)
+    assert.equal(calculate("6 × 7 ÷ 2"), 21)
+  })
+
+  it("handles percentages, constants and functions", () => {
+    assert.equal(calculate("15% of 240"), 36)
+    assert.equal(calculate("80 + 15%"), 92)
+    assert.equal(calculate("200 - (10%)"), 180)
+    assert.equal(calculate("50% * 8"), 4)
+    assert.equal(calculate("round(pi, 3)"), 3.142)
+    assert.equal(calculate("sqrt(16) + max(1, 5, 2) - min(4, 3)"), 6)
+    assert.equal(calculate("log(1000) + log(8, 2) + ln(e)"), 7)
+    assert.equal(formatResult(calculate("0.1 + 0.2")), "0.3")
+  })
+
+  it("writes the parsed expression back out in a normalized form", () => {
+    assert.equal(formatExpression(parseExpression("(12+3)*4/2")), "(12 + 3) * 4 / 2")
+    assert.equal(formatExpression(parseExpression("2 ** 10 × PI")), "2 ^ 10 * pi")
+    assert.equal(formatExpression(parseExpression("15 % of 240")), "15% of 240")
+    assert.equal(formatExpression(parseExpression("MAX( 1,2 )")), "max(1, 2)")
+  })
+
+  it("reports malformed expressions with a position", () => {
+    assert.throws(
+      () => parseExpression("4 + "),
+      (error: unknown) => error instanceof ExpressionError && error.position === 4,
+    )
+    assert.throws(() => parseExpression("(2 + 3"), /Expected a closing "\)" before the end/)
+    assert.throws(() => parseExpression("2 + 3)"), /Unmatched closing "\)"/)
+    assert.throws(() => parseExpression("2 $ 3"), /Unexpected character "\$"/)
+    assert.throws(() => parseExpression("2 3"), /Expected an operator but found "3"/)
+    assert.throws(() => parseExpression("foo(2)"), /Unknown function "foo"/)
+    assert.throws(() => parseExpression("constructor(1)"), /Unknown function "constructor"/)
+    assert.throws(() => parseExpression("constructor + 1"), /Unknown name "constructor"/)
+    assert.throws(() => parseExpression("tostring"), /Unknown name "tostring"/)
+    assert.throws(() => parseExpression("sqrt 4"), /Expected "\(" after sqrt/)
+    assert.throws(() => parseExpression("round(1, 2, 3)"), /round\(\) takes 1 or 2 arguments/)
+    assert.throws(() => parseExpression("3 of 4"), /"of" must follow a percentage/)
+    assert.throws(() => parseExpression("  "), /The expression is empty/)
+  })
+
+  it("rejects results that are not finite numbers", () => {
+    assert.throws(() => calculate("4 / (2 - 2)"), /Division by zero/)
+    assert.throws(() => calculate("sqrt(-4)"), /square root of a negative number/)
+    assert.throws(() => calculate("log(0)"), /only defined for positive numbers/)
+    assert.throws(() => calculate("(-8) ^ 0.5"), /fractional power/)
+    assert.throws(() => calculate("10 ^ 400"), /too large/)
+  })
+})
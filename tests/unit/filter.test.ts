@@ -0,0 +1,62 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { filterRecords, FilterSyntaxError, parseDateRange, parseFilter } from "../../src/lib/filter"
+import { analyzeRecords } from "../../src/lib/analysis"
+
+const records = [
+  { date: "2024-07-15", region: "North", product: "Widget Pro", units: "10", active: "yes" },
+  { date: "2024-08-02", region: "South", product: "Gadget", units: "4", active: "no" },
+  { date: "2024-10-01", region: "North", product: "Widget", units: "7", active: "yes" },
+  { date: "2024-09-30", region: "west", product: "Gizmo", units: "12", active: "yes" },
+]
+
+function regions(expression: string): string[] {
+  return filterRecords(records, expression).map((record) => record.region)
+}
+
+describe("filter expressions", () => {
+  it("combines comparisons with and, or, not and parentheses", () => {
+    assert.deepEqual(regions("region = North and units > 5"), ["North", "North"])
+    assert.deepEqual(regions("units < 5 or region == 'West'"), ["South", "west"])
+    assert.deepEqual(regions("not (region = North) and active = true"), ["west"])
+  })
+
+  it("supports in, contains and between", () => {
+    assert.deepEqual(regions('region in (South, "west")'), ["South", "west"])
+    assert.deepEqual(regions("region not in (North)"), ["South", "west"])
+    assert.deepEqual(regions("product contains widget"), ["North", "North"])
+    assert.deepEqual(regions("units between 5 and 10"), ["North", "North"])
+  })
+
+  it("matches dates against days, months, quarters and ranges", () => {
+    assert.deepEqual(regions("date = 2024-Q3"), ["North", "South", "west"])
+    assert.deepEqual(regions("date >= 2024-08 and date <= 2024-09"), ["South", "west"])
+    assert.deepEqual(regions("date between 2024-09-30 and 2024-Q4"), ["North", "west"])
+    assert.deepEqual(parseDateRange("2024"), { start: Date.UTC(2024, 0, 1), end: Date.UTC(2025, 0, 1) })
+  })
+
+  it("reports syntax errors and unknown columns with a position", () => {
+    assert.throws(
+      () => parseFilter("units > "),
+      (error: unknown) => error instanceof FilterSyntaxError && error.position === 8 && /Expected a value/.test(error.message),
+    )
+    assert.throws(() => parseFilter("units >> 5"), FilterSyntaxError)
+    assert.throws(() => parseFilter("(units > 5"), /closing/)
+    assert.throws(
+      () => parseFilter("region = North and city = Oslo", ["region"]),
+      (error: unknown) => error instanceof FilterSyntaxError && error.position === 19,
+    )
+  })
+
+  it("keeps an empty dataset empty instead of rejecting its columns", () => {
+    assert.deepEqual(filterRecords([], "region = North and units > 5"), [])
+    assert.deepEqual(analyzeRecords([], { filter: "region = North" }).filter, { expression: "region = North", matched: 0, total: 0 })
+  })
+
+  it("states matched versus total rows in the analysis summary", () => {
+    const result = analyzeRecords(records, { filter: "region = North" })
+    assert.deepEqual(result.filter, { expression: "region = North", matched: 2, total: 4 })
+    assert.ok(result.summary.startsWith('2 of 4 rows matched the filter "region = North".'))
+    assert.equal(analyzeRecords(records, { filter: "units > 100" }).summary, "No rows matched the filter (0 of 4).")
+  })
+})
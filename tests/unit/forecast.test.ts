@@ -0,0 +1,59 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { backtest, buildForecast, linearRegression } from "../../src/lib/forecast"
+import { analyzeRecords } from "../../src/lib/analysis"
+import { buildTimeSeries } from "../../src/lib/time-series"
+
+const months = ["2024-01", "2024-02", "2024-03", "2024-04", "2024-05", "2024-06", "2024-07", "2024-08"]
+
+function series(values: number[]) {
+  const records = values.map((revenue, index) => ({ date: `${months[index]}-15`, revenue }))
+  return buildTimeSeries(records, "date", ["revenue"], "month")!
+}
+
+describe("forecasting", () => {
+  it("fits a least squares line", () => {
+    assert.deepEqual(linearRegression([3, 5, 7, 9]), { slope: 2, intercept: 3 })
+  })
+
+  it("projects a perfect trend with a zero-width band and labels future periods", () => {
+    const forecast = buildForecast(series([10, 20, 30, 40, 50, 60, 70, 80]), "revenue", 3)!
+    const linear = forecast.methods.find((entry) => entry.method === "linear")!
+    assert.deepEqual(
+      linear.points.map((point) => [point.period, point.value, point.lower, point.upper]),
+      [
+        ["2024-09", 90, 90, 90],
+        ["2024-10", 100, 100, 100],
+        ["2024-11", 110, 110, 110],
+      ],
+    )
+    assert.equal(forecast.best, "linear")
+    assert.deepEqual(linear.backtest, { periods: 2, mae: 0, rmse: 0, mape: 0 })
+  })
+
+  it("widens the band with the horizon and flattens level methods", () => {
+    const forecast = buildForecast(series([12, 9, 14, 10, 13, 11, 12, 10]), "revenue", 3)!
+    const smoothing = forecast.methods.find((entry) => entry.method === "exponential-smoothing")!
+    const widths = smoothing.points.map((point) => point.upper - point.lower)
+    assert.ok(widths[0] > 0 && widths[1] > widths[0] && widths[2] > widths[1])
+    const average = forecast.methods.find((entry) => entry.method === "moving-average")!
+    assert.deepEqual(
+      average.points.map((point) => point.value),
+      [11, 11, 11],
+    )
+  })
+
+  it("scores methods on held-out periods", () => {
+    assert.deepEqual(backtest([10, 10, 10, 10, 20], "moving-average", 1), { periods: 1, mae: 10, rmse: 10, mape: 50 })
+    assert.equal(backtest([1, 2, 3], "linear", 1), null)
+  })
+
+  it("adds a forecast section for the primary measure", () => {
+    const records = months.map((month, index) => ({ date: `${month}-01`, region: "North", revenue: 100 + index * 10 }))
+    const result = analyzeRecords(records, { granularity: "month", forecastHorizon: 2 })
+    assert.equal(result.forecast?.measure, "revenue")
+    assert.equal(result.forecast?.horizon, 2)
+    assert.ok(result.insights.some((insight) => insight.startsWith("Linear trend projects revenue at 190 by 2024-10")))
+    assert.equal(analyzeRecords(records.slice(0, 3), { granularity: "month" }).forecast, null)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { applyCalculatedColumns, CalculatedColumn, evaluateFormula, FormulaError, parseFormula } from "../../src/lib/formula"
+import { analyzeRecords } from "../../src/lib/analysis"
+
+function evaluate(formula: string, record: Record<string, string | number> = {}) {
+  return evaluateFormula(parseFormula(formula), record)
+}
+
+describe("formula expressions", () => {
+  it("evaluates arithmetic with precedence and column references", () => {
+    const record = { total: "$1,200", units: "8", "customer.region": "North" }
+    assert.equal(evaluate("total / units", record), 150)
+    assert.equal(evaluate("total * 0.2 + -units", record), 232)
+    assert.equal(evaluate("(1 + 2) * 3 % 4"), 1)
+    assert.equal(evaluate("customer.region = 'north'", record), true)
+    assert.equal(evaluate("total / 0", record), null)
+    assert.equal(evaluate("missing * 2", record), null)
+  })
+
+  it("supports conditionals and built-in functions", () => {
+    const record = { date: "2024-08-15", price: "12.3456", discount: "" }
+    assert.equal(evaluate("round(price, 2)", record), 12.35)
+    assert.equal(evaluate("abs(-3) + max(1, 5, 2)"), 8)
+    assert.equal(evaluate("if(price > 10 and not (price > 20), 'mid', 'other')", record), "mid")
+    assert.equal(evaluate("coalesce(discount, 0)", record), 0)
+    assert.deepEqual(
+      ["year", "quarter", "month", "day", "weekday"].map((part) => evaluate(`${part}(date)`, record)),
+      [2024, 3, 8, 15, 4],
+    )
+  })
+
+  it("rejects unsafe or malformed formulas with a position", () => {
+    assert.throws(() => parseFormula("constructor.constructor('x')()"), FormulaError)
+    assert.throws(
+      () => parseFormula("total / "),
+      (error: unknown) => error instanceof FormulaError && error.position === 8,
+    )
+    assert.throws(() => parseFormula("eval(total)"), /Unknown function "eval"/)
+    assert.throws(() => parseFormula("constructor(total)"), /Unknown function "constructor"/)
+    assert.throws(() => parseFormula("__proto__(total)"), /Unknown function "__proto__"/)
+    assert.throws(() => parseFormula("toString()"), FormulaError)
+    assert.throws(
+      () => applyCalculatedColumns([{ units: 2 }], [{ formula: "units * 2" } as unknown as CalculatedColumn]),
+      /Calculated columns need a name/,
+    )
+    assert.throws(() => parseFormula("round()"), /round\(\) takes 1 to 2 arguments/)
+    assert.throws(() => parseFormula("price * 2", ["total"]), /Unknown column "price"/)
+  })
+
+  it("materializes columns in order and names the failing definition", () => {
+    const records = [{ total: 100, units: 4 }]
+    const [row] = applyCalculatedColumns(records, [
+      { name: "price", formula: "total / units" },
+      { name: "price_with_tax", formula: "price * 1.2" },
+      { name: "is_big", formula: "total >= 100" },
+    ])
+    assert.deepEqual(row, { total: 100, units: 4, price: 25, price_with_tax: 30, is_big: "true" })
+    assert.deepEqual(records[0], { total: 100, units: 4 })
+
+    assert.throws(
+      () => applyCalculatedColumns(records, [{ name: "total", formula: "1" }]),
+      (error: unknown) => error instanceof FormulaError && error.target === "name",
+    )
+    assert.throws(
+      () => applyCalculatedColumns(records, [{ name: "bad", formula: "total +" }]),
+      (error: unknown) => error instanceof FormulaError && error.column === "bad",
+    )
+  })
+
+  it("analyzes calculated columns as measures and shows them in the table", () => {
+    const records = [
+      { region: "North", total: 100, units: 4 },
+      { region: "South", total: 90, units: 3 },
+      { region: "North", total: 50, units: 2 },
+    ]
+    const calculatedColumns = [{ name: "price", formula: "total / units" }]
+    const result = analyzeRecords(records, { calculatedColumns })
+    assert.deepEqual(result.calculatedColumns, ["price"])
+    assert.equal(result.schema.find((column) => column.name === "price")?.role, "measure")
+    assert.deepEqual(result.table.headers, ["region", "total", "avg(price)"])
+    assert.deepEqual(result.table.rows[0], ["North", 150, 25])
+
+    const bySpec = analyzeRecords(records, { calculatedColumns, spec: { measures: [{ column: "price", aggregation: "max" }] } })
+    assert.deepEqual(bySpec.trends[0], { label: "South", value: 30 })
+  })
+})
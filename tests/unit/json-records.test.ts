@@ -0,0 +1,68 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { findRecordArray, flattenRecord, parseJsonDocument, parseNdjson } from "../../src/lib/json-records"
+import { analyzeRecords, parseRecords } from "../../src/lib/analysis"
+
+describe("json records", () => {
+  it("flattens nested objects and arrays into dot paths", () => {
+    const { record, truncated } = flattenRecord({
+      id: 1,
+      active: true,
+      note: null,
+      customer: { region: "North", address: { city: "Oslo" } },
+      items: [{ sku: "A-1", qty: 2 }],
+    })
+    assert.equal(truncated, false)
+    assert.deepEqual(record, {
+      id: 1,
+      active: "true",
+      note: "",
+      "customer.region": "North",
+      "customer.address.city": "Oslo",
+      "items[0].sku": "A-1",
+      "items[0].qty": 2,
+    })
+  })
+
+  it("keeps values below the depth limit as JSON text", () => {
+    const { record, truncated } = flattenRecord({ a: { b: { c: 1 } } }, 1)
+    assert.equal(truncated, true)
+    assert.deepEqual(record, { "a.b": '{"c":1}' })
+  })
+
+  it("discovers the largest record array inside a wrapper object", () => {
+    const { path, items } = findRecordArray({
+      meta: { tags: [{ name: "x" }] },
+      response: { data: [{ id: 1 }, { id: 2 }] },
+    })
+    assert.equal(path, "response.data")
+    assert.equal(items.length, 2)
+  })
+
+  it("reports where records came from and warns about non-object entries", () => {
+    const result = parseJsonDocument('{"data":[{"units":1},5]}')
+    assert.equal(result.recordPath, "data")
+    assert.deepEqual(result.records, [{ units: 1 }, { value: 5 }])
+    assert.deepEqual(result.warnings.map((warning) => warning.code), ["non-object-record"])
+  })
+
+  it("parses NDJSON and skips invalid lines with a warning", () => {
+    const result = parseNdjson('{"region":"North","units":3}\n\nnot json\n{"region":"South","units":4}\n')
+    assert.equal(result.records.length, 2)
+    assert.deepEqual(result.warnings, [{ code: "invalid-line", line: 3, message: "Line is not valid JSON and was skipped." }])
+    assert.throws(() => parseNdjson("nope\nstill nope"), SyntaxError)
+  })
+
+  it("feeds flattened records into analyzeRecords", () => {
+    const content = [
+      '{"customer":{"region":"North"},"total":120}',
+      '{"customer":{"region":"South"},"total":80}',
+      '{"customer":{"region":"North"},"total":40}',
+    ].join("\n")
+    const parsed = parseRecords(content, "json")
+    assert.equal(parsed.records.length, 3)
+    const result = analyzeRecords(parsed.records)
+    assert.ok(result.schema.some((column) => column.name === "customer.region" && column.role === "dimension"))
+    assert.deepEqual(result.trends[0], { label: "North", value: 160 })
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { analyzeRecords } from "../../src/lib/analysis"
+import { detectNumberLocale, formatNumber, normalizeNumbers, parseNumberText, toNumber } from "../../src/lib/numbers"
+
+describe("locale-aware numbers", () => {
+  it("parses separators, currencies, percentages and accounting negatives", () => {
+    assert.deepEqual(parseNumberText("1.234,56", "de-DE"), { value: 1234.56, kind: "decimal", canonical: "1234.56" })
+    assert.equal(parseNumberText("1 234,56 €", "fr-FR")?.value, 1234.56)
+    assert.equal(parseNumberText("1'234.50", "de-CH")?.value, 1234.5)
+    assert.equal(parseNumberText("(500)")?.value, -500)
+    assert.deepEqual(parseNumberText("12%"), { value: 12, kind: "percentage", canonical: "12%" })
+    assert.equal(parseNumberText("1,234.56", "de-DE"), null)
+    assert.equal(toNumber("1.234"), 1.234)
+    assert.equal(toNumber("1.234", "de-DE"), 1234)
+    assert.equal(formatNumber(1234.5, "de-DE"), "1.234,5")
+  })
+
+  it("detects the locale and analyzes locale-formatted records", () => {
+    const records = [
+      { region: "Nord", revenue: "1.234,50" },
+      { region: "Süd", revenue: "2.000,25" },
+      { region: "Nord", revenue: "765,25" },
+    ]
+    assert.equal(detectNumberLocale(records), "de-DE")
+    assert.deepEqual(normalizeNumbers(records, "de-DE")[0], { region: "Nord", revenue: "1234.50" })
+
+    const result = analyzeRecords(records, { spec: { groupBy: ["region"] } })
+    assert.equal(result.locale, "de-DE")
+    assert.equal(result.kpis[0].value, "4.000")
+    assert.deepEqual(
+      result.trends.map((point) => [point.label, point.value]),
+      [
+        ["Süd", 2000.25],
+        ["Nord", 1999.75],
+      ],
+    )
+  })
+})
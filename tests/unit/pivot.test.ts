@@ -0,0 +1,58 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { buildPivot } from "../../src/lib/pivot"
+import { AnalysisSpecError, analyzeRecords } from "../../src/lib/analysis"
+
+const records = [
+  { date: "2024-01-05", region: "North", product: "A", units: 10 },
+  { date: "2024-01-20", region: "North", product: "B", units: 4 },
+  { date: "2024-02-03", region: "South", product: "A", units: 6 },
+  { date: "2024-02-14", region: "South", product: "A", units: 2 },
+  { date: "2024-03-01", region: "East", product: "C", units: 1 },
+]
+
+describe("pivot tables", () => {
+  it("cross-tabulates with subtotals and a grand total", () => {
+    const pivot = buildPivot(records, { rows: "region", columns: "product", measure: { column: "units", aggregation: "sum" } })
+    assert.deepEqual(pivot.rowKeys, ["North", "South", "East"])
+    assert.deepEqual(pivot.columnKeys, ["A", "B", "C"])
+    assert.deepEqual(pivot.cells, [
+      [10, 4, null],
+      [8, null, null],
+      [null, null, 1],
+    ])
+    assert.deepEqual(pivot.rowTotals, [14, 8, 1])
+    assert.deepEqual(pivot.columnTotals, [18, 4, 1])
+    assert.equal(pivot.grandTotal, 23)
+    assert.deepEqual([pivot.min, pivot.max], [1, 10])
+  })
+
+  it("aggregates subtotals from raw cells and folds extra keys into Other", () => {
+    const pivot = buildPivot(
+      records,
+      { rows: "region", columns: "product", measure: { column: "units", aggregation: "avg" } },
+      { maxRows: 2 },
+    )
+    assert.deepEqual(pivot.rowKeys, ["North", "Other"])
+    assert.deepEqual(pivot.rowTotals, [7, 3])
+    assert.equal(pivot.columnTotals[0], 6)
+    assert.equal(pivot.grandTotal, 4.6)
+  })
+
+  it("buckets time dimensions into chronological periods", () => {
+    const result = analyzeRecords(records, {
+      granularity: "month",
+      pivot: { rows: "date", columns: "region", measure: { column: "units", aggregation: "sum" } },
+    })
+    assert.deepEqual(result.pivot?.rowKeys, ["2024-01", "2024-02", "2024-03"])
+    assert.deepEqual(result.pivot?.rowTotals, [14, 8, 1])
+  })
+
+  it("defaults to the primary measure and validates columns", () => {
+    const result = analyzeRecords(records, { pivot: { rows: "region", columns: "product" } })
+    assert.equal(result.pivot?.label, "units")
+    assert.equal(analyzeRecords(records).pivot, null)
+    assert.throws(() => analyzeRecords(records, { pivot: { rows: "region", columns: "region" } }), AnalysisSpecError)
+    assert.throws(() => analyzeRecords(records, { pivot: { rows: "region", columns: "city" } }), /Unknown pivot column: city/)
+  })
+})
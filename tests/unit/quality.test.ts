@@ -0,0 +1,62 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { assessQuality } from "../../src/lib/quality"
+import { inferSchema } from "../../src/lib/schema"
+import { analyzeRecords, parseRecords } from "../../src/lib/analysis"
+
+describe("data quality", () => {
+  const records = [
+    { region: "North", revenue: "$1,200", units: "10" },
+    { region: "north", revenue: "800", units: "12" },
+    { region: "South", revenue: "950", units: "n/a" },
+    { region: "South", revenue: "950", units: "n/a" },
+    { region: "East", revenue: "", units: "8" },
+    { region: "West", revenue: "700", units: "9" },
+    { region: "West", revenue: "640", units: "11" },
+    { region: "North", revenue: "720", units: "7" },
+    { region: "East", revenue: "600", units: "6" },
+    { region: "West", revenue: "610", units: "5" },
+  ]
+
+  it("reports each kind of issue with affected rows", () => {
+    const report = assessQuality(records, inferSchema(records))
+    const byId = new Map(report.issues.map((issue) => [issue.id, issue]))
+
+    assert.deepEqual(byId.get("missing-values-revenue")?.rowIndices, [4])
+    assert.deepEqual(byId.get("coerced-numbers-revenue")?.examples, ["$1,200"])
+    assert.deepEqual(byId.get("mixed-types-units")?.rowIndices, [2, 3])
+    assert.deepEqual(byId.get("inconsistent-categories-region")?.examples, ['"North" vs. "north"'])
+    assert.deepEqual(byId.get("duplicate-rows")?.rowIndices, [3])
+    assert.equal(byId.get("mixed-types-units")?.severity, "high")
+    assert.ok(report.score < 100 && report.score > 0)
+  })
+
+  it("counts ragged rows from parse warnings", () => {
+    const parsed = parseRecords("a,b\n1,2\n3\n4,5,6\n", "csv")
+    const report = assessQuality(parsed.records, inferSchema(parsed.records), parsed.warnings)
+    const ragged = report.issues.find((issue) => issue.kind === "ragged-rows")
+    assert.equal(ragged?.count, 2)
+    assert.deepEqual(ragged?.examples, ["Line 3", "Line 4"])
+  })
+
+  it("takes the share of ragged rows from every parsed row when a filter drops some", () => {
+    const parsed = parseRecords("a,b\n1,2\n3\n4,5,6\n7,8\n", "csv")
+    const result = analyzeRecords(parsed.records, { filter: "a >= 4", parseWarnings: parsed.warnings })
+    const ragged = result.quality?.issues.find((issue) => issue.kind === "ragged-rows")
+    assert.equal(result.quality?.rowCount, 2)
+    assert.equal(ragged?.count, 2)
+    assert.equal(ragged?.share, 0.5)
+  })
+
+  it("scores clean data at 100 and attaches the report to the analysis", () => {
+    const clean = [
+      { region: "North", units: 3 },
+      { region: "South", units: 5 },
+    ]
+    const result = analyzeRecords(clean)
+    assert.equal(result.quality?.score, 100)
+    assert.deepEqual(result.quality?.issues, [])
+    assert.ok(result.summary.includes("Data quality score: 100/100."))
+    assert.equal(analyzeRecords([]).quality, null)
+  })
+})
@@ -0,0 +1,111 @@
+import { before, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { answerQuestion, interpretQuestion, QueryInterpretationError } from "../../src/lib/query"
+import { initMocks } from "../../src/mocks"
+
+const records = [
+  { region: "North", representative: "Jamie", item: "Workshop", units: "12", unit_price: "4500" },
+  { region: "West", representative: "Harper", item: "Sprint", units: "8", unit_price: "3900" },
+  { region: "South", representative: "Casey", item: "Library", units: "25", unit_price: "1200" },
+  { region: "North", representative: "Jamie", item: "Co-pilot", units: "14", unit_price: "2800" },
+  { region: "West", representative: "Riley", item: "Workshop", units: "4", unit_price: "4500" },
+]
+
+describe("questions about a dataset", () => {
+  before(() => {
+    initMocks()
+  })
+
+  it("answers superlative group questions from the rows", () => {
+    const answer = answerQuestion(records, "Which region had the highest average units?")
+    assert.deepEqual(answer.query, {
+      aggregation: "avg",
+      measure: "units",
+      groupBy: "region",
+      filter: null,
+      sort: "desc",
+      limit: 1,
+    })
+    assert.equal(answer.answer, "South had the highest average units (25).")
+    assert.deepEqual(answer.table, { columns: ["region", "Average units"], rows: [["South", 25]] })
+    assert.equal(answer.interpretation, "Average of units by region, highest first, keeping 1")
+  })
+
+  it("maps values and comparisons onto filters", () => {
+    assert.deepEqual(interpretQuestion("total units in North or West", records), {
+      aggregation: "sum",
+      measure: "units",
+      groupBy: null,
+      filter: '`region` in ("North", "West")',
+      sort: "desc",
+      limit: null,
+    })
+    const answer = answerQuestion(records, "How many rows have units over 10?")
+    assert.equal(answer.query.filter, "`units` > 10")
+    assert.equal(answer.answer, "3 rows match.")
+
+    const quoted = [{ "o`clock": "North", units: "3" }, { "o`clock": "West", units: "5" }]
+    const escaped = answerQuestion(quoted, "total units for North")
+    assert.equal(escaped.query.filter, '`o\\`clock` = "North"')
+    assert.equal(escaped.answer, "The total units is 3 across 1 matching rows.")
+
+    const top = answerQuestion(records, "top 2 representatives by unit price")
+    assert.equal(top.query.aggregation, "sum")
+    assert.deepEqual(top.table.rows, [
+      ["Jamie", 7300],
+      ["Riley", 4500],
+    ])
+  })
+
+  it("reads the measure from a comparison when no other numeric column is named", () => {
+    assert.deepEqual(interpretQuestion("units over 4 by region", records), {
+      aggregation: "sum",
+      measure: "units",
+      groupBy: "region",
+      filter: "`units` > 4",
+      sort: "desc",
+      limit: null,
+    })
+    assert.equal(interpretQuestion("average unit price where units over 10", records).measure, "unit_price")
+    const counted = interpretQuestion("how many rows have units over 4 by region", records)
+    assert.equal(counted.aggregation, "count")
+    assert.equal(counted.measure, null)
+  })
+
+  it("reads an aggregation word as such when it is also a column name", () => {
+    const sales = records.map((record) => ({ ...record, total: String(Number(record.units) * Number(record.unit_price)) }))
+    const byRegion = answerQuestion(sales, "total units by region")
+    assert.equal(byRegion.interpretation, "Total of units by region, highest first")
+    assert.deepEqual(byRegion.table.rows[0], ["North", 26])
+    const north = answerQuestion(sales, "total units for North")
+    assert.equal(north.query.measure, "units")
+    assert.equal(north.query.filter, '`region` = "North"')
+    assert.match(north.answer, /\b26\b/)
+    assert.equal(interpretQuestion("what are the total units?", sales).measure, "units")
+    assert.equal(interpretQuestion("total by region", sales).measure, "total")
+  })
+
+  it("rejects questions it cannot relate to the columns", () => {
+    assert.throws(() => interpretQuestion("what is the weather like?", records), QueryInterpretationError)
+    assert.throws(() => interpretQuestion("average by region", records), /Name a numeric column to average/)
+  })
+
+  it("answers through the query endpoint", async () => {
+    const content = ["region,units", ...records.map((record) => `${record.region},${record.units}`)].join("\n")
+    const response = await fetch("http://localhost/api/analysis/query", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileType: "csv", content, question: "units by region", filter: "units > 5" }),
+    })
+    const body = await response.json()
+    assert.equal(response.status, 200)
+    assert.equal(body.answer, "Total units by region: North (26), South (25), West (8).")
+
+    const invalid = await fetch("http://localhost/api/analysis/query", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileType: "csv", content, question: "median by region" }),
+    })
+    assert.equal(invalid.status, 400)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { inferColumn, inferSchema, parseBooleanValue, parseDateValue } from "../../src/lib/schema"
+
+describe("schema inference", () => {
+  it("detects temporal, boolean and numeric column types", () => {
+    const schema = inferSchema([
+      { order_id: "1001", date: "2024-03-01", shipped: "true", units: "10", price: "$1,200.50", margin: "12%" },
+      { order_id: "1002", date: "2024-03-02", shipped: "false", units: "5", price: "$980", margin: "8.5%" },
+      { order_id: "1003", date: "2024-03-03", shipped: "yes", units: "8", price: "$1,050", margin: "10%" },
+    ])
+    const types = Object.fromEntries(schema.map((column) => [column.name, column.type]))
+
+    assert.deepEqual(types, {
+      order_id: "identifier",
+      date: "date",
+      shipped: "boolean",
+      units: "integer",
+      price: "currency",
+      margin: "percentage",
+    })
+    assert.equal(schema.find((column) => column.name === "date")?.role, "time")
+  })
+
+  it("reports confidence and missing values for mixed columns", () => {
+    const column = inferColumn("units", ["10", "12", "", "n/a", "7", "9", "11", "3", "4", "5", "6"])
+    assert.equal(column.type, "integer")
+    assert.equal(column.missing, 1)
+    assert.equal(column.confidence, 0.9)
+  })
+
+  it("separates categories from free text", () => {
+    assert.equal(inferColumn("region", ["North", "South", "North"]).type, "category")
+    const notes = Array.from({ length: 3 }, (_, index) => `Customer asked for a follow-up call about renewal option ${index}`)
+    assert.equal(inferColumn("notes", notes).type, "text")
+  })
+
+  it("does not read Object.prototype names as booleans", () => {
+    assert.equal(parseBooleanValue("constructor"), null)
+    assert.equal(parseBooleanValue("__proto__"), null)
+    assert.equal(parseBooleanValue(" Yes "), true)
+    assert.notEqual(inferColumn("note", ["constructor", "__proto__", "constructor"]).type, "boolean")
+  })
+
+  it("rejects impossible dates", () => {
+    assert.equal(parseDateValue("2024-02-30"), null)
+    assert.equal(parseDateValue("03/01/2024")?.toISOString(), "2024-03-01T00:00:00.000Z")
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { histogram, profileColumns, quantile, standardDeviation } from "../../src/lib/statistics"
+import { inferSchema } from "../../src/lib/schema"
+
+describe("statistics", () => {
+  it("computes quantiles and standard deviation", () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+    assert.equal(quantile(sorted, 0.5), 5.5)
+    assert.equal(quantile(sorted, 0.25), 3.25)
+    assert.equal(Number(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9]).toFixed(4)), 2.1381)
+  })
+
+  it("bins values on readable edges and counts every value once", () => {
+    const values = Array.from({ length: 100 }, (_, index) => index)
+    const bins = histogram(values)
+    assert.equal(bins.reduce((sum, bin) => sum + bin.count, 0), 100)
+    assert.equal(bins[0].start, 0)
+    assert.ok(bins.every((bin) => Number.isInteger((bin.end - bin.start) * 2)))
+  })
+
+  it("profiles numeric and categorical columns", () => {
+    const records = [
+      { region: "North", units: "10" },
+      { region: "South", units: "5" },
+      { region: "North", units: "" },
+    ]
+    const [region, units] = profileColumns(records, inferSchema(records))
+
+    assert.equal(region.kind, "categorical")
+    if (region.kind === "categorical") {
+      assert.equal(region.cardinality, 2)
+      assert.deepEqual(region.topValues[0], { value: "North", count: 2, share: 0.6667 })
+    }
+
+    assert.equal(units.kind, "numeric")
+    if (units.kind === "numeric") {
+      assert.equal(units.missing, 1)
+      assert.equal(units.mean, 7.5)
+      assert.equal(units.max, 10)
+    }
+  })
+})
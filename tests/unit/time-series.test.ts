@@ -0,0 +1,46 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { bucketDate, buildTimeSeries } from "../../src/lib/time-series"
+import { analyzeRecords, parseCsv } from "../../src/lib/analysis"
+
+const DAILY_CSV = `date,region,units,total
+2023-03-10,North,4,800
+2024-01-15,North,10,2500
+2024-02-03,South,5,1300
+2024-02-20,North,8,2000
+2024-03-05,West,12,3000`
+
+describe("time series", () => {
+  it("labels periods for every granularity", () => {
+    const date = new Date(Date.UTC(2024, 0, 3))
+    assert.equal(bucketDate(date, "day").period, "2024-01-03")
+    assert.equal(bucketDate(date, "week").period, "2024-W01")
+    assert.equal(bucketDate(date, "month").period, "2024-01")
+    assert.equal(bucketDate(date, "quarter").period, "2024-Q1")
+    assert.equal(bucketDate(date, "year").period, "2024")
+    assert.equal(bucketDate(new Date(Date.UTC(2021, 0, 1)), "week").period, "2020-W53")
+  })
+
+  it("totals measures per period and compares adjacent and year-ago periods", () => {
+    const series = buildTimeSeries(parseCsv(DAILY_CSV), "date", ["units", "total"], "month")
+    assert.ok(series)
+    assert.equal(series.points.length, 13)
+    assert.deepEqual(series.points[series.points.length - 2].values, { units: 13, total: 3300 })
+
+    const [units] = series.periodOverPeriod
+    assert.equal(units.period, "2024-03")
+    assert.equal(units.comparedTo, "2024-02")
+    assert.equal(units.delta, -1)
+
+    const [yearAgo] = series.yearOverYear
+    assert.equal(yearAgo.comparedTo, "2023-03")
+    assert.equal(yearAgo.percent, 200)
+  })
+
+  it("reports period changes instead of last-row deltas when a date column exists", () => {
+    const result = analyzeRecords(parseCsv(DAILY_CSV), { granularity: "month" })
+    assert.equal(result.timeSeries?.granularity, "month")
+    assert.ok(result.insights.some((insight) => insight.includes("vs. 2024-02")))
+    assert.ok(result.insights.some((insight) => insight.includes("year over year")))
+  })
+})